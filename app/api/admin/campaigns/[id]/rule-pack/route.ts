@@ -0,0 +1,89 @@
+/**
+ * API Route: Campaign Rule Pack
+ * GET /api/admin/campaigns/[id]/rule-pack
+ * Returns the effective evaluation rules (campaign overrides merged over the built-in pack)
+ * PUT /api/admin/campaigns/[id]/rule-pack
+ * Body: { version: 1, rules: [...] } or null to clear the overrides
+ * Validates the pack and saves it - invalid packs return 400 with every problem found
+ * Requires `Authorization: Bearer $ADMIN_API_SECRET`
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedRequest } from "@/lib/api/auth";
+import { RulePackValidationError } from "@/lib/evaluation/rulePack";
+import { getCampaignRulePack, saveCampaignRulePack } from "@/lib/services/rulePacks";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!isAuthorizedRequest(request, process.env.ADMIN_API_SECRET)) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { id: campaignId } = await params;
+    const rulePack = await getCampaignRulePack(campaignId);
+
+    return NextResponse.json({ rulePack });
+  } catch (error) {
+    console.error("Error in rule pack API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!isAuthorizedRequest(request, process.env.ADMIN_API_SECRET)) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { id: campaignId } = await params;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Body must be a JSON rule pack or null" },
+        { status: 400 }
+      );
+    }
+
+    const rulePack = await saveCampaignRulePack(campaignId, body);
+
+    if (!rulePack) {
+      return NextResponse.json(
+        { error: "Campaign not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, rulePack });
+  } catch (error) {
+    if (error instanceof RulePackValidationError) {
+      return NextResponse.json(
+        { error: "Invalid rule pack", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error saving rule pack:", error);
+    return NextResponse.json(
+      { error: "Failed to save rule pack" },
+      { status: 500 }
+    );
+  }
+}
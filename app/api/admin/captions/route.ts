@@ -0,0 +1,50 @@
+/**
+ * API Route: Re-attach Mux Subtitles
+ * POST /api/admin/captions
+ * Body: { recordingId }
+ * Rebuilds the VTT from the stored transcript and replaces the asset's subtitles track
+ * (backfills recordings transcribed before text tracks existed)
+ * Requires `Authorization: Bearer $ADMIN_API_SECRET`
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedRequest } from "@/lib/api/auth";
+import { attachCaptionsToMux } from "@/lib/services/captions";
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedRequest(request, process.env.ADMIN_API_SECRET)) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const { recordingId } = body;
+
+    if (!recordingId) {
+      return NextResponse.json(
+        { error: "Missing required field: recordingId" },
+        { status: 400 }
+      );
+    }
+
+    const trackId = await attachCaptionsToMux(recordingId);
+
+    if (!trackId) {
+      return NextResponse.json(
+        { error: "Nothing to attach - recording needs a Mux asset and a transcript, and APP_URL and CAPTIONS_URL_SECRET must be set" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, trackId });
+  } catch (error) {
+    console.error("Error attaching captions to Mux:", error);
+    return NextResponse.json(
+      { error: "Failed to attach captions" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * API Route: Testimonial Insights
+ * GET /api/admin/insights?kind=metric&unit=multiplier&minValue=5&campaignId=...
+ * Queries typed insights across campaigns (e.g. every ROI metric of 5x or more)
+ * POST /api/admin/insights
+ * Body: { recordingId }
+ * Re-extracts a recording's insights from its current transcript (backfills)
+ * Requires `Authorization: Bearer $ADMIN_API_SECRET`
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedRequest } from "@/lib/api/auth";
+import { INSIGHT_KINDS, InsightKind } from "@/lib/evaluation/insightExtractor";
+import { extractRecordingInsights, listInsights } from "@/lib/services/insights";
+
+function parseNumber(value: string | null): number | undefined | null {
+  if (value === null || value === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedRequest(request, process.env.ADMIN_API_SECRET)) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const kind = searchParams.get("kind") || undefined;
+    const minValue = parseNumber(searchParams.get("minValue"));
+    const maxValue = parseNumber(searchParams.get("maxValue"));
+    const limit = parseNumber(searchParams.get("limit"));
+
+    if (kind && !INSIGHT_KINDS.includes(kind as InsightKind)) {
+      return NextResponse.json(
+        { error: `Invalid kind. Expected one of: ${INSIGHT_KINDS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (minValue === null || maxValue === null || limit === null) {
+      return NextResponse.json(
+        { error: "minValue, maxValue and limit must be numbers" },
+        { status: 400 }
+      );
+    }
+
+    const insights = await listInsights({
+      campaignId: searchParams.get("campaignId") || undefined,
+      recordingId: searchParams.get("recordingId") || undefined,
+      kind: kind as InsightKind | undefined,
+      unit: searchParams.get("unit") || undefined,
+      minValue,
+      maxValue,
+      limit: limit ? Math.min(limit, 1000) : undefined,
+    });
+
+    return NextResponse.json({ insights });
+  } catch (error) {
+    console.error("Error in admin insights API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedRequest(request, process.env.ADMIN_API_SECRET)) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const { recordingId } = body;
+
+    if (!recordingId) {
+      return NextResponse.json(
+        { error: "Missing required field: recordingId" },
+        { status: 400 }
+      );
+    }
+
+    const insights = await extractRecordingInsights(recordingId);
+
+    if (!insights) {
+      return NextResponse.json(
+        { error: "Nothing to extract - recording needs an English transcript" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, insights });
+  } catch (error) {
+    console.error("Error extracting insights:", error);
+    return NextResponse.json(
+      { error: "Failed to extract insights" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * API Route: Re-run Pipeline Stage
+ * POST /api/admin/jobs/rerun
+ * Body: { recordingId, stage, discardTranscriptEdits? } - stage is one of asset_ready,
+ * transcribed, evaluated, rendered, published
+ * Re-runs the stage and continues through the rest of the pipeline
+ * A transcribed re-run keeps reviewer edits unless discardTranscriptEdits is true, in which
+ * case fresh provider output is saved as a new transcript version
+ * Requires `Authorization: Bearer $ADMIN_API_SECRET`
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { waitUntil } from "@vercel/functions";
+import { isAuthorizedRequest } from "@/lib/api/auth";
+import { enqueueJob, isJobStage, JOB_STAGES } from "@/lib/services/jobQueue";
+import { runRecordingJobs } from "@/lib/services/recordingPipeline";
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedRequest(request, process.env.ADMIN_API_SECRET)) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const { recordingId, stage, discardTranscriptEdits } = body;
+
+    if (!recordingId || !isJobStage(stage)) {
+      return NextResponse.json(
+        { error: `Missing recordingId or invalid stage. Expected one of: ${JOB_STAGES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // force: run even if an earlier attempt already moved past this stage
+    const job = await enqueueJob(recordingId, stage, {
+      payload: { force: true, discardTranscriptEdits: discardTranscriptEdits === true },
+    });
+
+    if (!job) {
+      return NextResponse.json(
+        { error: `A ${stage} job is already pending or running for this recording` },
+        { status: 409 }
+      );
+    }
+
+    console.log(`🔁 [Admin] Re-running ${stage} for recording: ${recordingId}`);
+
+    waitUntil(
+      runRecordingJobs({ recordingId }).catch((error) => {
+        console.error("Error running re-queued job:", error);
+      })
+    );
+
+    return NextResponse.json({ success: true, job }, { status: 202 });
+  } catch (error) {
+    console.error("Error in job rerun API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * API Route: Admin Job List
+ * GET /api/admin/jobs?recordingId=...&status=dead
+ * Lists pipeline jobs - use status=dead to see dead-lettered work
+ * Requires `Authorization: Bearer $ADMIN_API_SECRET`
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedRequest } from "@/lib/api/auth";
+import { listJobs, JobStatus } from "@/lib/services/jobQueue";
+
+const JOB_STATUSES: JobStatus[] = ["pending", "running", "completed", "dead"];
+
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedRequest(request, process.env.ADMIN_API_SECRET)) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const recordingId = searchParams.get("recordingId") || undefined;
+    const status = searchParams.get("status") || undefined;
+
+    if (status && !JOB_STATUSES.includes(status as JobStatus)) {
+      return NextResponse.json(
+        { error: `Invalid status. Expected one of: ${JOB_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const jobs = await listJobs({
+      recordingId,
+      status: status as JobStatus | undefined,
+    });
+
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    console.error("Error in admin jobs API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -7,15 +7,20 @@
  * 2. Extracts the first 6 words for the text overlay
  * 3. Submits a Shotstack render job with brand theming
  * 4. Outputs directly to Mux via Shotstack destination
+ *
+ * Pass { soundbite: true } to render only the recording's 15-30s soundbite
+ * Pass { formats: ["16:9", "9:16", "1:1"] } for one render per aspect ratio
+ * Pass { captionStyle: "karaoke" } for word-by-word highlighted captions
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { processReadyVideo, isReadyForPostProduction } from "@/lib/services/automation";
+import { isOutputFormat } from "@/lib/services/shotstack";
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { recordingId } = body;
+    const { recordingId, soundbite, formats, captionStyle } = body;
 
     // Validate required field
     if (!recordingId) {
@@ -25,6 +30,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (formats !== undefined && (!Array.isArray(formats) || !formats.every(isOutputFormat))) {
+      return NextResponse.json(
+        { error: "Invalid formats - expected an array of \"16:9\", \"9:16\" or \"1:1\"" },
+        { status: 400 }
+      );
+    }
+
+    if (captionStyle !== undefined && captionStyle !== "static" && captionStyle !== "karaoke") {
+      return NextResponse.json(
+        { error: "Invalid captionStyle - expected \"static\" or \"karaoke\"" },
+        { status: 400 }
+      );
+    }
+
     console.log(`🎬 [API] Post-production triggered for recording: ${recordingId}`);
 
     // Check if recording is ready for post-production
@@ -40,7 +59,11 @@ export async function POST(request: NextRequest) {
     }
 
     // Process the recording
-    const result = await processReadyVideo(recordingId);
+    const result = await processReadyVideo(recordingId, {
+      soundbite: soundbite === true,
+      formats,
+      captionStyle,
+    });
 
     if (!result.success) {
       return NextResponse.json(
@@ -52,6 +75,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       renderId: result.renderId,
+      renders: result.renders,
       message: "Post-production started successfully. Video will be uploaded to Mux when complete.",
     });
 
@@ -0,0 +1,56 @@
+/**
+ * API Route: POST /api/automation/session-reel
+ * Produces one highlight reel from the best answers in a session
+ * Body: { sessionId } - the public session ID or the row UUID
+ *
+ * This endpoint:
+ * 1. Picks the best-scored ready take per question, keeping the top REEL_MAX_ANSWERS
+ * 2. Adds a question title card before each answer
+ * 3. Merges captions onto the reel timeline
+ * 4. Submits one Shotstack render with brandmark and music, output to Mux
+ * 5. Tracks the render on the session (reel_render_*), replacing any earlier reel
+ *
+ * Poll progress with GET /api/shotstack/status/<renderId>
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { produceSessionReel } from "@/lib/services/automation";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { sessionId } = body;
+
+    // Validate required field
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: "Missing required field: sessionId" },
+        { status: 400 }
+      );
+    }
+
+    console.log(`🎞️ [API] Session reel triggered for session: ${sessionId}`);
+
+    const result = await produceSessionReel(sessionId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || "Reel production failed" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      renderId: result.renderId,
+      message: "Reel production started successfully. Video will be uploaded to Mux when complete.",
+    });
+
+  } catch (error) {
+    console.error("❌ [API] Error in session-reel route:", error);
+    return NextResponse.json(
+      { error: "Failed to start reel production" },
+      { status: 500 }
+    );
+  }
+}
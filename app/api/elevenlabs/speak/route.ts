@@ -0,0 +1,138 @@
+/**
+ * API Route: AI Producer Text-to-Speech
+ * POST /api/elevenlabs/speak - JSON body { text, sessionId }
+ * GET  /api/elevenlabs/speak?text=...&sessionId=... - same, usable as an <audio> src
+ * Streams synthesized speech for questions and follow-ups
+ * Only speaks for interview sessions in progress, in the campaign's voice (resolved here,
+ * never taken from the request)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { synthesizeSpeech, DEFAULT_VOICE_ID } from "@/lib/elevenlabs/client";
+
+// Questions and follow-ups are short; anything longer isn't interview speech
+const MAX_TEXT_LENGTH = 500;
+
+// Use service role key to check the session and resolve campaign voice settings
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+interface SpeakParams {
+  text?: string;
+  sessionId?: string;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: SpeakParams = await request.json();
+    return await speak(body);
+  } catch (error) {
+    console.error("Error in TTS API:", error);
+    return NextResponse.json(
+      { error: "Speech synthesis failed" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    return await speak({
+      text: searchParams.get("text") || undefined,
+      sessionId: searchParams.get("sessionId") || undefined,
+    });
+  } catch (error) {
+    console.error("Error in TTS API:", error);
+    return NextResponse.json(
+      { error: "Speech synthesis failed" },
+      { status: 500 }
+    );
+  }
+}
+
+async function speak({ text, sessionId }: SpeakParams) {
+  if (!text || text.trim().length === 0 || !sessionId) {
+    return NextResponse.json(
+      { error: "Missing required fields: text, sessionId" },
+      { status: 400 }
+    );
+  }
+
+  if (text.length > MAX_TEXT_LENGTH) {
+    return NextResponse.json(
+      { error: `Text exceeds ${MAX_TEXT_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  const session = await getActiveSession(sessionId);
+
+  if (!session) {
+    return NextResponse.json(
+      { error: "Session is not in progress" },
+      { status: 403 }
+    );
+  }
+
+  const voiceId = (await getCampaignVoice(session.campaign_id)) || DEFAULT_VOICE_ID;
+
+  const result = await synthesizeSpeech(text.trim(), voiceId);
+
+  return new Response(result.stream, {
+    headers: {
+      "Content-Type": result.contentType,
+      "Cache-Control": "private, max-age=3600",
+      "X-TTS-Provider": result.provider,
+      "X-TTS-Cache": result.cached ? "hit" : "miss",
+    },
+  });
+}
+
+/**
+ * Find an interview session that's in progress and not expired
+ */
+async function getActiveSession(
+  sessionId: string
+): Promise<{ campaign_id: string } | null> {
+  const { data: session, error } = await supabase
+    .from("sessions")
+    .select("campaign_id, status, expires_at")
+    .eq("session_id", sessionId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (
+    !session ||
+    session.status !== "in_progress" ||
+    (session.expires_at && new Date(session.expires_at).getTime() < Date.now())
+  ) {
+    return null;
+  }
+
+  return session;
+}
+
+/**
+ * Look up the campaign's configured voice
+ */
+async function getCampaignVoice(campaignId: string): Promise<string | null> {
+  try {
+    const { data: campaign } = await supabase
+      .from("campaigns")
+      .select("voice_id")
+      .eq("id", campaignId)
+      .single();
+
+    return campaign?.voice_id || null;
+  } catch (error) {
+    console.error("Error resolving campaign voice:", error);
+    return null;
+  }
+}
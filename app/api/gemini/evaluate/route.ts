@@ -1,11 +1,13 @@
 /**
  * API Route: Gemini Answer Evaluation
  * POST /api/gemini/evaluate
- * Evaluates interview answers using Google Gemini
+ * Evaluates interview answers with Gemini through the shared answer evaluator
+ * Returns the common evaluation shape ({ isComplete, confidence, followUp, extractedValue,
+ * provider, timedOut }) - provider shows when another evaluator took over after a failure
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { evaluateAnswer } from "@/lib/gemini/client";
+import { evaluateAnswer } from "@/lib/evaluation/answerEvaluator";
 
 export async function POST(request: NextRequest) {
   try {
@@ -20,18 +22,21 @@ export async function POST(request: NextRequest) {
     }
 
     // Call Gemini to evaluate the answer
-    const result = await evaluateAnswer(question, answer, context);
+    const evaluation = await evaluateAnswer(question, answer, {
+      questionContext: context,
+      provider: "gemini",
+    });
 
-    if (!result.success) {
+    if (!evaluation) {
       return NextResponse.json(
-        { error: result.error || "Evaluation failed" },
+        { error: "Evaluation failed" },
         { status: 500 }
       );
     }
 
     return NextResponse.json({
       success: true,
-      evaluation: result.evaluation,
+      evaluation,
     });
   } catch (error) {
     console.error("Error in Gemini evaluate route:", error);
@@ -0,0 +1,36 @@
+/**
+ * API Route: Recording Job Worker
+ * GET /api/jobs/worker
+ * Runs due pipeline jobs (retries, waits on Mux/Shotstack)
+ * Called by Vercel Cron with `Authorization: Bearer $CRON_SECRET`
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedRequest } from "@/lib/api/auth";
+import { runRecordingJobs } from "@/lib/services/recordingPipeline";
+
+// Leave room for several transcriptions in one run
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedRequest(request, process.env.CRON_SECRET)) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await runRecordingJobs();
+
+    console.log(`⚙️ [Worker] Processed ${result.processed} job(s): ${result.succeeded} succeeded, ${result.failed} failed`);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Error in job worker:", error);
+    return NextResponse.json(
+      { error: "Job worker failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * API Route: Recording Captions
+ * GET /api/recordings/[id]/captions?format=vtt|srt|json|txt&lang=es
+ * Generates captions from the recording's transcript word timings
+ * (VTT is the default - it's what Mux text tracks and browsers expect)
+ * `lang` serves a stored translation instead of the original language
+ * Requires the signed `expires` and `token` params captions.ts adds for Mux, or
+ * `Authorization: Bearer $ADMIN_API_SECRET` (CMS)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedRequest } from "@/lib/api/auth";
+import {
+  getRecordingCaptions,
+  isCaptionFormat,
+  isValidCaptionsToken,
+} from "@/lib/services/captions";
+import { normalizeLanguageCodes } from "@/lib/i18n/languages";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: recordingId } = await params;
+    const format = request.nextUrl.searchParams.get("format") || "vtt";
+    const language = request.nextUrl.searchParams.get("lang") || undefined;
+
+    if (!isCaptionFormat(format)) {
+      return NextResponse.json(
+        { error: "Invalid format - expected vtt, srt, json or txt" },
+        { status: 400 }
+      );
+    }
+
+    if (language && normalizeLanguageCodes([language]).length === 0) {
+      return NextResponse.json(
+        { error: "Invalid lang - expected a language code like es or pt-BR" },
+        { status: 400 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const isSigned = isValidCaptionsToken(
+      recordingId,
+      format,
+      language,
+      searchParams.get("expires"),
+      searchParams.get("token")
+    );
+
+    if (!isSigned && !isAuthorizedRequest(request, process.env.ADMIN_API_SECRET)) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const captions = await getRecordingCaptions(recordingId, format, language);
+
+    if (!captions) {
+      return NextResponse.json(
+        { error: language ? `Captions not available in "${language}" for this recording` : "Captions not available for this recording" },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(captions.content, {
+      headers: {
+        "Content-Type": captions.contentType,
+        "Content-Disposition": `inline; filename="${captions.fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error in captions API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * API Routes: Recording Transcript
+ * GET /api/recordings/[id]/transcript - Current words with timings, version and edit history
+ * PUT /api/recordings/[id]/transcript - Save word corrections as a new version
+ *   Body: { baseVersion, corrections: [{ index, text }], editedBy? } - text "" removes a word
+ *   Captions, soundbite, evaluation and insights are refreshed by a background job
+ * Both require `Authorization: Bearer $REVIEWER_API_SECRET` - a reviewer-only secret,
+ * separate from ADMIN_API_SECRET because reviewers enter it in the browser
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { waitUntil } from "@vercel/functions";
+import { isAuthorizedRequest } from "@/lib/api/auth";
+import { runRecordingJobs } from "@/lib/services/recordingPipeline";
+import {
+  getEditableTranscript,
+  listTranscriptRevisions,
+  saveTranscriptCorrections,
+  TranscriptConflictError,
+} from "@/lib/services/transcripts";
+
+/**
+ * Corrections come from the editor - check the shape before touching the transcript
+ */
+function isValidCorrections(value: any): value is Array<{ index: number; text: string }> {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(
+      (correction) =>
+        Number.isInteger(correction?.index) &&
+        correction.index >= 0 &&
+        typeof correction.text === "string"
+    )
+  );
+}
+
+/**
+ * GET - Fetch the editable transcript
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!isAuthorizedRequest(request, process.env.REVIEWER_API_SECRET)) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { id: recordingId } = await params;
+    const transcript = await getEditableTranscript(recordingId);
+
+    if (!transcript) {
+      return NextResponse.json(
+        { error: "Transcript not available for this recording" },
+        { status: 404 }
+      );
+    }
+
+    const revisions = await listTranscriptRevisions(recordingId);
+
+    return NextResponse.json({ ...transcript, revisions });
+  } catch (error) {
+    console.error("Error in GET transcript API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT - Save corrections
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!isAuthorizedRequest(request, process.env.REVIEWER_API_SECRET)) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { id: recordingId } = await params;
+    const body = await request.json();
+    const { baseVersion, corrections, editedBy } = body;
+
+    if (!Number.isInteger(baseVersion) || !isValidCorrections(corrections)) {
+      return NextResponse.json(
+        { error: "Missing baseVersion or invalid corrections" },
+        { status: 400 }
+      );
+    }
+
+    const transcript = await saveTranscriptCorrections(
+      recordingId,
+      baseVersion,
+      corrections,
+      typeof editedBy === "string" ? editedBy : undefined
+    );
+
+    // Refresh the downstream copies after responding - the worker retries anything left over
+    waitUntil(
+      runRecordingJobs({ recordingId }).catch((error) => {
+        console.error("Error refreshing edited transcript:", error);
+      })
+    );
+
+    return NextResponse.json(transcript);
+  } catch (error) {
+    if (error instanceof TranscriptConflictError) {
+      return NextResponse.json(
+        { error: error.message, currentVersion: error.currentVersion },
+        { status: 409 }
+      );
+    }
+
+    console.error("Error in PUT transcript API:", error);
+    return NextResponse.json(
+      { error: "Failed to save transcript" },
+      { status: 500 }
+    );
+  }
+}
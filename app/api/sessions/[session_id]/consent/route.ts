@@ -0,0 +1,33 @@
+/**
+ * API Route: Session Consent
+ * POST /api/sessions/[session_id]/consent
+ * Stores that the respondent accepted recording consent
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { recordSessionConsent } from "@/lib/api/sessions";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ session_id: string }> }
+) {
+  try {
+    const { session_id: sessionId } = await params;
+    const success = await recordSessionConsent(sessionId);
+
+    if (!success) {
+      return NextResponse.json(
+        { error: "Failed to record consent" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error in consent API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -5,7 +5,22 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import { waitUntil } from "@vercel/functions";
 import { createRecording, getSessionRecordings } from "@/lib/api/sessions";
+import { startRecordingStage } from "@/lib/services/recordingPipeline";
+import { FramingHint } from "@/lib/types/interview";
+
+/**
+ * Framing hints come from the browser - accept only positions inside the frame
+ */
+function isFramingHint(value: any): value is FramingHint {
+  return (
+    typeof value?.x === "number" &&
+    typeof value?.y === "number" &&
+    value.x >= 0 && value.x <= 1 &&
+    value.y >= 0 && value.y <= 1
+  );
+}
 
 /**
  * GET - Fetch all recordings for a session
@@ -38,7 +53,7 @@ export async function POST(
   try {
     const { session_id: sessionId } = await params;
     const body = await request.json();
-    const { questionId, questionIndex, muxAssetId } = body;
+    const { questionId, questionIndex, muxUploadId, framing } = body;
 
     // Validate input
     if (!questionId || questionIndex === undefined) {
@@ -53,7 +68,8 @@ export async function POST(
       sessionId,
       questionId,
       questionIndex,
-      muxAssetId
+      muxUploadId,
+      isFramingHint(framing) ? framing : undefined
     );
 
     if (!recordingId) {
@@ -63,6 +79,12 @@ export async function POST(
       );
     }
 
+    // Mux webhooks may have fired before this row existed - the asset_ready job
+    // catches up now and keeps retrying until the asset is ready
+    if (muxUploadId) {
+      waitUntil(startRecordingStage(recordingId, "asset_ready"));
+    }
+
     return NextResponse.json({ recordingId }, { status: 201 });
   } catch (error) {
     console.error("Error in POST recordings API:", error);
@@ -72,3 +94,4 @@ export async function POST(
     );
   }
 }
+
@@ -0,0 +1,34 @@
+/**
+ * API Route: Session Resume State
+ * GET /api/sessions/[session_id]/resume
+ * Returns stored progress, consent and answered questions so a reloaded
+ * interview can continue where the respondent left off
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionResumeState } from "@/lib/api/sessions";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ session_id: string }> }
+) {
+  try {
+    const { session_id: sessionId } = await params;
+    const resumeState = await getSessionResumeState(sessionId);
+
+    if (!resumeState) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(resumeState);
+  } catch (error) {
+    console.error("Error in resume API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * API Route: POST /api/shotstack/callback
+ * Receives Shotstack render callbacks ({ id, status, url, error, ... })
+ * The payload is only used to find the render - status is re-fetched from
+ * Shotstack and stored on the recording (or the session, for reels), so forged
+ * callbacks can't change state
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { waitUntil } from '@vercel/functions';
+import { syncReelRenderStatus, syncRenderStatus } from '@/lib/services/automation';
+import { wakeJobs } from '@/lib/services/jobQueue';
+import { runRecordingJobs } from '@/lib/services/recordingPipeline';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const renderId = body?.id;
+
+    if (!renderId) {
+      return NextResponse.json(
+        { error: 'Render ID is required' },
+        { status: 400 }
+      );
+    }
+
+    console.log('📬 Shotstack callback for render:', renderId, body.status);
+
+    const render = await syncRenderStatus(renderId);
+
+    if (!render) {
+      // Session reels are tracked on the session, not a recording
+      const reel = await syncReelRenderStatus(renderId);
+      if (reel) {
+        return NextResponse.json({ received: true, status: reel.status });
+      }
+
+      // Not one of ours (or replaced by a retry) - acknowledge so Shotstack stops
+      console.log('Ignoring callback for untracked render:', renderId);
+      return NextResponse.json({ received: true });
+    }
+
+    // Let the waiting published stage finish now instead of on its next poll
+    if (render.status === 'done' || render.status === 'failed') {
+      waitUntil(
+        wakeJobs(render.recordingId, 'published')
+          .then(() => runRecordingJobs({ recordingId: render.recordingId }))
+          .catch((error) => console.error('Error resuming published stage:', error))
+      );
+    }
+
+    return NextResponse.json({ received: true, status: render.status });
+  } catch (error) {
+    console.error('Error handling Shotstack callback:', error);
+    return NextResponse.json(
+      { error: 'Callback processing failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,12 +4,12 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { produceTestimonial } from '@/lib/services/shotstack';
+import { produceTestimonial, isOutputFormat } from '@/lib/services/shotstack';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { videoUrl, quoteText, theme, musicUrl, duration } = body;
+    const { videoUrl, quoteText, theme, musicUrl, duration, formats, focus } = body;
 
     // Validate required fields
     if (!videoUrl || !quoteText || !theme) {
@@ -19,6 +19,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validate output formats (16:9, 9:16, 1:1)
+    if (formats !== undefined && (!Array.isArray(formats) || !formats.every(isOutputFormat))) {
+      return NextResponse.json(
+        { error: 'Invalid formats - expected an array of "16:9", "9:16" or "1:1"' },
+        { status: 400 }
+      );
+    }
+
     // Validate theme structure
     if (!theme.primaryColor || !theme.fontFamily || !theme.backgroundType) {
       return NextResponse.json(
@@ -39,6 +47,8 @@ export async function POST(request: NextRequest) {
       theme,
       musicUrl,
       duration,
+      formats,
+      focus,
     });
 
     if (!result.success) {
@@ -52,6 +62,7 @@ export async function POST(request: NextRequest) {
       success: true,
       renderId: result.response?.id,
       status: result.response?.status,
+      renders: result.renders,
       message: 'Video production started successfully',
     });
 
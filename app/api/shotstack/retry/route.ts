@@ -0,0 +1,80 @@
+/**
+ * API Route: POST /api/shotstack/retry
+ * Re-submits post-production for a recording whose render failed
+ * Body: { recordingId }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { waitUntil } from '@vercel/functions';
+import { enqueueJob } from '@/lib/services/jobQueue';
+import { runRecordingJobs } from '@/lib/services/recordingPipeline';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { recordingId } = body;
+
+    if (!recordingId) {
+      return NextResponse.json(
+        { error: 'recordingId is required' },
+        { status: 400 }
+      );
+    }
+
+    const { data: recording, error } = await supabase
+      .from('recordings')
+      .select('id, render_status')
+      .eq('id', recordingId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!recording) {
+      return NextResponse.json(
+        { error: 'Recording not found' },
+        { status: 404 }
+      );
+    }
+
+    if (recording.render_status !== 'failed') {
+      return NextResponse.json(
+        { error: `Only failed renders can be retried (current status: ${recording.render_status || 'none'})` },
+        { status: 409 }
+      );
+    }
+
+    // Re-run the rendered stage; published follows automatically
+    const job = await enqueueJob(recordingId, 'rendered', { payload: { force: true } });
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'A render is already being retried for this recording' },
+        { status: 409 }
+      );
+    }
+
+    console.log('🔁 Retrying render for recording:', recordingId);
+
+    waitUntil(
+      runRecordingJobs({ recordingId }).catch((err) => {
+        console.error('Error running render retry:', err);
+      })
+    );
+
+    return NextResponse.json({ success: true, jobId: job.id }, { status: 202 });
+  } catch (error) {
+    console.error('Error in render retry route:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry render' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,14 @@
 /**
  * API Route: GET /api/shotstack/status/[renderId]
  * Check the status of a Shotstack render job
+ * Reads the state stored on the recording (kept current by callbacks and the job worker)
+ * Works with any format's render ID - status is that format's, formats lists them all
+ * Session reels are read from the session they belong to
+ * Ad-hoc renders from /api/shotstack/produce aren't tracked and are fetched live
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { getStoredReelRender, getStoredRender } from '@/lib/services/automation';
 import { getRenderStatus } from '@/lib/services/shotstack';
 
 export async function GET(
@@ -22,16 +27,59 @@ export async function GET(
 
     console.log('📊 Checking render status for:', renderId);
 
-    const status = await getRenderStatus(renderId);
+    const render = await getStoredRender(renderId);
+
+    if (!render) {
+      const reel = await getStoredReelRender(renderId);
+
+      if (reel) {
+        return NextResponse.json({
+          success: true,
+          renderId,
+          sessionId: reel.sessionId,
+          status: reel.status,
+          url: reel.url,
+          error: reel.error,
+          // Reels are re-produced with POST /api/automation/session-reel, not retried
+          retryable: false,
+          muxAssetId: reel.muxAssetId,
+          muxPlaybackId: reel.muxPlaybackId,
+          updatedAt: reel.updatedAt,
+        });
+      }
+
+      const status = await getRenderStatus(renderId);
+
+      return NextResponse.json({
+        success: true,
+        renderId,
+        status: status.status,
+        progress: status.progress || 0,
+        url: status.url,
+        error: status.error,
+        retryable: false,
+        muxAssetId: status.mux?.assetId,
+        muxPlaybackId: status.mux?.playbackId,
+      });
+    }
+
+    const format = render.formats.find((item) => item.renderId === renderId);
 
     return NextResponse.json({
       success: true,
       renderId,
-      status: status.status,
-      progress: status.progress || 0,
-      url: status.url,
-      error: status.error,
-      muxAssetId: status.mux?.assetId,
+      recordingId: render.recordingId,
+      format: format?.format,
+      status: format?.status || render.status,
+      url: format ? format.url : render.url,
+      error: format ? format.error : render.error,
+      // Retry re-renders every format, so it opens up once any of them failed
+      retryable: render.status === 'failed',
+      muxAssetId: format ? format.muxAssetId : render.muxAssetId,
+      muxPlaybackId: format ? format.muxPlaybackId : render.muxPlaybackId,
+      recordingStatus: render.status,
+      formats: render.formats,
+      updatedAt: render.updatedAt,
     });
 
   } catch (error) {
@@ -1,11 +1,11 @@
 /**
  * API Route: Transcribe Recording
  * POST /api/transcribe
- * Transcribes a video recording using Deepgram
+ * Transcribes a video recording with the configured transcription provider
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { transcribeFromUrl } from "@/lib/deepgram/client";
+import { transcribe } from "@/lib/transcription/client";
 import { createClient } from "@supabase/supabase-js";
 
 // Use service role key for server-side operations
@@ -39,7 +39,7 @@ export async function POST(request: NextRequest) {
 
     try {
       // Transcribe the audio
-      const { transcript, confidence } = await transcribeFromUrl(muxPlaybackUrl);
+      const { text: transcript, confidence } = await transcribe(muxPlaybackUrl);
 
       // Update recording with transcript
       const { error: updateError } = await supabase
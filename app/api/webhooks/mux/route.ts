@@ -2,10 +2,15 @@
  * API Route: Mux Webhooks
  * POST /api/webhooks/mux
  * Handles Mux webhook events for video processing status
+ * Links uploads to recordings and finishes the pipeline server-side
+ * Requests must carry a valid `mux-signature` header; redelivered events are ignored
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { waitUntil } from "@vercel/functions";
+import { verifyWebhookSignature } from "@/lib/mux/webhooks";
+import { markRecordingReady, startRecordingStage } from "@/lib/services/recordingPipeline";
 
 // Use service role key for webhook operations (bypasses RLS)
 const supabase = createClient(
@@ -13,12 +18,55 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 );
 
+// Postgres unique_violation - event ID already stored
+const UNIQUE_VIOLATION = "23505";
+
+// A claim still 'processing' after this long belongs to a function that crashed or timed out
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
 export async function POST(request: NextRequest) {
+  // Verify against the raw body - re-serialized JSON would not match the signature
+  const rawBody = await request.text();
+  const verification = verifyWebhookSignature(
+    rawBody,
+    request.headers.get("mux-signature")
+  );
+
+  if (!verification.valid) {
+    console.warn("Rejected Mux webhook:", verification.reason);
+    return NextResponse.json(
+      { error: "Invalid webhook signature" },
+      { status: 401 }
+    );
+  }
+
+  let event: any;
   try {
-    const body = await request.json();
-    const { type, data } = body;
+    event = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const { id: eventId, type, data } = event;
 
-    console.log("Mux webhook received:", type);
+  if (!eventId || !type) {
+    return NextResponse.json(
+      { error: "Missing event id or type" },
+      { status: 400 }
+    );
+  }
+
+  console.log("Mux webhook received:", type, eventId);
+
+  try {
+    const isNew = await claimEvent(eventId, type, data?.id, event);
+    if (!isNew) {
+      console.log("Skipping already processed Mux event:", eventId);
+      return NextResponse.json({ received: true, duplicate: true });
+    }
 
     // Handle different webhook events
     switch (type) {
@@ -41,9 +89,18 @@ export async function POST(request: NextRequest) {
         console.log("Unhandled webhook type:", type);
     }
 
+    await markEvent(eventId, "processed");
+
     return NextResponse.json({ received: true });
   } catch (error) {
     console.error("Error handling Mux webhook:", error);
+    await markEvent(
+      eventId,
+      "failed",
+      error instanceof Error ? error.message : String(error)
+    );
+
+    // Non-2xx makes Mux redeliver the event
     return NextResponse.json(
       { error: "Webhook processing failed" },
       { status: 500 }
@@ -52,114 +109,137 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Handle asset ready event
+ * Store the event, returning false if it was already processed
+ * Events that previously failed, or whose claim went stale, are claimed again so
+ * redeliveries can retry them
  */
-async function handleAssetReady(data: any) {
-  const assetId = data.id;
-  const playbackId = data.playback_ids?.[0]?.id;
+async function claimEvent(
+  eventId: string,
+  type: string,
+  objectId: string | undefined,
+  payload: any
+): Promise<boolean> {
+  // Type cast to bypass Supabase type inference
+  const { error } = await (supabase
+    .from("mux_webhook_events") as any)
+    .insert({
+      id: eventId,
+      type,
+      object_id: objectId || null,
+      status: "processing",
+      payload,
+      claimed_at: new Date().toISOString(),
+    });
 
-  console.log("Asset ready:", assetId, "Playback ID:", playbackId);
+  if (!error) {
+    return true;
+  }
 
-  // Update recording in database - Type cast to bypass Supabase type inference
-  const { data: recording, error } = await (supabase
+  if (error.code !== UNIQUE_VIOLATION) {
+    throw error;
+  }
+
+  // Seen before - only reprocess if the earlier attempt failed or never finished
+  const staleBefore = new Date(Date.now() - STALE_CLAIM_MS).toISOString();
+  const { data: retried, error: retryError } = await (supabase
+    .from("mux_webhook_events") as any)
+    .update({ status: "processing", error: null, claimed_at: new Date().toISOString() })
+    .eq("id", eventId)
+    .or(`status.eq.failed,and(status.eq.processing,claimed_at.lt.${staleBefore})`)
+    .select("id");
+
+  if (retryError) {
+    throw retryError;
+  }
+
+  return (retried?.length || 0) > 0;
+}
+
+/**
+ * Record the outcome of processing an event
+ */
+async function markEvent(
+  eventId: string,
+  status: "processed" | "failed",
+  errorMessage?: string
+) {
+  const { error } = await (supabase
+    .from("mux_webhook_events") as any)
+    .update({
+      status,
+      error: errorMessage || null,
+      processed_at: new Date().toISOString(),
+    })
+    .eq("id", eventId);
+
+  if (error) {
+    console.error("Error updating webhook event:", error);
+  }
+}
+
+/**
+ * Attach a Mux asset to the recording created for its direct upload
+ * Only fills recordings that don't have an asset yet, so redeliveries are harmless
+ */
+async function linkUploadToRecording(uploadId: string, assetId: string) {
+  // Type cast to bypass Supabase type inference
+  const { data, error } = await (supabase
     .from("recordings") as any)
     .update({
-      video_status: "ready",
-      mux_playback_id: playbackId,
+      mux_asset_id: assetId,
       updated_at: new Date().toISOString(),
     })
-    .eq("mux_asset_id", assetId)
-    .select("id")
-    .single();
+    .eq("mux_upload_id", uploadId)
+    .is("mux_asset_id", null)
+    .select("id");
 
   if (error) {
-    console.error("Error updating recording:", error);
-    return;
+    throw error;
   }
 
-  // Trigger transcription asynchronously
-  if (recording && playbackId) {
-    console.log("Triggering transcription for recording:", recording.id);
-
-    // Call transcription API inline (simpler than fetch in Next.js API route)
-    // We'll import and call the transcription logic directly
-    triggerTranscription(recording.id, playbackId).catch((err) => {
-      console.error("Failed to trigger transcription:", err);
-    });
+  if (data?.length) {
+    console.log("Linked upload", uploadId, "to recording", data[0].id);
   }
 }
 
 /**
- * Trigger transcription for a recording
+ * Handle asset ready event
+ * Stores the playback ID and starts the job pipeline (transcription onwards)
  */
-async function triggerTranscription(recordingId: string, playbackId: string) {
-  // Try audio.m4a first, fall back to low.mp4 if not available
-  const audioUrl = `https://stream.mux.com/${playbackId}/audio.m4a`;
-  const fallbackUrl = `https://stream.mux.com/${playbackId}/low.mp4`;
+async function handleAssetReady(data: any) {
+  const assetId = data.id;
+  const playbackId = data.playback_ids?.[0]?.id;
 
-  console.log("📝 Starting transcription for recording:", recordingId);
+  console.log("Asset ready:", assetId, "Playback ID:", playbackId);
 
-  // Check if audio.m4a exists
-  let urlToUse = audioUrl;
-  try {
-    const headResponse = await fetch(audioUrl, { method: 'HEAD' });
-    if (!headResponse.ok) {
-      console.log("⚠️ audio.m4a not available (status:", headResponse.status, "), falling back to low.mp4");
-      urlToUse = fallbackUrl;
-    }
-  } catch (e) {
-    console.log("⚠️ Could not check audio.m4a, falling back to low.mp4");
-    urlToUse = fallbackUrl;
+  // The asset_created event may not have arrived yet - link via the upload first
+  if (data.upload_id) {
+    await linkUploadToRecording(data.upload_id, assetId);
   }
 
-  console.log("🔗 Using URL:", urlToUse);
-
-  try {
-    // Import transcription function (lazy load)
-    const { transcribeFromUrl } = await import("@/lib/deepgram/client");
-
-    // Update status to processing
-    const { error: updateError } = await supabase
-      .from("recordings")
-      .update({ transcription_status: "processing" })
-      .eq("id", recordingId);
-
-    if (updateError) {
-      console.error("❌ Failed to update status to processing:", updateError);
-    }
+  // Type cast to bypass Supabase type inference
+  const { data: recording, error } = await (supabase
+    .from("recordings") as any)
+    .select("id")
+    .eq("mux_asset_id", assetId)
+    .maybeSingle();
 
-    // Transcribe audio
-    const { transcript, fullResult } = await transcribeFromUrl(urlToUse);
-
-    // Save transcript and full result (with word timings for captions) to database
-    const { error: saveError } = await supabase
-      .from("recordings")
-      .update({
-        transcription: transcript,
-        transcription_data: fullResult, // Full Deepgram result with word timings for SRT generation
-        transcription_status: "completed",
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", recordingId);
-
-    if (saveError) {
-      console.error("❌ Failed to save transcript to database:", saveError);
-      throw saveError;
-    }
+  if (error) {
+    throw error;
+  }
 
-    console.log("✅ Transcription completed for recording:", recordingId);
-  } catch (error) {
-    console.error("❌ Transcription failed for recording:", recordingId, error);
+  if (!recording) {
+    // Recording row not created yet - the recordings API reconciles with Mux on insert
+    console.log("No recording found for asset:", assetId);
+    return;
+  }
 
-    // Update status to failed
-    const { error: failError } = await supabase
-      .from("recordings")
-      .update({ transcription_status: "failed" })
-      .eq("id", recordingId);
+  const becameReady = await markRecordingReady(recording.id, assetId, playbackId);
 
-    if (failError) {
-      console.error("❌ Failed to update status to failed:", failError);
-    }
+  if (becameReady) {
+    console.log("Starting pipeline for recording:", recording.id);
+    // waitUntil keeps the function alive after the webhook is acknowledged
+    waitUntil(startRecordingStage(recording.id, "transcribed"));
   }
 }
 
@@ -181,19 +261,24 @@ async function handleAssetError(data: any) {
     .eq("mux_asset_id", assetId);
 
   if (error) {
-    console.error("Error updating recording:", error);
+    throw error;
   }
 }
 
 /**
  * Handle upload complete event
+ * The event payload is the Upload object: `id` is the upload ID, `asset_id` the new asset
  */
 async function handleUploadComplete(data: any) {
-  const uploadId = data.upload_id;
-  const assetId = data.id;
+  const uploadId = data.id;
+  const assetId = data.asset_id;
 
   console.log("Upload complete - Asset created:", assetId);
 
-  // Update recording with asset ID if we have upload_id stored
-  // For now, this is handled in the upload flow itself
+  if (!uploadId || !assetId) {
+    console.log("Upload event missing upload or asset ID");
+    return;
+  }
+
+  await linkUploadToRecording(uploadId, assetId);
 }
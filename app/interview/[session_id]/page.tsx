@@ -11,17 +11,22 @@ import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
 import { ThemeProvider, useTheme } from "@/components/providers/ThemeProvider";
 import { InterviewProvider } from "@/components/providers/InterviewProvider";
+import { UploadQueueProvider } from "@/components/providers/UploadQueueProvider";
 import { InterviewHeader } from "@/components/interview/InterviewHeader";
 import { QuestionsSidebar } from "@/components/interview/QuestionsSidebar";
 import { MainContent } from "@/components/interview/MainContent";
 import { BrandPanel } from "@/components/interview/BrandPanel";
 import { ConsentOverlay } from "@/components/interview/ConsentOverlay";
 import { CompletionOverlay } from "@/components/interview/CompletionOverlay";
+import { ResumeOverlay } from "@/components/interview/ResumeOverlay";
 import { OfflineBanner } from "@/components/interview/OfflineBanner";
+import { UnsavedUploadsBanner } from "@/components/interview/UnsavedUploadsBanner";
 import { InterviewSkeleton } from "@/components/interview/InterviewSkeleton";
 import { Footer } from "@/components/Footer";
 import { getSessionData } from "@/lib/api/sessions";
-import { InterviewSession } from "@/lib/types/interview";
+import { fetchResumeState } from "@/lib/api/client";
+import { getQueuedRecordings } from "@/lib/mux/uploadQueue";
+import { InterviewSession, SessionResumeState } from "@/lib/types/interview";
 import { useInterview } from "@/lib/hooks/useInterview";
 
 
@@ -42,6 +47,18 @@ function InterviewContent() {
   const { state, giveConsent } = useInterview();
   const prevCompletedCountRef = useRef(state.completedQuestions.length);
 
+  // Offer to continue when the respondent returns partway through
+  const [showResume, setShowResume] = useState(
+    () =>
+      state.completedQuestions.length > 0 &&
+      state.completedQuestions.length < state.session.questions.length
+  );
+
+  // Match the document language to the interview (screen readers, hyphenation)
+  useEffect(() => {
+    document.documentElement.lang = state.session.language || "en";
+  }, [state.session.language]);
+
   // Calculate if rim light is currently active (recording + enabled + dark mode)
   const isRimLightActive = state.isRecording && isRimLightEnabled && theme === 'dark';
 
@@ -93,11 +110,19 @@ function InterviewContent() {
       {/* Offline Banner - shows when connection is lost */}
       <OfflineBanner />
 
+      {/* Unsaved Uploads Banner - answers the device couldn't store */}
+      <UnsavedUploadsBanner />
+
       {/* Consent Overlay - shown when consent not given */}
       {!state.hasConsent && (
         <ConsentOverlay onAccept={handleConsent} onCancel={handleCancel} />
       )}
 
+      {/* Resume Overlay - shown when returning to a partly answered session */}
+      {state.hasConsent && showResume && (
+        <ResumeOverlay onContinue={() => setShowResume(false)} />
+      )}
+
       {/* Completion Overlay - shown when all questions are done */}
       {state.hasConsent && isComplete && (
         <CompletionOverlay onDone={handleComplete} />
@@ -152,10 +177,32 @@ function InterviewContent() {
   );
 }
 
+/**
+ * Load stored progress, counting answers still waiting in the local upload queue
+ */
+async function loadResumeState(sessionId: string): Promise<SessionResumeState | null> {
+  const [progress, queued] = await Promise.all([
+    fetchResumeState(sessionId),
+    getQueuedRecordings(sessionId).catch(() => []),
+  ]);
+
+  if (!progress) {
+    return null;
+  }
+
+  const answeredQuestionIds = new Set([
+    ...progress.answeredQuestionIds,
+    ...queued.map((item) => item.questionId),
+  ]);
+
+  return { ...progress, answeredQuestionIds: Array.from(answeredQuestionIds) };
+}
+
 export default function InterviewPage() {
   const params = useParams();
   const sessionId = params.session_id as string;
   const [session, setSession] = useState<InterviewSession | null>(null);
+  const [resumeState, setResumeState] = useState<SessionResumeState | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -164,9 +211,13 @@ export default function InterviewPage() {
     async function loadSession() {
       try {
         setLoading(true);
-        const data = await getSessionData(sessionId);
+        const [data, progress] = await Promise.all([
+          getSessionData(sessionId),
+          loadResumeState(sessionId),
+        ]);
         if (data) {
           setSession(data);
+          setResumeState(progress);
         } else {
           setError("Session not found");
         }
@@ -233,8 +284,10 @@ export default function InterviewPage() {
 
   return (
     <ThemeProvider>
-      <InterviewProvider initialSession={session}>
-        <InterviewContent />
+      <InterviewProvider initialSession={session} initialProgress={resumeState}>
+        <UploadQueueProvider sessionId={session.session_id}>
+          <InterviewContent />
+        </UploadQueueProvider>
       </InterviewProvider>
     </ThemeProvider>
   );
@@ -0,0 +1,128 @@
+"use client";
+
+/**
+ * Transcript Review Page
+ * Reviewers correct a recording's transcript word by word
+ * Route: /review/[recording_id]
+ *
+ * The reviewer token (REVIEWER_API_SECRET) is entered here and kept in sessionStorage
+ * for the tab - it only authorizes the transcript API, never the admin endpoints
+ */
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { ThemeProvider } from "@/components/providers/ThemeProvider";
+import { TranscriptEditor } from "@/components/interview/TranscriptEditor";
+
+const TOKEN_STORAGE_KEY = "shine-reviewer-token";
+const NAME_STORAGE_KEY = "shine-reviewer-name";
+
+function ReviewContent({ recordingId }: { recordingId: string }) {
+  const [authToken, setAuthToken] = useState<string | null>(null);
+  const [editorName, setEditorName] = useState("");
+  const [tokenDraft, setTokenDraft] = useState("");
+  const [isTokenRejected, setIsTokenRejected] = useState(false);
+  const [savedVersion, setSavedVersion] = useState<number | null>(null);
+
+  // sessionStorage is only available after mount
+  useEffect(() => {
+    setAuthToken(sessionStorage.getItem(TOKEN_STORAGE_KEY));
+    setEditorName(sessionStorage.getItem(NAME_STORAGE_KEY) || "");
+  }, []);
+
+  const handleSignIn = (e: FormEvent) => {
+    e.preventDefault();
+    const token = tokenDraft.trim();
+    if (!token) return;
+
+    sessionStorage.setItem(TOKEN_STORAGE_KEY, token);
+    sessionStorage.setItem(NAME_STORAGE_KEY, editorName.trim());
+    setIsTokenRejected(false);
+    setTokenDraft("");
+    setAuthToken(token);
+  };
+
+  const handleUnauthorized = useCallback(() => {
+    sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+    setIsTokenRejected(true);
+    setAuthToken(null);
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-background-light dark:bg-background-dark">
+      <main className="max-w-3xl mx-auto px-4 py-10">
+        <h1 className="text-xl font-semibold text-foreground-light dark:text-foreground-dark">
+          Transcript review
+        </h1>
+        <p className="mt-1 text-sm text-foreground-light-muted dark:text-foreground-dark-subtle">
+          Recording {recordingId} · click a word to correct it. Timings are kept, so captions stay in sync.
+        </p>
+
+        {authToken ? (
+          <>
+            <TranscriptEditor
+              recordingId={recordingId}
+              authToken={authToken}
+              editorName={editorName || undefined}
+              onSaved={setSavedVersion}
+              onUnauthorized={handleUnauthorized}
+            />
+            {savedVersion !== null && (
+              <p className="mt-2 text-xs text-foreground-light-muted dark:text-foreground-dark-subtle">
+                Saved version {savedVersion}. Subtitles, soundbite and evaluation update in the background.
+              </p>
+            )}
+          </>
+        ) : (
+          <form
+            onSubmit={handleSignIn}
+            className="mt-6 p-4 space-y-3 bg-[#FAF9F6] dark:bg-[rgba(255,255,255,0.03)] border border-[rgba(0,0,0,0.08)] dark:border-[rgba(255,255,255,0.06)] rounded-lg"
+          >
+            {isTokenRejected && (
+              <p className="text-xs text-red-700 dark:text-red-300">
+                That reviewer token was rejected. Please enter it again.
+              </p>
+            )}
+            <label className="block text-xs font-semibold text-foreground-light-muted dark:text-foreground-dark-subtle">
+              Reviewer token
+              <input
+                type="password"
+                value={tokenDraft}
+                onChange={(e) => setTokenDraft(e.target.value)}
+                autoComplete="off"
+                className="mt-1 block w-full px-2 py-1 text-sm font-normal rounded border border-[rgba(0,0,0,0.2)] dark:border-[rgba(255,255,255,0.2)] bg-white dark:bg-black"
+              />
+            </label>
+            <label className="block text-xs font-semibold text-foreground-light-muted dark:text-foreground-dark-subtle">
+              Your name (stored with each revision)
+              <input
+                type="text"
+                value={editorName}
+                onChange={(e) => setEditorName(e.target.value)}
+                className="mt-1 block w-full px-2 py-1 text-sm font-normal rounded border border-[rgba(0,0,0,0.2)] dark:border-[rgba(255,255,255,0.2)] bg-white dark:bg-black"
+              />
+            </label>
+            <button
+              type="submit"
+              disabled={!tokenDraft.trim()}
+              className="px-3 py-1 text-xs font-medium rounded-md bg-foreground-light text-white dark:bg-foreground-dark dark:text-black disabled:opacity-40"
+            >
+              Open transcript
+            </button>
+          </form>
+        )}
+      </main>
+    </div>
+  );
+}
+
+export default function ReviewPage() {
+  const params = useParams();
+  const recordingId = params.recording_id as string;
+
+  return (
+    <ThemeProvider>
+      <ReviewContent recordingId={recordingId} />
+    </ThemeProvider>
+  );
+}
@@ -3,10 +3,14 @@
 /**
  * CompletionOverlay Component
  * Shows completion message when interview is finished
+ * Holds the Done button until every queued answer has been uploaded
  */
 
-import { CheckCircle, Sparkles } from "lucide-react";
+import { CheckCircle, Sparkles, Loader2, WifiOff } from "lucide-react";
 import { useBrandButton } from "@/lib/utils/brandButton";
+import { useUploadQueue } from "@/lib/hooks/useUploadQueue";
+import { useOnlineStatus } from "@/lib/hooks/useOnlineStatus";
+import { useTranslations } from "@/lib/hooks/useTranslations";
 
 interface CompletionOverlayProps {
   onDone: () => void;
@@ -14,6 +18,11 @@ interface CompletionOverlayProps {
 
 export function CompletionOverlay({ onDone }: CompletionOverlayProps) {
   const brandButton = useBrandButton();
+  const { pendingUploads, isUploading, uploadProgress } = useUploadQueue();
+  const { isOnline } = useOnlineStatus();
+  const t = useTranslations().completion;
+  const hasPendingUploads = pendingUploads.length > 0;
+
   return (
     <div className="fixed inset-0 bg-black/60 dark:bg-black/80 backdrop-blur-md z-50 flex items-center justify-center p-4">
       <div
@@ -37,30 +46,56 @@ export function CompletionOverlay({ onDone }: CompletionOverlayProps) {
 
         {/* Title */}
         <h2 className="text-2xl font-semibold tracking-tight text-foreground-light dark:text-foreground-dark mb-4 flex items-center justify-center gap-2">
-          <span>That&apos;s it — you&apos;re all done!</span>
+          <span>{t.title}</span>
           <Sparkles className="w-6 h-6 text-accent-gold" />
         </h2>
 
         {/* Message */}
         <p className="text-foreground-light-secondary dark:text-foreground-dark-muted mb-4 leading-relaxed">
-          Thank you so much for taking the time to share your story with us. Customers like you are what make partnerships truly special — you don&apos;t just use our product, you help shape it, champion it, and inspire others with your success.
+          {t.thanks}
         </p>
 
         <p className="text-foreground-light-secondary dark:text-foreground-dark-muted mb-8 leading-relaxed">
-          We&apos;re so grateful to work with partners who take collaboration to the next level. Your insights mean the world to us!
+          {t.grateful}
         </p>
 
+        {/* Pending Uploads */}
+        {hasPendingUploads && (
+          <div className="mb-6 p-4 rounded-[var(--brand-radius)] border border-border-light dark:border-[rgba(255,255,255,0.08)] text-left">
+            <div className="flex items-center gap-2 text-sm font-medium text-foreground-light dark:text-foreground-dark mb-2">
+              {isOnline ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <WifiOff className="w-4 h-4" />
+              )}
+              <span>
+                {isOnline
+                  ? t.saving(isUploading ? uploadProgress : null)
+                  : t.waitingForConnection}
+              </span>
+            </div>
+            <ul className="space-y-1 text-sm text-foreground-light-secondary dark:text-foreground-dark-muted">
+              {pendingUploads.map((upload) => (
+                <li key={upload.id} className="truncate">
+                  {t.questionLabel(upload.questionIndex + 1)}: {upload.questionText}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Done Button - Cinematic styling */}
         <button
           onClick={onDone}
-          className="w-full px-8 py-3.5 rounded-[var(--brand-radius)] text-white font-semibold transition-all duration-300 hover:scale-[1.02]"
+          disabled={hasPendingUploads}
+          className="w-full px-8 py-3.5 rounded-[var(--brand-radius)] text-white font-semibold transition-all duration-300 hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
           style={{
             background: brandButton.getPrimaryStyle(),
             border: '1px solid rgba(255, 255, 255, 0.1)',
             boxShadow: '0 4px 16px rgba(143, 132, 194, 0.3), inset 0 1px 0 rgba(255, 255, 255, 0.1)',
           }}
         >
-          Done
+          {hasPendingUploads ? t.savingButton : t.done}
         </button>
       </div>
     </div>
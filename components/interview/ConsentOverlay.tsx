@@ -8,6 +8,7 @@
 import { useState } from "react";
 import { Shield, Video, Mic, Monitor, Square, FileText, Trash2 } from "lucide-react";
 import { useBrandButton } from "@/lib/utils/brandButton";
+import { useTranslations } from "@/lib/hooks/useTranslations";
 
 interface ConsentOverlayProps {
   onAccept: () => void;
@@ -17,6 +18,7 @@ interface ConsentOverlayProps {
 export function ConsentOverlay({ onAccept, onCancel }: ConsentOverlayProps) {
   const [isChecked, setIsChecked] = useState(false);
   const brandButton = useBrandButton();
+  const t = useTranslations().consent;
 
   const handleAccept = () => {
     if (isChecked) {
@@ -39,10 +41,10 @@ export function ConsentOverlay({ onAccept, onCancel }: ConsentOverlayProps) {
           </div>
           <div>
             <h2 className="text-2xl font-semibold tracking-tight text-foreground-light dark:text-foreground-dark">
-              Recording Consent
+              {t.title}
             </h2>
             <p className="text-sm text-foreground-light-secondary dark:text-foreground-dark-muted">
-              We need your permission to begin
+              {t.subtitle}
             </p>
           </div>
         </div>
@@ -50,20 +52,20 @@ export function ConsentOverlay({ onAccept, onCancel }: ConsentOverlayProps) {
         {/* We'll record section */}
         <div className="rounded-[var(--brand-radius)] p-5 mb-4 bg-[#FAF9F6] dark:bg-[rgba(255,255,255,0.03)] border border-[rgba(0,0,0,0.06)] dark:border-[rgba(255,255,255,0.06)]">
           <h3 className="text-foreground-light dark:text-foreground-dark font-semibold mb-4 text-sm uppercase tracking-wide">
-            We&apos;ll record
+            {t.recordHeading}
           </h3>
           <ul className="space-y-3">
             <li className="flex items-center gap-3 text-foreground-light-secondary dark:text-foreground-dark-muted text-sm">
               <Video className="w-4 h-4 flex-shrink-0 text-foreground-light-muted dark:text-foreground-dark-subtle" />
-              <span>Video and audio of this interview</span>
+              <span>{t.recordVideo}</span>
             </li>
             <li className="flex items-center gap-3 text-foreground-light-secondary dark:text-foreground-dark-muted text-sm">
               <Mic className="w-4 h-4 flex-shrink-0 text-foreground-light-muted dark:text-foreground-dark-subtle" />
-              <span>Your spoken responses to our questions</span>
+              <span>{t.recordResponses}</span>
             </li>
             <li className="flex items-center gap-3 text-foreground-light-secondary dark:text-foreground-dark-muted text-sm">
               <Monitor className="w-4 h-4 flex-shrink-0 text-foreground-light-muted dark:text-foreground-dark-subtle" />
-              <span>Screen sharing (if enabled)</span>
+              <span>{t.recordScreen}</span>
             </li>
           </ul>
         </div>
@@ -71,20 +73,20 @@ export function ConsentOverlay({ onAccept, onCancel }: ConsentOverlayProps) {
         {/* Your rights section */}
         <div className="rounded-[var(--brand-radius)] p-5 mb-6 bg-[#FAF9F6] dark:bg-[rgba(255,255,255,0.03)] border border-[rgba(0,0,0,0.06)] dark:border-[rgba(255,255,255,0.06)]">
           <h3 className="text-foreground-light dark:text-foreground-dark font-semibold mb-4 text-sm uppercase tracking-wide">
-            Your rights
+            {t.rightsHeading}
           </h3>
           <ul className="space-y-3">
             <li className="flex items-center gap-3 text-foreground-light-secondary dark:text-foreground-dark-muted text-sm">
               <Square className="w-4 h-4 flex-shrink-0 text-foreground-light-muted dark:text-foreground-dark-subtle" />
-              <span>Stop the recording at any time</span>
+              <span>{t.rightStop}</span>
             </li>
             <li className="flex items-center gap-3 text-foreground-light-secondary dark:text-foreground-dark-muted text-sm">
               <FileText className="w-4 h-4 flex-shrink-0 text-foreground-light-muted dark:text-foreground-dark-subtle" />
-              <span>We&apos;ll ask for separate consent before publishing</span>
+              <span>{t.rightPublishing}</span>
             </li>
             <li className="flex items-center gap-3 text-foreground-light-secondary dark:text-foreground-dark-muted text-sm">
               <Trash2 className="w-4 h-4 flex-shrink-0 text-foreground-light-muted dark:text-foreground-dark-subtle" />
-              <span>Request deletion within 30 days</span>
+              <span>{t.rightDeletion}</span>
             </li>
           </ul>
         </div>
@@ -99,7 +101,7 @@ export function ConsentOverlay({ onAccept, onCancel }: ConsentOverlayProps) {
             style={{ accentColor: 'var(--brand-primary)' }}
           />
           <span className="text-sm text-foreground-light-secondary dark:text-foreground-dark-muted group-hover:text-foreground-light dark:group-hover:text-foreground-dark transition-colors leading-relaxed">
-            I consent to this interview being recorded and processed by Shine for the purpose of creating marketing materials.
+            {t.agreement}
           </span>
         </label>
 
@@ -109,7 +111,7 @@ export function ConsentOverlay({ onAccept, onCancel }: ConsentOverlayProps) {
             onClick={onCancel}
             className="flex-1 px-6 py-3.5 rounded-[var(--brand-radius)] bg-transparent hover:bg-[#FAF9F6] dark:hover:bg-[rgba(255,255,255,0.04)] border border-border-light dark:border-[rgba(255,255,255,0.1)] text-foreground-light-secondary dark:text-foreground-dark-secondary hover:text-foreground-light dark:hover:text-foreground-dark transition-all font-medium"
           >
-            Cancel
+            {t.cancel}
           </button>
           <button
             onClick={handleAccept}
@@ -123,7 +125,7 @@ export function ConsentOverlay({ onAccept, onCancel }: ConsentOverlayProps) {
                 : 'none',
             }}
           >
-            Accept & Start Recording
+            {t.accept}
           </button>
         </div>
       </div>
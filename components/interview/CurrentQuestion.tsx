@@ -12,37 +12,28 @@
  * - Pre-recording tips with lightbulb icon
  * - Real-time recording feedback with consistent styling
  * - Transcript preview during recording
+ * - Speaking indicator while the spoken producer reads aloud
  *
  * @author Shine Studio
  */
 
 import { memo } from "react";
-import { Check, Lightbulb, Mic, MessageCircle } from "lucide-react";
+import { Check, Lightbulb, Mic, MessageCircle, Volume2 } from "lucide-react";
 import { useInterview } from "@/lib/hooks/useInterview";
 import { UseAnswerEvaluationResult } from "@/lib/hooks/useAnswerEvaluation";
-
-// =============================================================================
-// CONSTANTS
-// =============================================================================
-
-/** Map question intent to display category */
-const INTENT_CATEGORY_MAP: Record<string, string> = {
-  discovery: "Discovery",
-  problem: "Problem",
-  solution: "Solution",
-  results: "Results",
-  recommendation: "Recommendation",
-  closing: "Closing",
-};
+import { useTranslations } from "@/lib/hooks/useTranslations";
 
 // =============================================================================
 // UTILITIES
 // =============================================================================
 
-/** Get display category from question intent */
-function getCategoryFromIntent(intent?: string): string {
-  if (!intent) return "Discovery";
-  return INTENT_CATEGORY_MAP[intent.toLowerCase()] || intent;
+/** Get display category from question intent, in the interview language */
+function getCategoryFromIntent(
+  categories: Record<string, string>,
+  intent?: string
+): string {
+  if (!intent) return categories.discovery;
+  return categories[intent.toLowerCase()] || intent;
 }
 
 // =============================================================================
@@ -52,6 +43,8 @@ function getCategoryFromIntent(intent?: string): string {
 interface CurrentQuestionProps {
   /** Answer evaluation hook instance - must be shared with RecordingControls */
   answerEvaluation: UseAnswerEvaluationResult;
+  /** Whether the spoken producer is currently reading aloud */
+  isProducerSpeaking?: boolean;
 }
 
 // =============================================================================
@@ -60,13 +53,15 @@ interface CurrentQuestionProps {
 
 export const CurrentQuestion = memo(function CurrentQuestion({
   answerEvaluation,
+  isProducerSpeaking = false,
 }: CurrentQuestionProps) {
   const { state } = useInterview();
+  const t = useTranslations().question;
   const { questions } = state.session;
   const { currentQuestionIndex, completedQuestions, isRecording } = state;
 
   const currentQuestion = questions[currentQuestionIndex];
-  const currentCategory = getCategoryFromIntent(currentQuestion?.intent);
+  const currentCategory = getCategoryFromIntent(t.categories, currentQuestion?.intent);
 
   if (!currentQuestion) return null;
 
@@ -85,7 +80,7 @@ export const CurrentQuestion = memo(function CurrentQuestion({
           {/* Question Progress with Dots - uses brand secondary color */}
           <div className="flex items-center gap-2 lg:gap-3 xl:gap-4">
             <span className="text-xs lg:text-sm xl:text-base text-foreground-light dark:text-foreground-dark-secondary opacity-70">
-              Question {currentQuestionIndex + 1} of {totalQuestions}
+              {t.progress(currentQuestionIndex + 1, totalQuestions)}
             </span>
             <div className="flex items-center gap-1 lg:gap-1.5 xl:gap-2">
               {questions.map((question, index) => {
@@ -122,32 +117,37 @@ export const CurrentQuestion = memo(function CurrentQuestion({
                   <>
                     <Check className="w-4 h-4 lg:w-5 lg:h-5 flex-shrink-0 mt-0.5 text-accent-green" />
                     <p className="text-sm lg:text-base xl:text-lg leading-snug lg:leading-relaxed text-accent-green opacity-90">
-                      <span className="font-semibold mr-1">Great answer!</span>
-                      You can stop recording when ready.
+                      <span className="font-semibold mr-1">{t.greatAnswer}</span>
+                      {t.canStop}
                     </p>
                   </>
-                ) : answerEvaluation.evaluation?.followUp ? (
+                ) : answerEvaluation.streamingFollowUp || answerEvaluation.evaluation?.followUp ? (
                   <>
-                    <MessageCircle className="w-4 h-4 lg:w-5 lg:h-5 flex-shrink-0 mt-0.5" style={{ color: '#EAB36C' }} />
+                    {isProducerSpeaking ? (
+                      <Volume2 className="w-4 h-4 lg:w-5 lg:h-5 flex-shrink-0 mt-0.5 animate-pulse" style={{ color: '#EAB36C' }} />
+                    ) : (
+                      <MessageCircle className="w-4 h-4 lg:w-5 lg:h-5 flex-shrink-0 mt-0.5" style={{ color: '#EAB36C' }} />
+                    )}
                     <p className="text-sm lg:text-base xl:text-lg leading-snug lg:leading-relaxed text-foreground-light dark:text-foreground-dark-subtle opacity-80">
-                      <span className="font-semibold mr-1">Follow-up:</span>
-                      {answerEvaluation.evaluation.followUp}
+                      <span className="font-semibold mr-1">{t.followUp}</span>
+                      {/* A follow-up Claude is still writing shows as it streams in */}
+                      {answerEvaluation.streamingFollowUp || answerEvaluation.evaluation?.followUp}
                     </p>
                   </>
                 ) : answerEvaluation.transcript.length > 0 ? (
                   <>
                     <Lightbulb className="w-4 h-4 lg:w-5 lg:h-5 flex-shrink-0 mt-0.5" style={{ color: '#EAB36C' }} />
                     <p className="text-sm lg:text-base xl:text-lg leading-snug lg:leading-relaxed text-foreground-light dark:text-foreground-dark-subtle opacity-80">
-                      <span className="font-semibold mr-1">Keep going...</span>
-                      Add more detail for a complete answer.
+                      <span className="font-semibold mr-1">{t.keepGoing}</span>
+                      {t.addDetail}
                     </p>
                   </>
                 ) : (
                   <>
                     <Mic className="w-4 h-4 lg:w-5 lg:h-5 flex-shrink-0 mt-0.5" style={{ color: '#EAB36C' }} />
                     <p className="text-sm lg:text-base xl:text-lg leading-snug lg:leading-relaxed text-foreground-light dark:text-foreground-dark-subtle opacity-80">
-                      <span className="font-semibold mr-1">Recording:</span>
-                      Start speaking to answer the question.
+                      <span className="font-semibold mr-1">{t.recording}</span>
+                      {t.startSpeaking}
                     </p>
                   </>
                 )}
@@ -159,8 +159,8 @@ export const CurrentQuestion = memo(function CurrentQuestion({
             <div className="flex items-start gap-2 lg:gap-3">
               <Lightbulb className="w-4 h-4 lg:w-5 lg:h-5 flex-shrink-0 mt-0.5" style={{ color: '#EAB36C' }} />
               <p className="text-sm lg:text-base xl:text-lg leading-snug lg:leading-relaxed text-foreground-light dark:text-foreground-dark-subtle opacity-80">
-                <span className="font-semibold mr-1">Tip:</span>
-                Look at the camera, speak clearly, and include specific metrics when possible.
+                <span className="font-semibold mr-1">{t.tip}</span>
+                {t.tipText}
               </p>
             </div>
           )}
@@ -11,6 +11,7 @@
  * - Live camera feed with background blur processing
  * - Recording controls with countdown animation
  * - Glasses mode for users who want to hide self-view
+ * - Spoken producer mode that reads questions and follow-ups aloud
  * - Rim light effect for professional eye lighting (dark mode only)
  * - Resolution guidance for low-quality camera feeds
  * - Answer evaluation integration
@@ -31,6 +32,7 @@ import { useBackgroundBlur } from "@/lib/hooks/useBackgroundBlur";
 import { useInterview } from "@/lib/hooks/useInterview";
 import { useTheme } from "@/components/providers/ThemeProvider";
 import { useWakeLock } from "@/lib/hooks/useWakeLock";
+import { useSpokenProducer } from "@/lib/hooks/useSpokenProducer";
 import {
   playCountdownBeep,
   playRecordingStartSound,
@@ -61,6 +63,9 @@ const DEFAULT_BLUR_AMOUNT = 5;
 /** Minimum resolution height before showing guidance */
 const MIN_RESOLUTION_HEIGHT = 720;
 
+/** localStorage key for the spoken producer preference */
+const SPOKEN_PRODUCER_STORAGE_KEY = "shine-spoken-producer";
+
 // =============================================================================
 // TYPES
 // =============================================================================
@@ -106,6 +111,14 @@ export function MainContent({
   /** Glasses mode hides self-view to reduce glare for glasses wearers */
   const [isGlassesMode, setIsGlassesMode] = useState(false);
 
+  /** Spoken producer reads questions/follow-ups aloud (opt-in, persisted) */
+  const [isSpokenProducerEnabled, setIsSpokenProducerEnabled] = useState(() => {
+    if (typeof window !== "undefined") {
+      return localStorage.getItem(SPOKEN_PRODUCER_STORAGE_KEY) === "true";
+    }
+    return false;
+  });
+
   /** Raw camera stream before blur processing */
   const rawStreamRef = useRef<MediaStream | null>(null);
   const [rawStream, setRawStream] = useState<MediaStream | null>(null);
@@ -152,6 +165,16 @@ export function MainContent({
 
   useWakeLock({ enabled: videoRecorder.state.isRecording || countdown !== null });
 
+  // ---------------------------------------------------------------------------
+  // Spoken Producer (reads questions and follow-ups aloud)
+  // ---------------------------------------------------------------------------
+
+  const spokenProducer = useSpokenProducer({
+    enabled: isSpokenProducerEnabled,
+    answerEvaluation,
+    videoRecorder,
+  });
+
   // ---------------------------------------------------------------------------
   // Callbacks
   // ---------------------------------------------------------------------------
@@ -189,6 +212,15 @@ export function MainContent({
     }, COUNTDOWN_INTERVAL_MS);
   }, []);
 
+  /** Toggle spoken producer mode and persist the preference */
+  const toggleSpokenProducer = useCallback(() => {
+    setIsSpokenProducerEnabled((prev) => {
+      const newValue = !prev;
+      localStorage.setItem(SPOKEN_PRODUCER_STORAGE_KEY, String(newValue));
+      return newValue;
+    });
+  }, []);
+
   // ---------------------------------------------------------------------------
   // Effects
   // ---------------------------------------------------------------------------
@@ -450,7 +482,10 @@ export function MainContent({
       {/* CURRENT QUESTION                                                 */}
       {/* Positioned near camera for natural eye contact                   */}
       {/* ================================================================= */}
-      <CurrentQuestion answerEvaluation={answerEvaluation} />
+      <CurrentQuestion
+        answerEvaluation={answerEvaluation}
+        isProducerSpeaking={spokenProducer.isSpeaking}
+      />
 
       {/* ================================================================= */}
       {/* VIDEO & CONTROLS CONTAINER                                       */}
@@ -564,6 +599,10 @@ export function MainContent({
             isCountingDown={countdown !== null}
             isSkinSmoothingEnabled={backgroundBlur.isSkinSmoothingEnabled}
             onToggleSkinSmoothing={backgroundBlur.toggleSkinSmoothing}
+            isSpokenProducerEnabled={isSpokenProducerEnabled}
+            onToggleSpokenProducer={toggleSpokenProducer}
+            getFramingHint={backgroundBlur.getFramingHint}
+            resetFramingHint={backgroundBlur.resetFramingHint}
           />
         </div>
       </div>
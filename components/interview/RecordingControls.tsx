@@ -12,6 +12,7 @@
  * - Real-time answer evaluation during recording
  * - Device selection (camera, microphone)
  * - Appearance settings (theme, rim light, skin smoothing)
+ * - Spoken producer toggle (questions and follow-ups read aloud)
  * - Questions list toggle
  * - Brand customization panel access
  * - Redo previous question functionality
@@ -32,14 +33,17 @@ import {
   ListChecks,
   Sparkles,
   Wand2,
+  Volume2,
 } from "lucide-react";
 import { useInterview } from "@/lib/hooks/useInterview";
 import { UseVideoRecorderResult } from "@/lib/hooks/useVideoRecorder";
 import { UseMediaDevicesResult } from "@/lib/hooks/useMediaDevices";
 import { UseAnswerEvaluationResult } from "@/lib/hooks/useAnswerEvaluation";
-import { createRecordingEntry } from "@/lib/api/client";
+import { useUploadQueue } from "@/lib/hooks/useUploadQueue";
+import { useTranslations } from "@/lib/hooks/useTranslations";
 import { useBrandButton } from "@/lib/utils/brandButton";
 import { useTheme } from "@/components/providers/ThemeProvider";
+import { FramingHint } from "@/lib/types/interview";
 
 // =============================================================================
 // CONSTANTS
@@ -48,18 +52,9 @@ import { useTheme } from "@/components/providers/ThemeProvider";
 /** Minimum recording duration before allowing stop (seconds) */
 const MIN_RECORDING_DURATION_SEC = 30;
 
-/** Delay before starting Mux polling (ms) */
-const MUX_POLL_INITIAL_DELAY_MS = 5000;
-
 /** Animation duration for dropdown transitions (ms) */
 const DROPDOWN_ANIMATION_MS = 200;
 
-/** Interval between Mux poll attempts (ms) */
-const MUX_POLL_INTERVAL_MS = 6000;
-
-/** Maximum Mux polling attempts */
-const MUX_POLL_MAX_ATTEMPTS = 20;
-
 // =============================================================================
 // TYPES
 // =============================================================================
@@ -91,6 +86,14 @@ interface RecordingControlsProps {
   isSkinSmoothingEnabled?: boolean;
   /** Callback to toggle skin smoothing */
   onToggleSkinSmoothing?: () => void;
+  /** Whether spoken producer mode is enabled */
+  isSpokenProducerEnabled?: boolean;
+  /** Callback to toggle spoken producer mode */
+  onToggleSpokenProducer?: () => void;
+  /** Average face position during the take (crop hint for vertical/square renders) */
+  getFramingHint?: () => FramingHint | null;
+  /** Start a new face position average */
+  resetFramingHint?: () => void;
 }
 
 // =============================================================================
@@ -111,6 +114,10 @@ export function RecordingControls({
   isCountingDown,
   isSkinSmoothingEnabled,
   onToggleSkinSmoothing,
+  isSpokenProducerEnabled,
+  onToggleSpokenProducer,
+  getFramingHint,
+  resetFramingHint,
 }: RecordingControlsProps) {
   // ---------------------------------------------------------------------------
   // Hooks
@@ -125,6 +132,9 @@ export function RecordingControls({
     evaluationStatus,
     hasConsent,
   } = interviewState;
+  const uploadQueue = useUploadQueue();
+  const { enqueueUpload } = uploadQueue;
+  const t = useTranslations().controls;
   const brandButton = useBrandButton();
   const { theme, toggleTheme } = useTheme();
 
@@ -151,7 +161,7 @@ export function RecordingControls({
 
   const canRedo = currentQuestionIndex > 0 && canRedoPrevious;
   const isRecording = videoRecorder.state.isRecording;
-  const isUploading = videoRecorder.state.isUploading;
+  const isUploading = uploadQueue.isUploading;
   const canStopRecording = answerEvaluation.evaluation?.isComplete || false;
 
   /** Progress toward being able to stop (0-1) */
@@ -183,73 +193,39 @@ export function RecordingControls({
       previewStream
     );
 
+    // Track face position for this take only
+    resetFramingHint?.();
+
     // Start speech recognition for answer evaluation
     answerEvaluation.startListening(
       currentQuestion.text,
-      currentQuestion.intent || undefined
+      currentQuestion.intent || undefined,
+      {
+        vocabulary: session.vocabulary,
+        language: session.language,
+        campaignId: session.campaign_id,
+        ruleId: currentQuestion.ruleId,
+        questionId: currentQuestion.id,
+      }
     );
 
     // Update interview state
     interview.startRecording();
   }, [
     session.questions,
+    session.vocabulary,
+    session.language,
+    session.campaign_id,
     currentQuestionIndex,
     videoRecorder,
     mediaDevices.selectedAudioDevice,
     mediaDevices.selectedVideoDevice,
     previewStream,
+    resetFramingHint,
     answerEvaluation,
     interview,
   ]);
 
-  /**
-   * Poll Mux for upload processing status (runs in background)
-   * Updates recording in database when video is ready
-   */
-  const pollMuxUploadBackground = useCallback(
-    async (uploadId: string, recordingId: string) => {
-      console.log("📤 Starting background poll for Mux upload:", uploadId);
-
-      let attempts = 0;
-
-      const poll = async () => {
-        try {
-          const response = await fetch("/api/mux/poll-upload", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ uploadId, recordingId }),
-          });
-
-          const data = await response.json();
-
-          if (data.status === "ready") {
-            console.log("✅ Video processed successfully:", uploadId);
-            if (data.transcriptionError) {
-              console.warn("⚠️ Transcription failed:", data.transcriptionError);
-            } else {
-              console.log("✅ Transcription completed");
-            }
-            return; // Done - video ready in database
-          } else if (data.status === "error") {
-            console.error("❌ Video processing failed:", uploadId);
-            return; // Done - error recorded
-          } else if (attempts < MUX_POLL_MAX_ATTEMPTS) {
-            attempts++;
-            setTimeout(poll, MUX_POLL_INTERVAL_MS);
-          } else {
-            console.log("⏱️ Stopped polling after max attempts:", uploadId);
-          }
-        } catch (error) {
-          console.error("Error polling Mux:", error);
-        }
-      };
-
-      // Start polling after initial delay
-      setTimeout(poll, MUX_POLL_INITIAL_DELAY_MS);
-    },
-    []
-  );
-
   /**
    * Handle recording start/stop toggle
    * Manages evaluation, upload, and question advancement
@@ -278,28 +254,20 @@ export function RecordingControls({
         const currentQuestion = session.questions[currentQuestionIndex];
         const confidence = answerEvaluation.evaluation?.confidence || 75;
 
+        const framing = getFramingHint?.() ?? null;
+
         // Clear preview immediately for next question
         videoRecorder.clearPreview();
 
         // Advance to next question (non-blocking)
         approveAnswer(confidence);
 
-        // Upload in background
-        const uploadId = await videoRecorder.uploadRecording(blob);
-
-        if (uploadId) {
-          // Create recording entry in database
-          const recordingId = await createRecordingEntry(
-            session.session_id,
-            currentQuestion.id,
-            currentQuestionIndex
-          );
-
-          // Start background polling for Mux processing
-          if (recordingId) {
-            pollMuxUploadBackground(uploadId, recordingId);
-          }
-        }
+        // Queue for upload - survives reloads and retries when back online
+        await enqueueUpload(blob, {
+          id: currentQuestion.id,
+          text: currentQuestion.text,
+          index: currentQuestionIndex,
+        }, framing);
       }
 
       // Reset evaluation for next question
@@ -319,10 +287,10 @@ export function RecordingControls({
     answerEvaluation,
     videoRecorder,
     session.questions,
-    session.session_id,
     currentQuestionIndex,
     approveAnswer,
-    pollMuxUploadBackground,
+    enqueueUpload,
+    getFramingHint,
     onStartCountdown,
     startRecordingNow,
   ]);
@@ -451,7 +419,7 @@ export function RecordingControls({
                       }
                     : undefined
                 }
-                aria-label="Toggle questions list"
+                aria-label={t.toggleQuestions}
               >
                 <ListChecks className="w-5 h-5" />
               </button>
@@ -467,7 +435,7 @@ export function RecordingControls({
                          hover:border-border-light-strong dark:hover:border-border-dark-hover
                          text-foreground-light-secondary dark:text-foreground-dark-secondary
                          transition-colors"
-              aria-label="Settings"
+              aria-label={t.settings}
             >
               <Settings className="w-5 h-5" />
             </button>
@@ -518,7 +486,7 @@ export function RecordingControls({
                 {mediaDevices.audioDevices.length > 0 && (
                   <>
                     <div className="text-[11px] font-semibold tracking-wide text-foreground-light-muted dark:text-foreground-dark-faint px-3 py-2 uppercase">
-                      Microphone
+                      {t.microphone}
                     </div>
                     {mediaDevices.audioDevices.map((device) => (
                       <button
@@ -553,7 +521,7 @@ export function RecordingControls({
                 {mediaDevices.videoDevices.length > 0 && (
                   <>
                     <div className="text-[11px] font-semibold tracking-wide text-foreground-light-muted dark:text-foreground-dark-faint px-3 py-2 uppercase mt-2">
-                      Camera
+                      {t.camera}
                     </div>
                     {mediaDevices.videoDevices.map((device) => (
                       <button
@@ -605,7 +573,7 @@ export function RecordingControls({
                     <Moon className="w-4 h-4 text-foreground-light-muted dark:text-foreground-dark-subtle flex-shrink-0" />
                   )}
                   <span className="flex-1 text-sm text-foreground-light dark:text-foreground-dark">
-                    {theme === "dark" ? "Light Mode" : "Dark Mode"}
+                    {theme === "dark" ? t.lightMode : t.darkMode}
                   </span>
                 </button>
 
@@ -622,7 +590,7 @@ export function RecordingControls({
                   >
                     <Sparkles className="w-4 h-4 text-foreground-light-muted dark:text-foreground-dark-subtle flex-shrink-0" />
                     <span className="flex-1 text-sm text-foreground-light dark:text-foreground-dark">
-                      Rim Light
+                      {t.rimLight}
                     </span>
                     {isRimLightEnabled && (
                       <Check
@@ -646,7 +614,7 @@ export function RecordingControls({
                   >
                     <Wand2 className="w-4 h-4 text-foreground-light-muted dark:text-foreground-dark-subtle flex-shrink-0" />
                     <span className="flex-1 text-sm text-foreground-light dark:text-foreground-dark">
-                      Touch Up Appearance
+                      {t.touchUp}
                     </span>
                     {isSkinSmoothingEnabled && (
                       <Check
@@ -657,6 +625,30 @@ export function RecordingControls({
                   </button>
                 )}
 
+                {/* Spoken Producer Toggle */}
+                {onToggleSpokenProducer && (
+                  <button
+                    onClick={() => {
+                      onToggleSpokenProducer();
+                      closeSettings();
+                    }}
+                    className="w-full flex items-center gap-3 px-3 py-3 min-h-[44px] rounded-lg
+                               hover:bg-background-light-subtle dark:hover:bg-[rgba(255,255,255,0.05)]
+                               text-left transition-colors"
+                  >
+                    <Volume2 className="w-4 h-4 text-foreground-light-muted dark:text-foreground-dark-subtle flex-shrink-0" />
+                    <span className="flex-1 text-sm text-foreground-light dark:text-foreground-dark">
+                      {t.readAloud}
+                    </span>
+                    {isSpokenProducerEnabled && (
+                      <Check
+                        className="w-4 h-4 flex-shrink-0"
+                        style={{ color: "var(--brand-primary)" }}
+                      />
+                    )}
+                  </button>
+                )}
+
                 {/* Brand Settings */}
                 {onBrandPanelToggle && (
                   <button
@@ -670,7 +662,7 @@ export function RecordingControls({
                   >
                     <Palette className="w-4 h-4 text-foreground-light-muted dark:text-foreground-dark-subtle flex-shrink-0" />
                     <span className="flex-1 text-sm text-foreground-light dark:text-foreground-dark">
-                      Brand Settings
+                      {t.brandSettings}
                     </span>
                   </button>
                 )}
@@ -749,16 +741,16 @@ export function RecordingControls({
           {/* Button Text */}
           <span className="text-sm font-medium">
             {isUploading
-              ? `Saving... ${videoRecorder.state.uploadProgress}%`
+              ? t.saving(uploadQueue.uploadProgress)
               : isCountingDown
-                ? "Get Ready..."
+                ? t.getReady
                 : isRecording
                   ? canStopRecording
-                    ? "Submit Answer"
-                    : `Keep going... ${Math.ceil(MIN_RECORDING_DURATION_SEC - elapsedTime)}s`
+                    ? t.submitAnswer
+                    : t.keepGoing(Math.ceil(MIN_RECORDING_DURATION_SEC - elapsedTime))
                   : evaluationStatus === "follow_up"
-                    ? "Record Follow-Up"
-                    : "Start Recording"}
+                    ? t.recordFollowUp
+                    : t.startRecording}
           </span>
         </button>
 
@@ -775,11 +767,11 @@ export function RecordingControls({
                      hover:border-border-light-strong dark:hover:border-border-dark-hover
                      text-foreground-light-secondary dark:text-foreground-dark-secondary
                      transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
-          aria-label={isRecording ? "Start over on current question" : "Re-do previous question"}
+          aria-label={isRecording ? t.startOverLabel : t.redoPreviousLabel}
         >
           <RotateCcw className="w-4 h-4" />
           <span className="text-sm font-medium">
-            {isRecording ? "Start Over" : "Re-do Previous"}
+            {isRecording ? t.startOver : t.redoPrevious}
           </span>
         </button>
       </div>
@@ -0,0 +1,84 @@
+"use client";
+
+/**
+ * ResumeOverlay Component
+ * Welcomes a returning respondent and shows which answers are already saved
+ */
+
+import { CheckCircle, RotateCcw } from "lucide-react";
+import { useBrandButton } from "@/lib/utils/brandButton";
+import { useInterview } from "@/lib/hooks/useInterview";
+import { useTranslations } from "@/lib/hooks/useTranslations";
+
+interface ResumeOverlayProps {
+  onContinue: () => void;
+}
+
+export function ResumeOverlay({ onContinue }: ResumeOverlayProps) {
+  const brandButton = useBrandButton();
+  const { state } = useInterview();
+  const t = useTranslations().resume;
+  const { session, completedQuestions } = state;
+
+  const answeredQuestions = session.questions.filter((q) =>
+    completedQuestions.includes(q.id)
+  );
+  const remainingCount = session.questions.length - answeredQuestions.length;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 dark:bg-black/80 backdrop-blur-md z-50 flex items-center justify-center p-4">
+      <div
+        className="bg-card-light dark:bg-[#141417] rounded-[var(--brand-radius)] max-w-2xl w-full p-8 border border-border-light dark:border-[rgba(255,255,255,0.08)]"
+        style={{
+          boxShadow: '0 24px 48px rgba(0, 0, 0, 0.2), 0 0 0 1px rgba(255, 255, 255, 0.05)',
+        }}
+      >
+        {/* Header with Icon */}
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-12 h-12 rounded-[var(--brand-radius)] flex items-center justify-center bg-[#F5F3EF] dark:bg-[rgba(255,255,255,0.06)] border border-[rgba(0,0,0,0.06)] dark:border-[rgba(255,255,255,0.08)]">
+            <RotateCcw className="w-6 h-6 text-foreground-light-secondary dark:text-foreground-dark-muted" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-semibold tracking-tight text-foreground-light dark:text-foreground-dark">
+              {t.title}
+            </h2>
+            <p className="text-sm text-foreground-light-secondary dark:text-foreground-dark-muted">
+              {t.progress(answeredQuestions.length, session.questions.length, remainingCount)}
+            </p>
+          </div>
+        </div>
+
+        {/* Answered questions */}
+        <div className="rounded-[var(--brand-radius)] p-5 mb-6 bg-[#FAF9F6] dark:bg-[rgba(255,255,255,0.03)] border border-[rgba(0,0,0,0.06)] dark:border-[rgba(255,255,255,0.06)]">
+          <h3 className="text-foreground-light dark:text-foreground-dark font-semibold mb-4 text-sm uppercase tracking-wide">
+            {t.savedHeading}
+          </h3>
+          <ul className="space-y-3">
+            {answeredQuestions.map((question) => (
+              <li
+                key={question.id}
+                className="flex items-start gap-3 text-foreground-light-secondary dark:text-foreground-dark-muted text-sm"
+              >
+                <CheckCircle className="w-4 h-4 flex-shrink-0 mt-0.5 text-accent-green" />
+                <span>{question.text}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {/* Continue Button */}
+        <button
+          onClick={onContinue}
+          className="w-full px-8 py-3.5 rounded-[var(--brand-radius)] text-white font-semibold transition-all duration-300 hover:scale-[1.02]"
+          style={{
+            background: brandButton.getPrimaryStyle(),
+            border: '1px solid rgba(255, 255, 255, 0.1)',
+            boxShadow: '0 4px 16px rgba(143, 132, 194, 0.3), inset 0 1px 0 rgba(255, 255, 255, 0.1)',
+          }}
+        >
+          {t.continue}
+        </button>
+      </div>
+    </div>
+  );
+}
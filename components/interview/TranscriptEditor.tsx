@@ -0,0 +1,240 @@
+"use client";
+
+/**
+ * TranscriptEditor Component
+ * Lets a reviewer fix misheard words (product names, people) in a recording's transcript
+ * Each word keeps its original timestamps, so captions and renders stay in sync
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { Check, History, Loader2, RotateCcw } from "lucide-react";
+import { fetchTranscript, saveTranscript } from "@/lib/api/client";
+import { TranscriptRevision, TranscriptWord } from "@/lib/types/transcript";
+
+/** Words below this confidence are underlined as likely mistakes */
+const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+interface TranscriptEditorProps {
+  recordingId: string;
+  /** Reviewer token for the transcript API (REVIEWER_API_SECRET) */
+  authToken: string;
+  /** Stored with each revision */
+  editorName?: string;
+  /** Called with the new version after a successful save */
+  onSaved?: (version: number) => void;
+  /** Called when the transcript API rejects the reviewer token */
+  onUnauthorized?: () => void;
+}
+
+export function TranscriptEditor({
+  recordingId,
+  authToken,
+  editorName,
+  onSaved,
+  onUnauthorized,
+}: TranscriptEditorProps) {
+  const [words, setWords] = useState<TranscriptWord[]>([]);
+  const [version, setVersion] = useState(0);
+  const [revisions, setRevisions] = useState<TranscriptRevision[]>([]);
+  const [edits, setEdits] = useState<Record<number, string>>({});
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTranscript = useCallback(async () => {
+    setIsLoading(true);
+    const transcript = await fetchTranscript(recordingId, authToken);
+
+    if (transcript === "unauthorized") {
+      setError("Your reviewer token was rejected");
+      onUnauthorized?.();
+    } else if (transcript) {
+      setWords(transcript.words);
+      setVersion(transcript.version);
+      setRevisions(transcript.revisions);
+      setEdits({});
+      setError(null);
+    } else {
+      setError("Transcript isn't available yet");
+    }
+    setIsLoading(false);
+  }, [recordingId, authToken, onUnauthorized]);
+
+  useEffect(() => {
+    loadTranscript();
+  }, [loadTranscript]);
+
+  const startEditing = (word: TranscriptWord) => {
+    setEditingIndex(word.index);
+    setDraft(edits[word.index] ?? word.text);
+  };
+
+  const commitEdit = () => {
+    if (editingIndex === null) return;
+    const original = words.find((word) => word.index === editingIndex)?.text;
+
+    setEdits((current) => {
+      const next = { ...current };
+      if (draft.trim() === original) {
+        delete next[editingIndex];
+      } else {
+        next[editingIndex] = draft.trim();
+      }
+      return next;
+    });
+    setEditingIndex(null);
+  };
+
+  const handleSave = async () => {
+    const corrections = Object.entries(edits).map(([index, text]) => ({
+      index: Number(index),
+      text,
+    }));
+    if (corrections.length === 0) return;
+
+    setIsSaving(true);
+    setError(null);
+    const result = await saveTranscript(recordingId, version, corrections, authToken, editorName);
+    setIsSaving(false);
+
+    if (result === "conflict") {
+      setError("Someone else saved this transcript. Reload to see their changes - your edits are kept until then.");
+      return;
+    }
+
+    if (result === "unauthorized") {
+      setError("Your reviewer token was rejected");
+      onUnauthorized?.();
+      return;
+    }
+
+    if (!result) {
+      setError("Couldn't save corrections. Please try again.");
+      return;
+    }
+
+    setWords(result.words);
+    setVersion(result.version);
+    setEdits({});
+    onSaved?.(result.version);
+
+    // Refresh history in the background
+    fetchTranscript(recordingId, authToken).then((transcript) => {
+      if (transcript && transcript !== "unauthorized") setRevisions(transcript.revisions);
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="mt-2 p-3 flex items-center gap-2 text-sm text-foreground-light-muted dark:text-foreground-dark-subtle">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading transcript...
+      </div>
+    );
+  }
+
+  const editCount = Object.keys(edits).length;
+
+  return (
+    <div className="mt-2 p-4 bg-[#FAF9F6] dark:bg-[rgba(255,255,255,0.03)] border border-[rgba(0,0,0,0.08)] dark:border-[rgba(255,255,255,0.06)] rounded-lg">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-xs font-semibold text-foreground-light-muted dark:text-foreground-dark-subtle">
+          Transcript · version {version}
+        </p>
+        <div className="flex items-center gap-2">
+          {editCount > 0 && (
+            <button
+              type="button"
+              onClick={() => setEdits({})}
+              disabled={isSaving}
+              className="flex items-center gap-1 px-2 py-1 text-xs rounded-md text-foreground-light-secondary dark:text-foreground-dark-muted hover:bg-black/5 dark:hover:bg-white/5"
+            >
+              <RotateCcw className="w-3 h-3" />
+              Discard
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={editCount === 0 || isSaving}
+            className="flex items-center gap-1 px-3 py-1 text-xs font-medium rounded-md bg-foreground-light text-white dark:bg-foreground-dark dark:text-black disabled:opacity-40"
+          >
+            {isSaving ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />}
+            {isSaving ? "Saving..." : editCount > 0 ? `Save ${editCount} correction${editCount === 1 ? "" : "s"}` : "Saved"}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="mb-3 text-xs text-red-700 dark:text-red-300">{error}</p>
+      )}
+
+      {/* Words - click to correct */}
+      <p className="text-sm leading-relaxed text-foreground-light-secondary dark:text-foreground-dark-muted">
+        {words.map((word) => {
+          if (editingIndex === word.index) {
+            return (
+              <input
+                key={word.index}
+                autoFocus
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={commitEdit}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") commitEdit();
+                  if (e.key === "Escape") setEditingIndex(null);
+                }}
+                aria-label={`Correct "${word.text}"`}
+                className="inline-block w-32 mx-0.5 px-1 text-sm rounded border border-[rgba(0,0,0,0.2)] dark:border-[rgba(255,255,255,0.2)] bg-white dark:bg-black"
+              />
+            );
+          }
+
+          const edited = edits[word.index];
+          const isRemoved = edited === "";
+          const isLowConfidence = word.confidence < LOW_CONFIDENCE_THRESHOLD;
+
+          return (
+            <span key={word.index}>
+              <button
+                type="button"
+                onClick={() => startEditing(word)}
+                title={`${word.start.toFixed(2)}s · ${Math.round(word.confidence * 100)}% confidence`}
+                className={[
+                  "rounded px-0.5 hover:bg-black/5 dark:hover:bg-white/10",
+                  edited !== undefined ? "bg-yellow-100 dark:bg-yellow-900/30" : "",
+                  isRemoved ? "line-through opacity-50" : "",
+                  isLowConfidence && edited === undefined ? "underline decoration-dotted decoration-red-400" : "",
+                ].join(" ")}
+              >
+                {isRemoved ? word.text : edited ?? word.text}
+              </button>{" "}
+            </span>
+          );
+        })}
+      </p>
+
+      {/* History */}
+      {revisions.length > 0 && (
+        <details className="mt-3 text-xs text-foreground-light-muted dark:text-foreground-dark-subtle">
+          <summary className="flex items-center gap-1 cursor-pointer">
+            <History className="w-3 h-3" />
+            {revisions.length} revision{revisions.length === 1 ? "" : "s"}
+          </summary>
+          <ul className="mt-2 space-y-1">
+            {revisions.map((revision) => (
+              <li key={revision.version}>
+                v{revision.version} · {revision.editedBy || "unknown"} ·{" "}
+                {new Date(revision.createdAt).toLocaleString()}
+                {revision.corrections.length > 0 && ` · ${revision.corrections.length} corrections`}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
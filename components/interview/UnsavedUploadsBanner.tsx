@@ -0,0 +1,50 @@
+"use client";
+
+/**
+ * UnsavedUploadsBanner Component
+ *
+ * Warns when an answer couldn't be saved on this device (storage full, private mode)
+ * and only exists in memory until it uploads - closing the page would lose it.
+ */
+
+import { memo } from "react";
+import { AlertTriangle } from "lucide-react";
+import { useUploadQueue } from "@/lib/hooks/useUploadQueue";
+
+export const UnsavedUploadsBanner = memo(function UnsavedUploadsBanner() {
+  const { pendingUploads, storageError } = useUploadQueue();
+  const unsavedCount = pendingUploads.filter((upload) => upload.keptInMemory).length;
+
+  if (storageError) {
+    return (
+      <div
+        className="fixed bottom-0 left-0 right-0 z-[100] bg-red-500 text-white px-4 py-3 flex items-center justify-center gap-3 shadow-lg"
+        role="alert"
+        aria-live="assertive"
+      >
+        <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+        <span className="text-sm font-medium">
+          We couldn&apos;t save your last answer. Please record it again.
+        </span>
+      </div>
+    );
+  }
+
+  if (unsavedCount === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      className="fixed bottom-0 left-0 right-0 z-[100] bg-amber-500 text-white px-4 py-3 flex items-center justify-center gap-3 shadow-lg"
+      role="alert"
+      aria-live="assertive"
+    >
+      <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+      <span className="text-sm font-medium">
+        {unsavedCount === 1 ? "An answer" : `${unsavedCount} answers`} couldn&apos;t be saved on this
+        device. Please keep this page open until uploading finishes.
+      </span>
+    </div>
+  );
+});
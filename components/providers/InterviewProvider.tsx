@@ -3,6 +3,7 @@
 /**
  * InterviewProvider
  * Manages interview state including current question, recording status, and navigation
+ * Restores progress from the server when a respondent returns to a session
  */
 
 import React, { createContext, useState, useEffect } from "react";
@@ -10,12 +11,13 @@ import {
   InterviewSession,
   InterviewState,
   InterviewContextType,
+  SessionResumeState,
 } from "@/lib/types/interview";
 import {
   calculateTimeEstimate,
   calculateProgress,
 } from "@/lib/utils/sessionHelpers";
-import { updateProgress } from "@/lib/api/client";
+import { updateProgress, recordConsent } from "@/lib/api/client";
 
 export const InterviewContext = createContext<InterviewContextType | undefined>(
   undefined
@@ -23,24 +25,52 @@ export const InterviewContext = createContext<InterviewContextType | undefined>(
 
 interface InterviewProviderProps {
   initialSession: InterviewSession;
+  /** Stored progress from a previous visit */
+  initialProgress?: SessionResumeState | null;
   children: React.ReactNode;
 }
 
-export function InterviewProvider({
-  initialSession,
-  children,
-}: InterviewProviderProps) {
-  const [state, setState] = useState<InterviewState>({
-    session: initialSession,
-    currentQuestionIndex: 0,
+/**
+ * Build the starting state, skipping questions that were already answered
+ */
+function getInitialState(
+  session: InterviewSession,
+  progress?: SessionResumeState | null
+): InterviewState {
+  const completedQuestions = progress
+    ? session.questions
+        .filter((q) => progress.answeredQuestionIds.includes(q.id))
+        .map((q) => q.id)
+    : [];
+
+  // Resume at the first unanswered question (or stay on the last one if all are done)
+  const firstUnanswered = session.questions.findIndex(
+    (q) => !completedQuestions.includes(q.id)
+  );
+  const currentQuestionIndex =
+    firstUnanswered === -1 ? session.questions.length - 1 : firstUnanswered;
+
+  return {
+    session,
+    currentQuestionIndex: Math.max(currentQuestionIndex, 0),
     isRecording: false,
-    completedQuestions: [],
+    completedQuestions,
     canRedoPrevious: false,
     evaluationStatus: 'idle',
     followUpText: undefined,
     aiScore: undefined,
-    hasConsent: false,
-  });
+    hasConsent: progress?.hasConsent || false,
+  };
+}
+
+export function InterviewProvider({
+  initialSession,
+  initialProgress,
+  children,
+}: InterviewProviderProps) {
+  const [state, setState] = useState<InterviewState>(() =>
+    getInitialState(initialSession, initialProgress)
+  );
 
   // Sync progress to API whenever question index changes
   useEffect(() => {
@@ -188,6 +218,11 @@ export function InterviewProvider({
       ...prev,
       hasConsent: true,
     }));
+
+    // Store consent so a reload doesn't ask again
+    recordConsent(initialSession.session_id).catch((error) => {
+      console.error("Failed to store consent:", error);
+    });
   };
 
   const progress = calculateProgress(
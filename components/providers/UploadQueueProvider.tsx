@@ -0,0 +1,261 @@
+"use client";
+
+/**
+ * UploadQueueProvider
+ * Persists finished recordings in IndexedDB and uploads them to Mux when online
+ * Pending answers survive page reloads and are retried with backoff
+ */
+
+import React, { createContext, useCallback, useEffect, useRef, useState } from "react";
+import { FramingHint, PendingUpload, UploadQueueContextType } from "@/lib/types/interview";
+import {
+  QueuedRecording,
+  enqueueRecording,
+  getQueuedRecordings,
+  removeQueuedRecording,
+  updateQueuedRecording,
+} from "@/lib/mux/uploadQueue";
+import { uploadVideoToMux } from "@/lib/mux/uploader";
+import { createRecordingEntry } from "@/lib/api/client";
+import { useOnlineStatus } from "@/lib/hooks/useOnlineStatus";
+
+/** First retry delay after a failed upload (ms), doubled per attempt */
+const RETRY_BASE_DELAY_MS = 5000;
+
+/** Upper bound for the retry delay (ms) */
+const RETRY_MAX_DELAY_MS = 60000;
+
+export const UploadQueueContext = createContext<UploadQueueContextType | undefined>(
+  undefined
+);
+
+interface UploadQueueProviderProps {
+  sessionId: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Strip the blob so pending items are cheap to keep in React state
+ */
+function toPendingUpload(item: QueuedRecording): PendingUpload {
+  return {
+    id: item.id,
+    questionId: item.questionId,
+    questionIndex: item.questionIndex,
+    questionText: item.questionText,
+    attempts: item.attempts,
+    lastError: item.lastError,
+    keptInMemory: item.keptInMemory,
+  };
+}
+
+export function UploadQueueProvider({ sessionId, children }: UploadQueueProviderProps) {
+  const { isOnline } = useOnlineStatus();
+
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [storageError, setStorageError] = useState<string | null>(null);
+
+  const isProcessingRef = useRef(false);
+  const rerunRequestedRef = useRef(false); // Enqueued while a run was in progress
+  const retryTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  /** Reload pending items from storage */
+  const refreshPending = useCallback(async () => {
+    try {
+      const items = await getQueuedRecordings(sessionId);
+      setPendingUploads(items.map(toPendingUpload));
+    } catch (error) {
+      console.error("Failed to read upload queue:", error);
+    }
+  }, [sessionId]);
+
+  /**
+   * Upload a single queued recording and create its database entry
+   * Returns true when the item was fully processed and removed from the queue
+   */
+  const uploadItem = useCallback(
+    async (item: QueuedRecording): Promise<boolean> => {
+      setIsUploading(true);
+      setUploadProgress(0);
+
+      try {
+        let uploadId = item.uploadId;
+
+        // Skip re-uploading if a previous attempt already reached Mux
+        if (!uploadId) {
+          const result = await uploadVideoToMux(item.blob, (progress) => {
+            setUploadProgress(progress.percentage);
+          });
+
+          if (!result.success || !result.assetId) {
+            throw new Error(result.error || "Upload failed");
+          }
+
+          uploadId = result.assetId; // This is actually the upload ID
+          await updateQueuedRecording({ ...item, uploadId });
+        }
+
+        // Mux webhooks finish processing server-side once the row has the upload ID
+        const recordingId = await createRecordingEntry(
+          sessionId,
+          item.questionId,
+          item.questionIndex,
+          uploadId,
+          item.framing
+        );
+
+        if (!recordingId) {
+          throw new Error("Failed to create recording entry");
+        }
+
+        await removeQueuedRecording(item.id);
+        console.log(`✅ Queued recording uploaded: ${item.id}`);
+        return true;
+      } catch (error) {
+        // UpChunk rejects with a plain { success, error } object rather than an Error
+        const message =
+          error instanceof Error
+            ? error.message
+            : (error as { error?: string })?.error || "Upload failed";
+
+        console.error(`❌ Upload failed for queued recording ${item.id}:`, message);
+
+        const latest = (await getQueuedRecordings(sessionId)).find((q) => q.id === item.id);
+        await updateQueuedRecording({
+          ...(latest || item),
+          attempts: item.attempts + 1,
+          lastError: message,
+        });
+        return false;
+      } finally {
+        setIsUploading(false);
+      }
+    },
+    [sessionId]
+  );
+
+  /** Work through the queue oldest-first; stop at the first failure and retry later */
+  const processQueue = useCallback(async () => {
+    if (isProcessingRef.current) {
+      // The running loop re-reads the queue when it finishes
+      rerunRequestedRef.current = true;
+      return;
+    }
+    if (typeof navigator !== "undefined" && !navigator.onLine) return;
+
+    isProcessingRef.current = true;
+
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+
+    try {
+      let stopped = false;
+
+      // Recordings enqueued mid-run are picked up by another pass over the queue
+      do {
+        rerunRequestedRef.current = false;
+        const items = await getQueuedRecordings(sessionId);
+
+        for (const item of items) {
+          if (!navigator.onLine) {
+            stopped = true;
+            break;
+          }
+
+          const succeeded = await uploadItem(item);
+          await refreshPending();
+
+          if (!succeeded) {
+            const delay = Math.min(
+              RETRY_BASE_DELAY_MS * 2 ** item.attempts,
+              RETRY_MAX_DELAY_MS
+            );
+            console.log(`🔁 Retrying upload queue in ${delay / 1000}s`);
+            retryTimerRef.current = setTimeout(() => {
+              processQueue();
+            }, delay);
+            stopped = true;
+            break;
+          }
+        }
+      } while (!stopped && rerunRequestedRef.current);
+    } catch (error) {
+      console.error("Error processing upload queue:", error);
+    } finally {
+      isProcessingRef.current = false;
+      rerunRequestedRef.current = false;
+    }
+  }, [sessionId, uploadItem, refreshPending]);
+
+  /**
+   * Save a finished recording locally, then upload if we're online
+   * If the device can't store it, the queue keeps it in memory (flagged keptInMemory)
+   */
+  const enqueueUpload = useCallback(
+    async (
+      blob: Blob,
+      question: { id: string; text: string; index: number },
+      framing?: FramingHint | null
+    ) => {
+      try {
+        await enqueueRecording({
+          sessionId,
+          questionId: question.id,
+          questionIndex: question.index,
+          questionText: question.text,
+          blob,
+          framing: framing || undefined,
+        });
+        setStorageError(null);
+      } catch (error) {
+        // Not even the in-memory fallback took it - tell the respondent to record again
+        console.error("Failed to queue recording:", error);
+        setStorageError(error instanceof Error ? error.message : "Couldn't save your answer");
+        return;
+      }
+
+      await refreshPending();
+      processQueue();
+    },
+    [sessionId, refreshPending, processQueue]
+  );
+
+  // Load anything left over from a previous page load
+  useEffect(() => {
+    refreshPending();
+  }, [refreshPending]);
+
+  // Retry whenever we come (back) online
+  useEffect(() => {
+    if (isOnline) {
+      processQueue();
+    }
+  }, [isOnline, processQueue]);
+
+  // Clear pending retry on unmount
+  useEffect(() => {
+    return () => {
+      if (retryTimerRef.current) {
+        clearTimeout(retryTimerRef.current);
+      }
+    };
+  }, []);
+
+  return (
+    <UploadQueueContext.Provider
+      value={{
+        pendingUploads,
+        isUploading,
+        uploadProgress,
+        storageError,
+        enqueueUpload,
+      }}
+    >
+      {children}
+    </UploadQueueContext.Provider>
+  );
+}
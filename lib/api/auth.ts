@@ -0,0 +1,31 @@
+/**
+ * API Route Authorization
+ * Server-side only - bearer-token checks for internal endpoints (job worker, admin)
+ */
+
+import crypto from "crypto";
+import { NextRequest } from "next/server";
+
+/**
+ * Check that the request carries `Authorization: Bearer <secret>`
+ * Always false when the secret isn't configured
+ */
+export function isAuthorizedRequest(
+  request: NextRequest,
+  secret: string | undefined
+): boolean {
+  if (!secret) {
+    return false;
+  }
+
+  const header = request.headers.get("authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+
+  const provided = Buffer.from(token);
+  const expected = Buffer.from(secret);
+
+  return (
+    provided.length === expected.length &&
+    crypto.timingSafeEqual(provided, expected)
+  );
+}
@@ -3,6 +3,13 @@
  * Functions for making API calls from React components
  */
 
+import { FramingHint, SessionResumeState } from "@/lib/types/interview";
+import {
+  EditableTranscript,
+  TranscriptCorrection,
+  TranscriptRevision,
+} from "@/lib/types/transcript";
+
 /**
  * Update session progress
  */
@@ -39,7 +46,8 @@ export async function createRecordingEntry(
   sessionId: string,
   questionId: string,
   questionIndex: number,
-  muxAssetId?: string
+  muxUploadId?: string,
+  framing?: FramingHint
 ): Promise<string | null> {
   try {
     const response = await fetch(`/api/sessions/${sessionId}/recordings`, {
@@ -47,7 +55,7 @@ export async function createRecordingEntry(
       headers: {
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({ questionId, questionIndex, muxAssetId }),
+      body: JSON.stringify({ questionId, questionIndex, muxUploadId, framing }),
     });
 
     if (!response.ok) {
@@ -82,3 +90,116 @@ export async function fetchRecordings(sessionId: string): Promise<any[]> {
     return [];
   }
 }
+
+/**
+ * Get stored progress for a returning respondent
+ */
+export async function fetchResumeState(
+  sessionId: string
+): Promise<SessionResumeState | null> {
+  try {
+    const response = await fetch(`/api/sessions/${sessionId}/resume`);
+
+    if (!response.ok) {
+      console.error("Failed to fetch resume state:", await response.text());
+      return null;
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Error fetching resume state:", error);
+    return null;
+  }
+}
+
+/**
+ * Store recording consent for a session
+ */
+export async function recordConsent(sessionId: string): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/sessions/${sessionId}/consent`, {
+      method: "POST",
+    });
+
+    if (!response.ok) {
+      console.error("Failed to record consent:", await response.text());
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Error recording consent:", error);
+    return false;
+  }
+}
+
+/**
+ * Get a recording's transcript for editing
+ * Returns "unauthorized" when the reviewer token is rejected, or null on error
+ */
+export async function fetchTranscript(
+  recordingId: string,
+  authToken: string
+): Promise<(EditableTranscript & { revisions: TranscriptRevision[] }) | "unauthorized" | null> {
+  try {
+    const response = await fetch(`/api/recordings/${recordingId}/transcript`, {
+      headers: { Authorization: `Bearer ${authToken}` },
+    });
+
+    if (response.status === 401) {
+      return "unauthorized";
+    }
+
+    if (!response.ok) {
+      console.error("Failed to fetch transcript:", await response.text());
+      return null;
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Error fetching transcript:", error);
+    return null;
+  }
+}
+
+/**
+ * Save transcript corrections on top of baseVersion
+ * Returns the new transcript, "conflict" if someone else saved first,
+ * "unauthorized" when the reviewer token is rejected, or null on error
+ */
+export async function saveTranscript(
+  recordingId: string,
+  baseVersion: number,
+  corrections: TranscriptCorrection[],
+  authToken: string,
+  editedBy?: string
+): Promise<EditableTranscript | "conflict" | "unauthorized" | null> {
+  try {
+    const response = await fetch(`/api/recordings/${recordingId}/transcript`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${authToken}`,
+      },
+      body: JSON.stringify({ baseVersion, corrections, editedBy }),
+    });
+
+    if (response.status === 409) {
+      return "conflict";
+    }
+
+    if (response.status === 401) {
+      return "unauthorized";
+    }
+
+    if (!response.ok) {
+      console.error("Failed to save transcript:", await response.text());
+      return null;
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Error saving transcript:", error);
+    return null;
+  }
+}
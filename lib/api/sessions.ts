@@ -4,7 +4,8 @@
  */
 
 import { createClient } from "@supabase/supabase-js";
-import { InterviewSession, Question } from "@/lib/types/interview";
+import { FramingHint, InterviewSession, Question, SessionResumeState } from "@/lib/types/interview";
+import { resolveInterviewLanguage } from "@/lib/i18n/languages";
 
 // Anon client for client-side reads (subject to RLS)
 const supabaseAnon = createClient(
@@ -40,7 +41,9 @@ export async function getSessionData(
         campaigns (
           id,
           name,
-          questions
+          questions,
+          vocabulary,
+          language
         ),
         companies (
           id,
@@ -76,9 +79,16 @@ export async function getSessionData(
     // Transform database response to InterviewSession type
     const interviewSession: InterviewSession = {
       session_id: session.session_id,
+      campaign_id: session.campaigns.id,
       company_name: session.companies.name,
       company_logo: session.companies.logo_url || undefined,
       questions: session.campaigns.questions as Question[],
+      vocabulary: session.campaigns.vocabulary || [],
+      // 'auto' campaigns follow the respondent's browser
+      language: resolveInterviewLanguage(
+        session.campaigns.language,
+        typeof navigator !== "undefined" ? navigator.languages : []
+      ),
       created_at: session.created_at,
       brand_customization: brandCustomization
         ? {
@@ -150,12 +160,14 @@ export async function updateSessionProgress(
 
 /**
  * Create a new recording entry
+ * Stores the Mux upload ID so webhooks can find the recording without the browser
  */
 export async function createRecording(
   sessionId: string,
   questionId: string,
   questionIndex: number,
-  muxAssetId?: string
+  muxUploadId?: string,
+  framing?: FramingHint
 ): Promise<string | null> {
   try {
     // Use service role for server-side writes
@@ -180,7 +192,9 @@ export async function createRecording(
         session_id: session.id,
         question_id: questionId,
         question_index: questionIndex,
-        mux_asset_id: muxAssetId || null,
+        mux_upload_id: muxUploadId || null,
+        framing_x: framing?.x ?? null,
+        framing_y: framing?.y ?? null,
         video_status: "processing",
         transcription_status: "pending",
       })
@@ -237,3 +251,71 @@ export async function getSessionRecordings(sessionId: string) {
     return [];
   }
 }
+
+/**
+ * Rebuild interview progress for a returning respondent
+ * Combines the session row (index, status, consent) with existing recordings
+ */
+export async function getSessionResumeState(
+  sessionId: string
+): Promise<SessionResumeState | null> {
+  try {
+    // Use service role for server-side operations
+    const supabase = getServiceRoleClient();
+
+    // Type cast to bypass Supabase type inference
+    const { data: session, error: sessionError } = await (supabase
+      .from("sessions") as any)
+      .select("status, current_question_index, consent_given_at")
+      .eq("session_id", sessionId)
+      .single();
+
+    if (sessionError || !session) {
+      console.error("Error finding session:", sessionError);
+      return null;
+    }
+
+    const recordings = await getSessionRecordings(sessionId);
+    const answeredQuestionIds = Array.from(
+      new Set<string>(recordings.map((recording: any) => recording.question_id))
+    );
+
+    return {
+      status: session.status,
+      currentQuestionIndex: session.current_question_index || 0,
+      hasConsent: !!session.consent_given_at,
+      answeredQuestionIds,
+    };
+  } catch (error) {
+    console.error("Unexpected error fetching resume state:", error);
+    return null;
+  }
+}
+
+/**
+ * Store that the respondent accepted recording consent
+ */
+export async function recordSessionConsent(sessionId: string): Promise<boolean> {
+  try {
+    // Type cast to bypass Supabase type inference - use service role for writes
+    const supabase = getServiceRoleClient();
+    const { error } = await (supabase
+      .from("sessions") as any)
+      .update({
+        consent_given_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("session_id", sessionId)
+      .is("consent_given_at", null);
+
+    if (error) {
+      console.error("Error recording consent:", error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Unexpected error recording consent:", error);
+    return false;
+  }
+}
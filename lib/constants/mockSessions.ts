@@ -9,66 +9,77 @@ import { Question, InterviewSession } from "@/lib/types/interview";
 export const QUESTION_BANK: Record<string, Question> = {
   role_context: {
     id: "q_role_001",
+    ruleId: "q1_role_team_industry",
     text: "What is your role, team size, and industry?",
     intent:
       "Establishing context about your position and organization to help viewers relate to your experience.",
   },
   problem_statement: {
     id: "q_problem_001",
+    ruleId: "q2_problem_before",
     text: "What problem were you trying to solve before using our product?",
     intent:
       "Identifying the core pain points and challenges you faced that led you to seek a solution.",
   },
   alternatives: {
     id: "q_alternatives_001",
+    ruleId: "q3_alternatives",
     text: "What alternatives or previous solutions were you using, and why did you switch?",
     intent:
       "Understanding your decision-making process and what made our product stand out from competitors.",
   },
   onboarding: {
     id: "q_onboarding_001",
+    ruleId: "q4_onboarding",
     text: "What was the setup or onboarding experience like? Any integration hurdles?",
     intent:
       "Capturing honest feedback about the initial implementation and any technical challenges encountered.",
   },
   results: {
     id: "q_results_001",
+    ruleId: "q6_results_qualitative",
     text: "What results have you seen since implementing the product?",
     intent:
       "Highlighting tangible outcomes and business impact from using our solution.",
   },
   metrics: {
     id: "q_metrics_001",
+    ruleId: "q7_metrics_roi",
     text: "Can you share any specific metrics or ROI (time-to-value, $, %, hours saved, etc.)?",
     intent:
       "Quantifying the value with concrete numbers that demonstrate measurable success.",
   },
   favorite_feature: {
     id: "q_feature_001",
+    ruleId: "q8_killer_feature",
     text: "What feature or capability has delivered the most value?",
     intent:
       "Identifying the key functionality that drives the most benefit for your use case.",
   },
   challenges: {
     id: "q_challenges_001",
+    ruleId: "q9_limitations",
     text: "What limitation or challenge have you experienced, and how did you work around it?",
     intent:
       "Providing balanced perspective on areas for improvement and practical solutions you've found.",
   },
   support: {
     id: "q_support_001",
+    ruleId: "q10_support",
     text: "How responsive or effective has support been?",
     intent:
       "Sharing your experience with our customer success and technical support teams.",
   },
   surprise: {
     id: "q_surprise_001",
+    ruleId: "q11_surprise",
     text: "What surprised you most about using the product?",
     intent:
       "Uncovering unexpected benefits or delightful moments that exceeded your expectations.",
   },
   recommendation: {
     id: "q_recommendation_001",
+    ruleId: "q12_recommendation",
     text: "Would you recommend us to someone else? Why? (0–10 scale allowed)",
     intent:
       "Measuring your likelihood to recommend and understanding the key reasons behind your advocacy.",
@@ -4,6 +4,16 @@
  */
 
 import { createClient, DeepgramClient } from "@deepgram/sdk";
+import type { TranscriptionOptions } from "@/lib/transcription/client";
+
+// nova-3 takes multi-word keyterms; older models take single-word keywords
+const DEEPGRAM_MODEL = process.env.DEEPGRAM_MODEL || "nova-2";
+
+// Intensifier applied to each keyword (nova-2)
+const KEYWORD_BOOST = 2;
+
+// Deepgram rejects requests with too many keywords/keyterms
+const MAX_VOCABULARY_TERMS = 100;
 
 // Lazy initialization to avoid throwing at module load time
 let deepgramClient: DeepgramClient | null = null;
@@ -23,11 +33,57 @@ function getDeepgramClient(): DeepgramClient {
   return deepgramClient;
 }
 
+/**
+ * Deepgram options that boost the campaign's vocabulary
+ */
+function getVocabularyOptions(vocabulary: string[] = []) {
+  const terms = Array.from(
+    new Set(vocabulary.map((term) => term.trim()).filter((term) => term.length > 0))
+  );
+
+  if (terms.length === 0) {
+    return {};
+  }
+
+  if (DEEPGRAM_MODEL.startsWith("nova-3")) {
+    return { keyterm: terms.slice(0, MAX_VOCABULARY_TERMS) };
+  }
+
+  // Keywords are single words - boost each word of a multi-word name
+  const words = Array.from(new Set(terms.flatMap((term) => term.split(/\s+/))));
+  return {
+    keywords: words
+      .slice(0, MAX_VOCABULARY_TERMS)
+      .map((word) => `${word}:${KEYWORD_BOOST}`),
+  };
+}
+
+/**
+ * Deepgram options for the spoken language
+ */
+function getLanguageOptions(language?: string) {
+  if (!language) {
+    return {};
+  }
+
+  if (language === "auto") {
+    return { detect_language: true };
+  }
+
+  return { language };
+}
+
 /**
  * Transcribe audio from a URL
  */
-export async function transcribeFromUrl(audioUrl: string) {
+export async function transcribeFromUrl(
+  audioUrl: string,
+  options: TranscriptionOptions = {}
+) {
   console.log("🎤 Deepgram: Starting transcription from URL:", audioUrl);
+  if (options.vocabulary?.length) {
+    console.log(`🔤 Deepgram: Boosting ${options.vocabulary.length} vocabulary terms`);
+  }
 
   try {
     const deepgram = getDeepgramClient();
@@ -35,12 +91,14 @@ export async function transcribeFromUrl(audioUrl: string) {
     const { result, error } = await deepgram.listen.prerecorded.transcribeUrl(
       { url: audioUrl },
       {
-        model: "nova-2",
+        model: DEEPGRAM_MODEL,
         smart_format: true,
         punctuate: true,
         paragraphs: true,
         utterances: true,
         diarize: false,
+        ...getVocabularyOptions(options.vocabulary),
+        ...getLanguageOptions(options.language),
       }
     );
 
@@ -68,7 +126,8 @@ export async function transcribeFromUrl(audioUrl: string) {
  */
 export async function transcribeFromBuffer(
   audioBuffer: Buffer,
-  mimeType: string = "audio/webm"
+  mimeType: string = "audio/webm",
+  options: TranscriptionOptions = {}
 ) {
   console.log("🎤 Deepgram: Starting transcription from buffer");
 
@@ -78,12 +137,14 @@ export async function transcribeFromBuffer(
     const { result, error } = await deepgram.listen.prerecorded.transcribeFile(
       audioBuffer,
       {
-        model: "nova-2",
+        model: DEEPGRAM_MODEL,
         smart_format: true,
         punctuate: true,
         paragraphs: true,
         utterances: true,
         mimetype: mimeType,
+        ...getVocabularyOptions(options.vocabulary),
+        ...getLanguageOptions(options.language),
       }
     );
 
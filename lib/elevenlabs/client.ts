@@ -0,0 +1,236 @@
+/**
+ * ElevenLabs Client Configuration
+ * Server-side only - synthesizes AI Producer speech with ElevenLabs TTS
+ * Falls back to a local stand-in provider when no API key is configured
+ */
+
+// ==================== CONFIGURATION ====================
+
+const ELEVENLABS_API_URL = "https://api.elevenlabs.io/v1";
+
+// Adam - professional male voice (used when the campaign doesn't pick one)
+export const DEFAULT_VOICE_ID = process.env.ELEVENLABS_VOICE_ID || "pNInz6obpgDQGcFmaJgB";
+
+const ELEVENLABS_MODEL_ID = "eleven_turbo_v2_5";
+
+// Maximum number of synthesized phrases kept in memory
+const SPEECH_CACHE_MAX_ENTRIES = 100;
+
+// Speaking rate used to size the stand-in audio (words per second)
+const STAND_IN_WORDS_PER_SECOND = 2.5;
+const STAND_IN_SAMPLE_RATE = 16000;
+
+// ==================== TYPES ====================
+
+export interface SpeechProvider {
+  name: "elevenlabs" | "local";
+  contentType: string;
+  synthesize(text: string, voiceId: string): Promise<ReadableStream<Uint8Array>>;
+}
+
+export interface SpeechResult {
+  stream: ReadableStream<Uint8Array>;
+  contentType: string;
+  provider: SpeechProvider["name"];
+  cached: boolean;
+}
+
+// ==================== PROVIDERS ====================
+
+/**
+ * ElevenLabs streaming TTS
+ * Returns the response body directly so playback can start before synthesis finishes
+ */
+const elevenLabsProvider: SpeechProvider = {
+  name: "elevenlabs",
+  contentType: "audio/mpeg",
+  async synthesize(text, voiceId) {
+    const response = await fetch(
+      `${ELEVENLABS_API_URL}/text-to-speech/${voiceId}/stream?output_format=mp3_44100_128`,
+      {
+        method: "POST",
+        headers: {
+          "xi-api-key": process.env.ELEVENLABS_API_KEY!,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          text,
+          model_id: ELEVENLABS_MODEL_ID,
+          voice_settings: {
+            stability: 0.5,
+            similarity_boost: 0.75,
+          },
+        }),
+      }
+    );
+
+    if (!response.ok || !response.body) {
+      const errorText = await response.text().catch(() => "");
+      throw new Error(`ElevenLabs TTS error: ${response.status} ${errorText}`);
+    }
+
+    return response.body;
+  },
+};
+
+/**
+ * Local stand-in provider for development without an ElevenLabs key
+ * Emits a silent WAV roughly as long as the spoken text would be,
+ * so the interview flow (pause recognizer, wait, resume) behaves the same
+ */
+const localStandInProvider: SpeechProvider = {
+  name: "local",
+  contentType: "audio/wav",
+  async synthesize(text) {
+    const wordCount = text.trim().split(/\s+/).filter(Boolean).length;
+    const durationSeconds = Math.max(1, wordCount / STAND_IN_WORDS_PER_SECOND);
+    const wav = buildSilentWav(durationSeconds);
+
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(wav);
+        controller.close();
+      },
+    });
+  },
+};
+
+/**
+ * Build a 16-bit mono PCM WAV file of silence
+ */
+function buildSilentWav(durationSeconds: number): Uint8Array {
+  const sampleCount = Math.round(durationSeconds * STAND_IN_SAMPLE_RATE);
+  const dataSize = sampleCount * 2;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true); // PCM chunk size
+  view.setUint16(20, 1, true); // PCM format
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, STAND_IN_SAMPLE_RATE, true);
+  view.setUint32(28, STAND_IN_SAMPLE_RATE * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, "data");
+  view.setUint32(40, dataSize, true);
+
+  return new Uint8Array(buffer);
+}
+
+/**
+ * Pick the TTS provider based on configured credentials
+ */
+export function getSpeechProvider(): SpeechProvider {
+  return process.env.ELEVENLABS_API_KEY ? elevenLabsProvider : localStandInProvider;
+}
+
+// ==================== PHRASE CACHE ====================
+
+// Questions and generic follow-ups repeat across respondents, so cache the audio
+// Map preserves insertion order, which gives us simple LRU eviction
+const speechCache = new Map<string, { audio: Uint8Array; contentType: string }>();
+
+function getCacheKey(provider: SpeechProvider, voiceId: string, text: string): string {
+  return `${provider.name}:${voiceId}:${text.trim().toLowerCase()}`;
+}
+
+function readCache(key: string) {
+  const entry = speechCache.get(key);
+  if (entry) {
+    // Refresh recency
+    speechCache.delete(key);
+    speechCache.set(key, entry);
+  }
+  return entry;
+}
+
+function writeCache(key: string, audio: Uint8Array, contentType: string) {
+  speechCache.set(key, { audio, contentType });
+  if (speechCache.size > SPEECH_CACHE_MAX_ENTRIES) {
+    const oldestKey = speechCache.keys().next().value;
+    if (oldestKey !== undefined) {
+      speechCache.delete(oldestKey);
+    }
+  }
+}
+
+/**
+ * Drain a stream into a single buffer (used to populate the cache)
+ */
+async function collectStream(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let totalLength = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    totalLength += value.length;
+  }
+
+  const audio = new Uint8Array(totalLength);
+  let offset = 0;
+  for (const chunk of chunks) {
+    audio.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return audio;
+}
+
+// ==================== PUBLIC API ====================
+
+/**
+ * Synthesize speech for a question or follow-up
+ * Serves repeated phrases from cache, otherwise streams from the provider
+ * while filling the cache in the background
+ */
+export async function synthesizeSpeech(
+  text: string,
+  voiceId: string = DEFAULT_VOICE_ID
+): Promise<SpeechResult> {
+  const provider = getSpeechProvider();
+  const cacheKey = getCacheKey(provider, voiceId, text);
+
+  const cached = readCache(cacheKey);
+  if (cached) {
+    console.log(`🎙️ TTS cache hit (${provider.name}): "${text.substring(0, 40)}..."`);
+    return {
+      stream: new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(cached.audio);
+          controller.close();
+        },
+      }),
+      contentType: cached.contentType,
+      provider: provider.name,
+      cached: true,
+    };
+  }
+
+  console.log(`🎙️ TTS synthesizing (${provider.name}, voice ${voiceId}): "${text.substring(0, 40)}..."`);
+
+  const source = await provider.synthesize(text, voiceId);
+  const [clientStream, cacheStream] = source.tee();
+
+  collectStream(cacheStream)
+    .then((audio) => writeCache(cacheKey, audio, provider.contentType))
+    .catch((error) => console.error("❌ Failed to cache TTS audio:", error));
+
+  return {
+    stream: clientStream,
+    contentType: provider.contentType,
+    provider: provider.name,
+    cached: false,
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Answer Evaluator
+ * AI evaluation for answers the rules engine can't settle, through a pluggable provider
+ * Claude by default; campaigns can prefer Gemini (campaigns.evaluator_provider), and
+ * when a provider fails the next configured one is tried
+ * Shared by live evaluation (/api/evaluate-answer) and the server-side final pass
+ */
+
+import { anthropicEvaluator } from './anthropicEvaluator';
+import { FollowUpTurn } from './followUpBudget';
+import { geminiEvaluator } from './geminiEvaluator';
+import { getGenericFollowUp } from './rulesEngine';
+import { getBaseLanguage } from '@/lib/i18n/languages';
+
+// ==================== CONFIGURATION ====================
+
+// Live evaluation must feel conversational - past this, ask a generic follow-up instead
+export const LIVE_LATENCY_BUDGET_MS = Number(process.env.EVALUATOR_LATENCY_BUDGET_MS) || 4000;
+
+// ==================== TYPES ====================
+
+export type EvaluatorProvider = 'anthropic' | 'gemini';
+
+export const EVALUATOR_PROVIDERS: EvaluatorProvider[] = ['anthropic', 'gemini'];
+
+export interface AnswerEvaluationOptions {
+  questionContext?: string;
+  vocabulary?: string[];
+  language?: string;
+  followUpHistory?: FollowUpTurn[];   // Follow-ups already asked for this question
+  provider?: EvaluatorProvider | null; // Preferred provider (campaign setting)
+  latencyBudgetMs?: number;           // Defaults to LIVE_LATENCY_BUDGET_MS, shared across failover
+  onFollowUpText?: (text: string) => void; // Follow-up written so far, as it streams
+}
+
+/** What a provider is given - the latency budget becomes an abort signal */
+export interface ProviderEvaluationOptions
+  extends Omit<AnswerEvaluationOptions, 'provider' | 'latencyBudgetMs'> {
+  signal: AbortSignal;
+}
+
+/** A provider's verdict, validated against the common schema */
+export interface ProviderEvaluation {
+  isComplete: boolean;
+  confidence: number;                 // 0-100
+  followUp: string | null;
+  extractedValue: string | null;
+}
+
+/** The common result, whichever provider produced it */
+export interface AnswerEvaluation extends ProviderEvaluation {
+  provider: EvaluatorProvider;        // Provider that made the decision
+  timedOut: boolean;                  // Budget ran out - followUp is a generic one
+}
+
+export interface AnswerEvaluator {
+  name: EvaluatorProvider;
+  isConfigured(): boolean;
+  /**
+   * Evaluate an answer - aborts when options.signal fires
+   * Throws on API errors; returns null when the model doesn't return a valid evaluation
+   */
+  evaluate(question: string, transcript: string, options: ProviderEvaluationOptions): Promise<ProviderEvaluation | null>;
+}
+
+// ==================== PROVIDERS ====================
+
+const EVALUATORS: Record<EvaluatorProvider, AnswerEvaluator> = {
+  anthropic: anthropicEvaluator,
+  gemini: geminiEvaluator,
+};
+
+/**
+ * Clean up a provider name from the database or a request body
+ */
+export function normalizeEvaluatorProvider(value: unknown): EvaluatorProvider | null {
+  return EVALUATOR_PROVIDERS.includes(value as EvaluatorProvider) ? (value as EvaluatorProvider) : null;
+}
+
+/**
+ * Providers to try, in order
+ * The preferred provider (campaign setting, then EVALUATOR_PROVIDER, then Claude) comes
+ * first, followed by the other configured ones as failover
+ */
+export function getEvaluatorOrder(preferred?: EvaluatorProvider | null): AnswerEvaluator[] {
+  const first = preferred || normalizeEvaluatorProvider(process.env.EVALUATOR_PROVIDER) || 'anthropic';
+  const order = [first, ...EVALUATOR_PROVIDERS.filter((provider) => provider !== first)]
+    .map((provider) => EVALUATORS[provider]);
+  const configured = order.filter((evaluator) => evaluator.isConfigured());
+
+  // Nothing configured - let the preferred provider report the problem
+  return configured.length > 0 ? configured : [order[0]];
+}
+
+/**
+ * Result used when no provider answers within the latency budget
+ * Generic follow-ups are English-only - other languages just keep listening
+ */
+function getTimeoutResult(provider: EvaluatorProvider, language: string | undefined): AnswerEvaluation {
+  const isEnglish = !language || getBaseLanguage(language) === 'en';
+
+  return {
+    isComplete: false,
+    confidence: 0,
+    followUp: isEnglish ? getGenericFollowUp() : null,
+    extractedValue: null,
+    provider,
+    timedOut: true,
+  };
+}
+
+// ==================== PUBLIC API ====================
+
+/**
+ * Evaluate an answer with the preferred provider, failing over to the others
+ * The latency budget covers every attempt; when it runs out a generic follow-up is returned
+ * Throws when every provider errors; returns null when none returned a valid evaluation
+ */
+export async function evaluateAnswer(
+  question: string,
+  transcript: string,
+  options: AnswerEvaluationOptions = {}
+): Promise<AnswerEvaluation | null> {
+  const { provider: preferred, latencyBudgetMs = LIVE_LATENCY_BUDGET_MS, ...providerOptions } = options;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), latencyBudgetMs);
+
+  let lastError: unknown = null;
+  let anyInvalid = false;
+
+  try {
+    for (const evaluator of getEvaluatorOrder(preferred)) {
+      try {
+        const result = await evaluator.evaluate(question, transcript, {
+          ...providerOptions,
+          signal: controller.signal,
+        });
+
+        if (result) {
+          return { ...result, provider: evaluator.name, timedOut: false };
+        }
+
+        console.warn(`⚠️ [AnswerEvaluator] ${evaluator.name} returned an invalid evaluation`);
+        anyInvalid = true;
+      } catch (error) {
+        if (controller.signal.aborted) {
+          console.warn(`⏱️ [AnswerEvaluator] No evaluation within ${latencyBudgetMs}ms, using generic follow-up`);
+          return getTimeoutResult(evaluator.name, options.language);
+        }
+
+        console.error(`❌ [AnswerEvaluator] ${evaluator.name} failed:`, error);
+        lastError = error;
+      }
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (lastError && !anyInvalid) {
+    throw lastError;
+  }
+  return null;
+}
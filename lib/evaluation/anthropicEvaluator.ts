@@ -0,0 +1,104 @@
+/**
+ * Anthropic Answer Evaluator
+ * Claude provider for the answer evaluator (see answerEvaluator.ts)
+ *
+ * The model answers through a tool call, so the result is schema-shaped JSON rather
+ * than free text, and the follow-up streams in as the tool input is written.
+ * Set ANTHROPIC_BASE_URL to point it at a local mock server (scripts/mock-model-server.ts)
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { AnswerEvaluator } from './answerEvaluator';
+import {
+  buildEvaluationMessage,
+  EVALUATOR_SYSTEM_PROMPT,
+  parseEvaluation,
+  readPartialFollowUp,
+} from './evaluatorPrompt';
+
+// ==================== CONFIGURATION ====================
+
+const anthropic = new Anthropic({
+  apiKey: process.env.ANTHROPIC_API_KEY,
+});
+
+const EVALUATOR_MODEL = 'claude-haiku-4-5-20251001';
+
+// ==================== STRUCTURED OUTPUT ====================
+
+const EVALUATION_TOOL_NAME = 'record_evaluation';
+
+// Property order matters - followUp comes right after isComplete so it streams early
+const EVALUATION_TOOL: Anthropic.Tool = {
+  name: EVALUATION_TOOL_NAME,
+  description: 'Record your evaluation of the customer\'s answer.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      isComplete: {
+        type: 'boolean',
+        description: 'Whether the answer already has enough specific value to stop',
+      },
+      followUp: {
+        type: ['string', 'null'],
+        description: 'Specific follow-up (under 15 words) targeting the missing number or feature, or null when complete',
+      },
+      confidence: {
+        type: 'integer',
+        minimum: 0,
+        maximum: 100,
+      },
+      extractedValue: {
+        type: ['string', 'null'],
+        description: 'The specific metric, feature or quote captured, or null',
+      },
+    },
+    required: ['isComplete', 'followUp', 'confidence', 'extractedValue'],
+  },
+};
+
+// ==================== PROVIDER ====================
+
+export const anthropicEvaluator: AnswerEvaluator = {
+  name: 'anthropic',
+
+  isConfigured() {
+    return Boolean(process.env.ANTHROPIC_API_KEY);
+  },
+
+  async evaluate(question, transcript, options) {
+    const stream = anthropic.messages.stream(
+      {
+        model: EVALUATOR_MODEL,
+        max_tokens: 300,
+        system: `${EVALUATOR_SYSTEM_PROMPT}\n\nAlways answer by calling the ${EVALUATION_TOOL_NAME} tool.`,
+        tools: [EVALUATION_TOOL],
+        tool_choice: { type: 'tool', name: EVALUATION_TOOL_NAME },
+        messages: [{ role: 'user', content: buildEvaluationMessage(question, transcript, options) }],
+      },
+      // Retrying would blow the latency budget - the answer evaluator fails over instead
+      { maxRetries: 0, signal: options.signal }
+    );
+
+    let inputJson = '';
+    let streamedFollowUp = '';
+    stream.on('inputJson', (partialJson) => {
+      inputJson += partialJson;
+      const followUp = readPartialFollowUp(inputJson);
+      if (followUp && followUp !== streamedFollowUp) {
+        streamedFollowUp = followUp;
+        options.onFollowUpText?.(followUp);
+      }
+    });
+
+    const message = await stream.finalMessage();
+    const toolUse = message.content.find((block) => block.type === 'tool_use');
+    const evaluation = parseEvaluation(toolUse?.type === 'tool_use' ? toolUse.input : null);
+
+    if (!evaluation) {
+      console.error('Invalid evaluation from Claude:', JSON.stringify(message.content));
+    }
+
+    return evaluation;
+  },
+};
@@ -0,0 +1,151 @@
+/**
+ * Evaluator Prompt
+ * Instructions and output handling shared by every AI evaluation provider, so
+ * Claude and Gemini judge answers by the same standard
+ */
+
+import type { ProviderEvaluation, ProviderEvaluationOptions } from './answerEvaluator';
+import { getBaseLanguage, getLanguageName } from '@/lib/i18n/languages';
+
+// ==================== PROMPT ====================
+
+export const EVALUATOR_SYSTEM_PROMPT = `# Role
+You are a HARDCORE testimonial value extractor. Your job is to mine specific metrics, feature names, and quotable soundbites from customer interviews.
+
+# Context
+You are evaluating video testimonial answers. Marketing needs SPECIFIC numbers and feature names, not vague praise.
+
+# CRITICAL RULE: If they give a soft answer, you MUST ask for the hard number ($ or hours) or the specific feature name.
+
+# Soft Adjectives That NEED Follow-Up (unless they give a number too):
+- "fast/quick/rapid/speedy" → Ask: "In terms of hours or days, how long exactly?"
+- "expensive/costly" → Ask: "Subscription cost or labor cost? Rough estimate?"
+- "slow/inefficient" → Ask: "How many hours per week were you losing?"
+- "efficient/productive" → Ask: "Would you say 2x faster? 5x? What's the number?"
+- "seamless/smooth" → Ask: "How many developer hours did that save?"
+- "powerful/robust" → Ask: "What specific complex task did it handle?"
+- "game-changer/transformative" → Ask: "If you had to quantify the impact on P&L?"
+
+# What Makes an Answer COMPLETE (must have at least ONE):
+- A specific NUMBER: hours, %, $, 2x/5x/10x multiplier
+- A specific FEATURE NAME: not "automation" but "the auto-scheduling feature"
+- A specific BEFORE/AFTER comparison with concrete details
+- An NPS score (0-10) WITH an explanation
+- A quotable soundbite that stands alone ("We couldn't live without it")
+
+# What is NOT Complete:
+- "It's faster" → Need: "How much faster? Hours? Days?"
+- "Saved money" → Need: "Thousands or tens of thousands?"
+- "The automation is great" → Need: "Which specific automation?"
+- "Support is fast" → Need: "Minutes or hours response time?"
+- "It's a game-changer" → Need: "What's the impact in numbers?"
+
+# Follow-Up Rules:
+1. ALWAYS ask for the number if they give only an adjective
+2. ALWAYS ask for the feature name if they say generic terms
+3. Keep follow-ups under 15 words but be SPECIFIC
+4. Push gently but firmly for conservative estimates
+
+# Example Follow-Ups:
+- "How many hours per week does that save the team?"
+- "Are we talking thousands or tens of thousands annually?"
+- "What specific feature or workflow delivers that value?"
+- "Would you estimate 2x improvement? 5x? Higher?"
+- "Is that response time in minutes or hours?"
+
+# When to APPROVE without follow-up:
+- They gave a real number (even a rough estimate like "about 10 hours")
+- They named a specific feature AND explained how they use it
+- They gave a concrete before/after story with details
+- Simple factual answers (role, team size, industry)
+
+Remember: Vague praise is worthless for marketing. Numbers and specifics are GOLD.`;
+
+/**
+ * The answer to evaluate, with the question, campaign vocabulary and follow-ups so far
+ */
+export function buildEvaluationMessage(
+  question: string,
+  transcript: string,
+  options: ProviderEvaluationOptions
+): string {
+  const vocabulary = options.vocabulary || [];
+  const language = options.language ? getBaseLanguage(options.language) : 'en';
+  const history = options.followUpHistory || [];
+
+  return `INTERVIEW QUESTION: "${question}"
+${options.questionContext ? `QUESTION CONTEXT: ${options.questionContext}` : ''}
+${vocabulary.length > 0 ? `PRODUCT VOCABULARY (these count as specific feature names): ${vocabulary.join(', ')}` : ''}
+${language !== 'en' ? `INTERVIEW LANGUAGE: ${getLanguageName(language)} - write followUp and extractedValue in ${getLanguageName(language)}` : ''}
+${history.length > 0 ? `FOLLOW-UPS ALREADY ASKED (never ask these again - an answered one is settled, even if the answer was rough):
+${history.map((turn) => `- "${turn.prompt}" → ${turn.answer ? `answered: "${turn.answer}"` : 'not answered yet'}`).join('\n')}` : ''}
+
+CUSTOMER'S ANSWER (transcribed): "${transcript}"
+
+Evaluate this answer with HARDCORE EXTRACTION mindset:
+- If they gave a soft adjective (fast, efficient, great) WITHOUT a number → Request the number
+- If they mentioned a generic term (automation, feature) WITHOUT specifics → Request the feature name
+- If they gave vague praise WITHOUT concrete impact → Push for conservative estimate
+- If they gave a NUMBER or SPECIFIC FEATURE NAME → Approve it`;
+}
+
+// ==================== OUTPUT ====================
+
+/**
+ * Check a model's structured output matches the schema (models occasionally drift)
+ */
+export function parseEvaluation(input: unknown): ProviderEvaluation | null {
+  if (typeof input !== 'object' || input === null) {
+    return null;
+  }
+
+  // Gemini leaves out nullable fields instead of sending null
+  const { isComplete, confidence, followUp = null, extractedValue = null } = input as Record<string, unknown>;
+
+  if (
+    typeof isComplete !== 'boolean' ||
+    typeof confidence !== 'number' ||
+    (followUp !== null && typeof followUp !== 'string') ||
+    (extractedValue !== null && typeof extractedValue !== 'string')
+  ) {
+    return null;
+  }
+
+  return {
+    isComplete,
+    confidence: Math.max(0, Math.min(100, Math.round(confidence))),
+    followUp: followUp?.trim() || null,
+    extractedValue: extractedValue?.trim() || null,
+  };
+}
+
+/**
+ * Follow-up text written so far in partial JSON output
+ * SDK partial-JSON snapshots leave out unfinished strings, so read the raw JSON
+ */
+export function readPartialFollowUp(json: string): string | null {
+  const start = json.match(/"followUp"\s*:\s*"/);
+  if (!start || start.index === undefined) {
+    return null;
+  }
+
+  // Up to the closing quote, if it has been written yet
+  let text = json.slice(start.index + start[0].length);
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '"') {
+      text = text.slice(0, i);
+      break;
+    }
+  }
+
+  // Drop a half-written escape sequence at the end
+  text = text.replace(/\\(u[0-9a-fA-F]{0,3})?$/, '');
+
+  try {
+    return JSON.parse(`"${text}"`);
+  } catch {
+    return null;
+  }
+}
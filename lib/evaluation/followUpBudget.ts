@@ -0,0 +1,138 @@
+/**
+ * Follow-Up Budget
+ * Conversation memory for the AI Producer - which follow-ups were already asked
+ * for a question, whether the respondent answered them, and how many more we
+ * can ask before letting them move on
+ */
+
+// ==================== CONFIGURATION ====================
+
+export const FOLLOW_UP_BUDGET = {
+  // Follow-ups asked for a single question (per take)
+  maxPerQuestion: 2,
+  // Follow-ups asked across the whole interview
+  maxPerSession: 6,
+  // Words spoken after a follow-up before it counts as answered
+  minAnswerWords: 4,
+};
+
+// Request body limits (history comes from the client during live evaluation)
+const MAX_HISTORY_TURNS = 10;
+const MAX_PROMPT_LENGTH = 300;
+const MAX_ANSWER_LENGTH = 2000;
+
+// ==================== TYPES ====================
+
+/** A follow-up the producer asked, and what the respondent said after it */
+export interface FollowUpTurn {
+  condition: string | null;   // Rule follow-up condition (null for AI follow-ups)
+  prompt: string;
+  answer: string;             // Transcript spoken since it was asked ('' while pending)
+}
+
+export interface FollowUpContext {
+  history: FollowUpTurn[];    // This question's follow-ups, oldest first
+  sessionCount: number;       // Follow-ups asked earlier in the session (other questions, earlier takes)
+}
+
+// ==================== HISTORY ====================
+
+/**
+ * Clean up follow-up history from a request body
+ */
+export function normalizeFollowUpHistory(value: unknown): FollowUpTurn[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter((turn): turn is Record<string, unknown> => typeof turn === 'object' && turn !== null)
+    .filter((turn) => typeof turn.prompt === 'string' && turn.prompt.trim().length > 0)
+    .slice(-MAX_HISTORY_TURNS)
+    .map((turn) => ({
+      condition: typeof turn.condition === 'string' ? turn.condition : null,
+      prompt: (turn.prompt as string).trim().slice(0, MAX_PROMPT_LENGTH),
+      answer: typeof turn.answer === 'string' ? turn.answer.trim().slice(0, MAX_ANSWER_LENGTH) : '',
+    }));
+}
+
+/**
+ * Clean up the session follow-up count from a request body
+ */
+export function normalizeSessionFollowUpCount(value: unknown): number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : 0;
+}
+
+/**
+ * Whether the respondent has said enough since the follow-up to count as an answer
+ */
+export function isFollowUpAnswered(turn: FollowUpTurn): boolean {
+  return turn.answer.split(/\s+/).filter((word) => word.length > 0).length >= FOLLOW_UP_BUDGET.minAnswerWords;
+}
+
+/**
+ * Most recent follow-up if the respondent hasn't answered it yet
+ */
+export function getPendingFollowUp(context: FollowUpContext): FollowUpTurn | null {
+  const last = context.history[context.history.length - 1];
+  return last && !isFollowUpAnswered(last) ? last : null;
+}
+
+/**
+ * Conditions whose follow-up was asked and answered - treated as satisfied
+ */
+export function getAnsweredConditions(context: FollowUpContext): Set<string> {
+  return new Set(
+    context.history
+      .filter((turn) => turn.condition && isFollowUpAnswered(turn))
+      .map((turn) => turn.condition as string)
+  );
+}
+
+/**
+ * Whether this prompt was already asked for the question (never ask the same thing twice)
+ */
+export function wasAsked(context: FollowUpContext, prompt: string): boolean {
+  const normalized = prompt.trim().toLowerCase();
+  return context.history.some((turn) => turn.prompt.toLowerCase() === normalized);
+}
+
+/**
+ * Whether a follow-up still being written could turn out to be one already asked
+ * (streamed text is held back until it can't, so a dropped repeat never flashes up)
+ */
+export function couldBeAsked(context: FollowUpContext, partialPrompt: string): boolean {
+  const normalized = partialPrompt.trim().toLowerCase();
+  return context.history.some((turn) => turn.prompt.toLowerCase().startsWith(normalized));
+}
+
+/**
+ * Whether another follow-up fits the per-question and per-session budget
+ */
+export function hasFollowUpBudget(context: FollowUpContext): boolean {
+  return (
+    context.history.length < FOLLOW_UP_BUDGET.maxPerQuestion &&
+    context.sessionCount + context.history.length < FOLLOW_UP_BUDGET.maxPerSession
+  );
+}
+
+/**
+ * Keep an evaluator's follow-up within the budget
+ * A repeated or over-budget follow-up approves the answer instead, so the
+ * respondent is never stuck in a chain of questions
+ */
+export function applyFollowUpBudget<T extends { isComplete: boolean; followUp: string | null }>(
+  result: T,
+  context: FollowUpContext
+): T {
+  if (!result.followUp) {
+    return result;
+  }
+
+  if (wasAsked(context, result.followUp) || !hasFollowUpBudget(context)) {
+    console.log(`🧮 [FollowUps] Dropping follow-up (${context.history.length} asked, ${context.sessionCount} earlier in session)`);
+    return { ...result, isComplete: true, followUp: null };
+  }
+
+  return result;
+}
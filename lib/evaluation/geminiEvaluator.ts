@@ -0,0 +1,97 @@
+/**
+ * Gemini Answer Evaluator
+ * Gemini provider for the answer evaluator (see answerEvaluator.ts)
+ * A JSON response schema keeps the output in the common shape, and the follow-up
+ * streams in as the JSON is written
+ */
+
+import { ResponseSchema, SchemaType } from '@google/generative-ai';
+import { getGeminiModel } from '@/lib/gemini/client';
+import type { AnswerEvaluator } from './answerEvaluator';
+import {
+  buildEvaluationMessage,
+  EVALUATOR_SYSTEM_PROMPT,
+  parseEvaluation,
+  readPartialFollowUp,
+} from './evaluatorPrompt';
+
+// ==================== CONFIGURATION ====================
+
+const EVALUATOR_MODEL = 'gemini-2.5-flash';
+
+// ==================== STRUCTURED OUTPUT ====================
+
+const EVALUATION_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    isComplete: {
+      type: SchemaType.BOOLEAN,
+      description: 'Whether the answer already has enough specific value to stop',
+    },
+    followUp: {
+      type: SchemaType.STRING,
+      nullable: true,
+      description: 'Specific follow-up (under 15 words) targeting the missing number or feature, or null when complete',
+    },
+    confidence: {
+      type: SchemaType.INTEGER,
+      description: '0-100',
+    },
+    extractedValue: {
+      type: SchemaType.STRING,
+      nullable: true,
+      description: 'The specific metric, feature or quote captured, or null',
+    },
+  },
+  required: ['isComplete', 'confidence'],
+};
+
+// ==================== PROVIDER ====================
+
+export const geminiEvaluator: AnswerEvaluator = {
+  name: 'gemini',
+
+  isConfigured() {
+    return Boolean(process.env.GEMINI_API_KEY);
+  },
+
+  async evaluate(question, transcript, options) {
+    const model = getGeminiModel(EVALUATOR_MODEL, {
+      responseMimeType: 'application/json',
+      responseSchema: EVALUATION_SCHEMA,
+    });
+
+    const result = await model.generateContentStream(
+      {
+        systemInstruction: EVALUATOR_SYSTEM_PROMPT,
+        contents: [{ role: 'user', parts: [{ text: buildEvaluationMessage(question, transcript, options) }] }],
+      },
+      // GEMINI_BASE_URL points it at a local mock server (scripts/mock-model-server.ts)
+      { signal: options.signal, baseUrl: process.env.GEMINI_BASE_URL }
+    );
+
+    let json = '';
+    let streamedFollowUp = '';
+    for await (const chunk of result.stream) {
+      json += chunk.text();
+      const followUp = readPartialFollowUp(json);
+      if (followUp && followUp !== streamedFollowUp) {
+        streamedFollowUp = followUp;
+        options.onFollowUpText?.(followUp);
+      }
+    }
+
+    let evaluation = null;
+    try {
+      evaluation = parseEvaluation(JSON.parse(json));
+    } catch {
+      // Reported below
+    }
+
+    if (!evaluation) {
+      console.error('Invalid evaluation from Gemini:', json);
+    }
+
+    return evaluation;
+  },
+};
@@ -0,0 +1,295 @@
+/**
+ * Testimonial Insight Extractor
+ * Turns a transcript into typed, queryable records - metrics with value and unit,
+ * pain points, features, competitors, NPS scores, titles and industries -
+ * each with the timestamp span it was spoken in
+ */
+
+import {
+  COMPETITOR_PATTERNS,
+  INDUSTRY_PATTERNS,
+  PAIN_PATTERNS,
+  TITLE_PATTERNS,
+} from './questionRules';
+import { FEATURE_PATTERN, vocabularyPattern } from './rulesEngine';
+import { findWordAt, getWordOffsets, Transcription } from '@/lib/transcription/utils';
+
+// ==================== TYPES ====================
+
+export type InsightKind = 'metric' | 'pain' | 'feature' | 'competitor' | 'nps' | 'title' | 'industry';
+
+export const INSIGHT_KINDS: InsightKind[] = ['metric', 'pain', 'feature', 'competitor', 'nps', 'title', 'industry'];
+
+export type MetricUnit =
+  | 'percent'
+  | 'multiplier'
+  | 'minutes'
+  | 'hours'
+  | 'days'
+  | 'weeks'
+  | 'months'
+  | 'years'
+  | 'usd'
+  | 'count'
+  | 'people';
+
+export interface TestimonialInsight {
+  kind: InsightKind;
+  text: string;               // Matched text as spoken
+  value: number | null;       // Metric amount or NPS score
+  unit: MetricUnit | null;    // Metrics only
+  context: string;            // Sentence the value was mentioned in
+  startSeconds: number | null; // Null when the transcript has no word timings
+  endSeconds: number | null;
+}
+
+interface InsightMatch {
+  kind: InsightKind;
+  text: string;
+  index: number;
+  value: number | null;
+  unit: MetricUnit | null;
+}
+
+// ==================== PATTERNS ====================
+
+// "$5,000", "$2.5 million"
+const CURRENCY_PATTERN = /\$\s?(\d[\d,]*(?:\.\d+)?)\s*(k|thousand|million|m|billion|bn)?(?![a-z])/gi;
+
+// "40%", "3 hours", "5x", "200 users", "3 times faster" ("3 times a week" is a frequency, not a multiplier)
+const QUANTITY_PATTERN = /(?<![\w$.,])(\d[\d,]*(?:\.\d+)?)\s*(%|percent|x|times(?=\s+(?:faster|more|better)\b)|minutes?|mins?|hours?|hrs?|days?|weeks?|months?|years?|k|thousand|million|people|employees|users|customers|clients)(?![a-z])/gi;
+
+// "doubled our pipeline", "twice as fast"
+const MULTIPLIER_WORDS: Record<string, number> = {
+  doubled: 2,
+  twice: 2,
+  tripled: 3,
+  quadrupled: 4,
+};
+const MULTIPLIER_WORD_PATTERN = /\b(doubled|twice|tripled|quadrupled)\b/gi;
+
+// "9 out of 10", "eight/10"
+const NPS_SCORE_PATTERN = /\b(10|[0-9]|zero|one|two|three|four|five|six|seven|eight|nine|ten)\s*(?:out of|\/)\s*(?:10|ten)\b/gi;
+
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5,
+  six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+const UNIT_ALIASES: Record<string, MetricUnit> = {
+  '%': 'percent',
+  percent: 'percent',
+  x: 'multiplier',
+  times: 'multiplier',
+  minute: 'minutes',
+  minutes: 'minutes',
+  min: 'minutes',
+  mins: 'minutes',
+  hour: 'hours',
+  hours: 'hours',
+  hr: 'hours',
+  hrs: 'hours',
+  day: 'days',
+  days: 'days',
+  week: 'weeks',
+  weeks: 'weeks',
+  month: 'months',
+  months: 'months',
+  year: 'years',
+  years: 'years',
+  people: 'people',
+  employees: 'people',
+  users: 'people',
+  customers: 'people',
+  clients: 'people',
+};
+
+const SCALE_WORDS: Record<string, number> = {
+  k: 1_000,
+  thousand: 1_000,
+  m: 1_000_000,
+  million: 1_000_000,
+  billion: 1_000_000_000,
+  bn: 1_000_000_000,
+};
+
+// Longest context sentence kept with a record
+const MAX_CONTEXT_LENGTH = 240;
+
+// ==================== MATCHING ====================
+
+function parseAmount(raw: string): number {
+  return parseFloat(raw.replace(/,/g, ''));
+}
+
+/**
+ * Shared pattern lists are substring matches - bound them to whole words
+ * (plurals allowed) so "cto" doesn't match inside "factor"
+ */
+function wholeWord(pattern: RegExp): RegExp {
+  return new RegExp(`\\b(?:${pattern.source})s?\\b`, 'gi');
+}
+
+function collectPatterns(transcript: string, kind: InsightKind, patterns: RegExp[]): InsightMatch[] {
+  return patterns.flatMap((pattern) =>
+    Array.from(transcript.matchAll(wholeWord(pattern)), (match) => ({
+      kind,
+      text: match[0],
+      index: match.index ?? 0,
+      value: null,
+      unit: null,
+    }))
+  );
+}
+
+function findMetrics(transcript: string): InsightMatch[] {
+  const metrics: InsightMatch[] = [];
+
+  for (const match of transcript.matchAll(CURRENCY_PATTERN)) {
+    const scale = match[2] ? SCALE_WORDS[match[2].toLowerCase()] : 1;
+    metrics.push({
+      kind: 'metric',
+      text: match[0].trim(),
+      index: match.index ?? 0,
+      value: parseAmount(match[1]) * scale,
+      unit: 'usd',
+    });
+  }
+
+  for (const match of transcript.matchAll(QUANTITY_PATTERN)) {
+    const unitWord = match[2].toLowerCase();
+    const scale = SCALE_WORDS[unitWord];
+    metrics.push({
+      kind: 'metric',
+      text: match[0].trim(),
+      index: match.index ?? 0,
+      value: parseAmount(match[1]) * (scale || 1),
+      unit: scale ? 'count' : UNIT_ALIASES[unitWord],
+    });
+  }
+
+  for (const match of transcript.matchAll(MULTIPLIER_WORD_PATTERN)) {
+    metrics.push({
+      kind: 'metric',
+      text: match[0],
+      index: match.index ?? 0,
+      value: MULTIPLIER_WORDS[match[1].toLowerCase()],
+      unit: 'multiplier',
+    });
+  }
+
+  return metrics;
+}
+
+function findNpsScores(transcript: string): InsightMatch[] {
+  return Array.from(transcript.matchAll(NPS_SCORE_PATTERN), (match) => {
+    const score = match[1].toLowerCase();
+    return {
+      kind: 'nps' as const,
+      text: match[0],
+      index: match.index ?? 0,
+      value: NUMBER_WORDS[score] ?? parseInt(score, 10),
+      unit: null,
+    };
+  });
+}
+
+function findFeatures(transcript: string, vocabulary: string[]): InsightMatch[] {
+  const named = vocabulary.flatMap((term) => {
+    const pattern = vocabularyPattern(term);
+    return Array.from(
+      transcript.matchAll(new RegExp(pattern.source, 'gi')),
+      (match) => ({ kind: 'feature' as const, text: match[0], index: match.index ?? 0, value: null, unit: null })
+    );
+  });
+
+  return [...named, ...collectPatterns(transcript, 'feature', [FEATURE_PATTERN])];
+}
+
+/**
+ * Drop matches inside a longer match of the same kind and repeats of the same kind/text
+ */
+function dedupeMatches(matches: InsightMatch[]): InsightMatch[] {
+  const sorted = [...matches].sort((a, b) => a.index - b.index || b.text.length - a.text.length);
+  const kept: InsightMatch[] = [];
+  const seen = new Set<string>();
+
+  for (const match of sorted) {
+    const overlaps = kept.some(
+      (other) =>
+        other.kind === match.kind &&
+        match.index >= other.index &&
+        match.index + match.text.length <= other.index + other.text.length
+    );
+    const key = `${match.kind}:${match.text.toLowerCase()}`;
+
+    if (overlaps || seen.has(key)) continue;
+
+    seen.add(key);
+    kept.push(match);
+  }
+
+  return kept;
+}
+
+/**
+ * Sentence around a character range
+ */
+function getContext(transcript: string, start: number, end: number): string {
+  const before = transcript.slice(0, start);
+  const sentenceStart = Math.max(
+    before.lastIndexOf('. '),
+    before.lastIndexOf('! '),
+    before.lastIndexOf('? ')
+  );
+  const after = transcript.slice(end).search(/[.!?](\s|$)/);
+  const sentenceEnd = after === -1 ? transcript.length : end + after + 1;
+
+  const sentence = transcript.slice(sentenceStart === -1 ? 0 : sentenceStart + 2, sentenceEnd).trim();
+  return sentence.length > MAX_CONTEXT_LENGTH ? `${sentence.slice(0, MAX_CONTEXT_LENGTH - 3)}...` : sentence;
+}
+
+// ==================== EXTRACTION ====================
+
+/**
+ * Extract typed testimonial insights from a transcription
+ * Patterns are English-only - callers skip other languages
+ *
+ * @param transcription - Normalized transcription (word timings give each record its span)
+ * @param vocabulary - Campaign vocabulary, counted as feature names
+ */
+export function extractInsights(
+  transcription: Transcription,
+  vocabulary: string[] = []
+): TestimonialInsight[] {
+  const words = transcription.words;
+  const hasTimings = words.length > 0;
+
+  // Match against the words joined by spaces so character offsets map back to timings
+  const transcript = hasTimings ? words.map((word) => word.text).join(' ') : transcription.text;
+  const offsets = hasTimings ? getWordOffsets(words) : [];
+
+  const matches = dedupeMatches([
+    ...findMetrics(transcript),
+    ...findNpsScores(transcript),
+    ...findFeatures(transcript, vocabulary),
+    ...collectPatterns(transcript, 'pain', PAIN_PATTERNS),
+    ...collectPatterns(transcript, 'competitor', COMPETITOR_PATTERNS),
+    ...collectPatterns(transcript, 'title', TITLE_PATTERNS),
+    ...collectPatterns(transcript, 'industry', INDUSTRY_PATTERNS),
+  ]);
+
+  return matches.map((match) => {
+    const end = match.index + match.text.length;
+
+    return {
+      kind: match.kind,
+      text: match.text,
+      value: match.value,
+      unit: match.unit,
+      context: getContext(transcript, match.index, end),
+      startSeconds: hasTimings ? words[findWordAt(offsets, match.index)].start : null,
+      endSeconds: hasTimings ? words[findWordAt(offsets, end - 1)].end : null,
+    };
+  });
+}
@@ -0,0 +1,375 @@
+/**
+ * Evaluation Regression Harness
+ * Runs a labelled transcript corpus through the rules engine and scores it per rule ID,
+ * so rule pack edits can be reviewed against data instead of a handful of manual tries
+ * Used by scripts/test-evaluation.ts with the corpus in tests/evaluation/
+ */
+
+import { evaluateWithRules, RulesEvaluationResult } from './rulesEngine';
+import { RulePack } from './rulePack';
+import { FollowUpTurn } from './followUpBudget';
+
+// ==================== TYPES ====================
+
+// What the rules engine should do with an answer
+export type EvaluationOutcome = 'complete' | 'follow_up' | 'ai';
+
+export interface CorpusCase {
+  id: string;
+  question: string;
+  ruleId?: string;            // Question's rule - omit to exercise legacy text matching
+  transcript: string;
+  vocabulary?: string[];
+  language?: string;
+  followUpHistory?: FollowUpTurn[];   // Follow-ups already asked for this take
+  sessionFollowUpCount?: number;      // Follow-ups asked earlier in the session
+  expected: {
+    outcome: EvaluationOutcome;
+    followUpCondition?: string | null; // Which follow-up should fire (null for an AI follow-up)
+    ruleId?: string | null;       // Rule legacy matching should land on (null = fallback config)
+    values?: string[];            // Phrases the extracted value must contain
+  };
+  note?: string;              // Why the case is labelled this way
+}
+
+export interface Corpus {
+  version: 1;
+  cases: CorpusCase[];
+}
+
+export interface CaseResult {
+  id: string;
+  group: string;              // Rule ID the case is scored under ('fallback' for no rule)
+  passed: boolean;
+  failures: string[];         // Human-readable mismatches
+  outcome: EvaluationOutcome;
+  result: RulesEvaluationResult;
+}
+
+export interface RuleMetrics {
+  cases: number;
+  passed: number;
+  completionPrecision: number | null;   // Of answers approved, how many should have been
+  completionRecall: number | null;      // Of answers that should be approved, how many were
+  followUpPrecision: number | null;     // Of follow-ups asked, how many were the right one
+  followUpRecall: number | null;        // Of follow-ups needed, how many were asked correctly
+  valueRecall: number | null;           // Of expected values, how many were extracted
+}
+
+export interface Baseline {
+  version: 1;
+  rules: Record<string, RuleMetrics>;
+  knownFailures: string[];    // Case IDs that are labelled correctly but fail today
+}
+
+export interface RegressionReport {
+  regressions: string[];      // Anything that got worse than the baseline
+  improvements: string[];     // Anything better - update the baseline to lock it in
+}
+
+// Group name for cases scored without a rule
+export const FALLBACK_GROUP = 'fallback';
+
+// Metrics are ratios - ignore float noise when comparing to the baseline
+const METRIC_TOLERANCE = 1e-6;
+
+const METRIC_KEYS = [
+  'completionPrecision',
+  'completionRecall',
+  'followUpPrecision',
+  'followUpRecall',
+  'valueRecall',
+] as const;
+
+// ==================== CORPUS ====================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check the corpus file is well-formed before running it
+ * A typo in a label should fail loudly, not read as a rule regression
+ */
+export function validateCorpus(value: unknown): Corpus {
+  const errors: string[] = [];
+
+  if (!isObject(value) || value.version !== 1 || !Array.isArray(value.cases)) {
+    throw new Error('Corpus must be { version: 1, cases: [...] }');
+  }
+
+  const ids = new Set<string>();
+  const outcomes: EvaluationOutcome[] = ['complete', 'follow_up', 'ai'];
+
+  value.cases.forEach((item: unknown, index: number) => {
+    const path = `cases[${index}]`;
+    if (!isObject(item)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+    if (typeof item.id !== 'string' || item.id.length === 0) {
+      errors.push(`${path}.id is required`);
+    } else if (ids.has(item.id)) {
+      errors.push(`${path}.id "${item.id}" is used twice`);
+    } else {
+      ids.add(item.id);
+    }
+    if (typeof item.question !== 'string' || typeof item.transcript !== 'string') {
+      errors.push(`${path} needs question and transcript strings`);
+    }
+    const expected = item.expected;
+    if (!isObject(expected) || !outcomes.includes(expected.outcome as EvaluationOutcome)) {
+      errors.push(`${path}.expected.outcome must be one of ${outcomes.join(', ')}`);
+    } else if (
+      expected.outcome === 'follow_up' &&
+      typeof expected.followUpCondition !== 'string' &&
+      expected.followUpCondition !== null
+    ) {
+      errors.push(`${path}.expected.followUpCondition is required for follow_up outcomes`);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid corpus:\n  ${errors.join('\n  ')}`);
+  }
+
+  return value as unknown as Corpus;
+}
+
+// ==================== RUNNING ====================
+
+function getOutcome(result: RulesEvaluationResult): EvaluationOutcome {
+  if (result.usedAI) return 'ai';
+  return result.isComplete ? 'complete' : 'follow_up';
+}
+
+function getGroup(testCase: CorpusCase): string {
+  return testCase.ruleId || testCase.expected.ruleId || FALLBACK_GROUP;
+}
+
+/**
+ * Run one case through the rules engine and compare against its labels
+ */
+export function runCase(testCase: CorpusCase, rulePack?: RulePack): CaseResult {
+  const result = evaluateWithRules(testCase.question, testCase.transcript, {
+    vocabulary: testCase.vocabulary,
+    language: testCase.language,
+    ruleId: testCase.ruleId,
+    rulePack,
+    followUps: {
+      history: testCase.followUpHistory || [],
+      sessionCount: testCase.sessionFollowUpCount || 0,
+    },
+  });
+
+  const outcome = getOutcome(result);
+  const expected = testCase.expected;
+  const failures: string[] = [];
+
+  if (outcome !== expected.outcome) {
+    const detail = outcome === 'follow_up' ? ` (${result.followUpCondition})` : '';
+    failures.push(`expected ${expected.outcome}, got ${outcome}${detail}`);
+  } else if (
+    expected.outcome === 'follow_up' &&
+    result.followUpCondition !== expected.followUpCondition
+  ) {
+    failures.push(`expected follow-up ${expected.followUpCondition}, got ${result.followUpCondition}`);
+  }
+
+  if (!testCase.ruleId && expected.ruleId !== undefined && result.ruleId !== expected.ruleId) {
+    failures.push(`expected rule ${expected.ruleId ?? FALLBACK_GROUP}, matched ${result.ruleId ?? FALLBACK_GROUP}`);
+  }
+
+  for (const value of expected.values || []) {
+    if (!result.extractedValue?.toLowerCase().includes(value.toLowerCase())) {
+      failures.push(`missing value "${value}"`);
+    }
+  }
+
+  return {
+    id: testCase.id,
+    group: getGroup(testCase),
+    passed: failures.length === 0,
+    failures,
+    outcome,
+    result,
+  };
+}
+
+/**
+ * Run every case in the corpus
+ */
+export function runCorpus(corpus: Corpus, rulePack?: RulePack): CaseResult[] {
+  return corpus.cases.map((testCase) => runCase(testCase, rulePack));
+}
+
+// ==================== SCORING ====================
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator === 0 ? null : numerator / denominator;
+}
+
+/**
+ * Precision/recall per rule ID
+ */
+export function scoreResults(corpus: Corpus, results: CaseResult[]): Record<string, RuleMetrics> {
+  const casesById = new Map(corpus.cases.map((testCase) => [testCase.id, testCase]));
+  const counts = new Map<string, {
+    cases: number;
+    passed: number;
+    completeExpected: number;
+    completePredicted: number;
+    completeCorrect: number;
+    followUpExpected: number;
+    followUpPredicted: number;
+    followUpCorrect: number;
+    valuesExpected: number;
+    valuesFound: number;
+  }>();
+
+  for (const caseResult of results) {
+    const testCase = casesById.get(caseResult.id)!;
+    const expected = testCase.expected;
+    const count = counts.get(caseResult.group) || {
+      cases: 0,
+      passed: 0,
+      completeExpected: 0,
+      completePredicted: 0,
+      completeCorrect: 0,
+      followUpExpected: 0,
+      followUpPredicted: 0,
+      followUpCorrect: 0,
+      valuesExpected: 0,
+      valuesFound: 0,
+    };
+
+    count.cases++;
+    if (caseResult.passed) count.passed++;
+
+    if (expected.outcome === 'complete') count.completeExpected++;
+    if (caseResult.outcome === 'complete') count.completePredicted++;
+    if (expected.outcome === 'complete' && caseResult.outcome === 'complete') count.completeCorrect++;
+
+    if (expected.outcome === 'follow_up') count.followUpExpected++;
+    if (caseResult.outcome === 'follow_up') count.followUpPredicted++;
+    if (
+      expected.outcome === 'follow_up' &&
+      caseResult.outcome === 'follow_up' &&
+      caseResult.result.followUpCondition === expected.followUpCondition
+    ) {
+      count.followUpCorrect++;
+    }
+
+    const extracted = caseResult.result.extractedValue?.toLowerCase() || '';
+    for (const value of expected.values || []) {
+      count.valuesExpected++;
+      if (extracted.includes(value.toLowerCase())) count.valuesFound++;
+    }
+
+    counts.set(caseResult.group, count);
+  }
+
+  const metrics: Record<string, RuleMetrics> = {};
+
+  for (const group of Array.from(counts.keys()).sort()) {
+    const count = counts.get(group)!;
+    metrics[group] = {
+      cases: count.cases,
+      passed: count.passed,
+      completionPrecision: ratio(count.completeCorrect, count.completePredicted),
+      completionRecall: ratio(count.completeCorrect, count.completeExpected),
+      followUpPrecision: ratio(count.followUpCorrect, count.followUpPredicted),
+      followUpRecall: ratio(count.followUpCorrect, count.followUpExpected),
+      valueRecall: ratio(count.valuesFound, count.valuesExpected),
+    };
+  }
+
+  return metrics;
+}
+
+/**
+ * Snapshot the current results as the new baseline
+ */
+export function createBaseline(metrics: Record<string, RuleMetrics>, results: CaseResult[]): Baseline {
+  return {
+    version: 1,
+    rules: metrics,
+    knownFailures: results.filter((caseResult) => !caseResult.passed).map((caseResult) => caseResult.id).sort(),
+  };
+}
+
+// ==================== COMPARISON ====================
+
+function formatMetric(value: number | null): string {
+  return value === null ? '-' : `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Compare a run against the committed baseline
+ * New failing cases and any per-rule metric that drops are regressions
+ */
+export function compareToBaseline(
+  baseline: Baseline,
+  metrics: Record<string, RuleMetrics>,
+  results: CaseResult[]
+): RegressionReport {
+  const regressions: string[] = [];
+  const improvements: string[] = [];
+  const knownFailures = new Set(baseline.knownFailures);
+
+  for (const caseResult of results) {
+    if (!caseResult.passed && !knownFailures.has(caseResult.id)) {
+      regressions.push(`case ${caseResult.id} [${caseResult.group}]: ${caseResult.failures.join('; ')}`);
+    }
+    if (caseResult.passed && knownFailures.has(caseResult.id)) {
+      improvements.push(`case ${caseResult.id} [${caseResult.group}] now passes`);
+    }
+  }
+
+  for (const [group, current] of Object.entries(metrics)) {
+    const previous = baseline.rules[group];
+    if (!previous) {
+      improvements.push(`rule ${group} is new to the corpus`);
+      continue;
+    }
+
+    for (const key of METRIC_KEYS) {
+      const before = previous[key];
+      const after = current[key];
+      if (before === null || after === null) continue;
+
+      if (after < before - METRIC_TOLERANCE) {
+        regressions.push(`rule ${group}: ${key} ${formatMetric(before)} -> ${formatMetric(after)}`);
+      } else if (after > before + METRIC_TOLERANCE) {
+        improvements.push(`rule ${group}: ${key} ${formatMetric(before)} -> ${formatMetric(after)}`);
+      }
+    }
+  }
+
+  return { regressions, improvements };
+}
+
+/**
+ * Per-rule metrics as a fixed-width table for the console
+ */
+export function formatMetricsTable(metrics: Record<string, RuleMetrics>): string {
+  const header = ['rule', 'cases', 'pass', 'done P', 'done R', 'f/u P', 'f/u R', 'values'];
+  const rows = Object.entries(metrics).map(([group, metric]) => [
+    group,
+    String(metric.cases),
+    String(metric.passed),
+    formatMetric(metric.completionPrecision),
+    formatMetric(metric.completionRecall),
+    formatMetric(metric.followUpPrecision),
+    formatMetric(metric.followUpRecall),
+    formatMetric(metric.valueRecall),
+  ]);
+
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  );
+  const formatRow = (row: string[]) =>
+    row.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))).join('  ');
+
+  return [formatRow(header), widths.map((width) => '-'.repeat(width)).join('  '), ...rows.map(formatRow)].join('\n');
+}
@@ -0,0 +1,263 @@
+/**
+ * Rule Packs
+ * JSON bundles of question rules - the built-in default pack plus per-campaign
+ * overrides stored in campaigns.rule_pack. Packs are validated when loaded so a
+ * bad edit is reported instead of silently changing evaluation
+ */
+
+import defaultRulePackJson from './rulePacks/default.json';
+import { QuestionRule, RuleDetector } from './questionRules';
+
+// ==================== TYPES ====================
+
+export interface RulePack {
+  version: 1;
+  rules: QuestionRule[];
+}
+
+/**
+ * Thrown when a rule pack doesn't match the schema
+ */
+export class RulePackValidationError extends Error {
+  constructor(public errors: string[]) {
+    super(`Invalid rule pack: ${errors.slice(0, 5).join('; ')}${errors.length > 5 ? ` (+${errors.length - 5} more)` : ''}`);
+    this.name = 'RulePackValidationError';
+  }
+}
+
+// ==================== SCHEMA ====================
+
+const RULE_DETECTORS: RuleDetector[] = [
+  'metric',
+  'comparison',
+  'enthusiasm',
+  'pain',
+  'industry',
+  'title',
+  'competitor',
+  'nps',
+  'feature',
+];
+
+const RULE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+const CRITERIA_FLAGS = ['hasMetric', 'hasComparison', 'hasSpecificFeature', 'hasNPSScore'] as const;
+const CRITERIA_LISTS = ['mustMentionAny', 'mustMentionAll'] as const;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string' && item.trim().length > 0);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function checkRegex(value: unknown, path: string, errors: string[]) {
+  if (typeof value !== 'string' || value.length === 0) {
+    errors.push(`${path} must be a non-empty regex string`);
+    return;
+  }
+  try {
+    new RegExp(value, 'i');
+  } catch {
+    errors.push(`${path} is not a valid regex: ${value}`);
+  }
+}
+
+function checkDetectors(value: unknown, path: string, errors: string[]) {
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.push(`${path} must be a non-empty list of detectors`);
+    return;
+  }
+  for (const detector of value) {
+    if (!RULE_DETECTORS.includes(detector as RuleDetector)) {
+      errors.push(`${path} has unknown detector "${detector}" (expected ${RULE_DETECTORS.join(', ')})`);
+    }
+  }
+}
+
+function checkCondition(value: unknown, path: string, errors: string[]) {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+
+  const known = ['matches', 'notMatches', 'has', 'lacks', 'fewerWordsThan', 'any'];
+  const keys = Object.keys(value);
+
+  if (keys.length === 0) {
+    errors.push(`${path} must set at least one of ${known.join(', ')}`);
+  }
+
+  for (const key of keys) {
+    if (!known.includes(key)) {
+      errors.push(`${path}.${key} is not a condition field`);
+    }
+  }
+
+  if (value.matches !== undefined) checkRegex(value.matches, `${path}.matches`, errors);
+  if (value.notMatches !== undefined) checkRegex(value.notMatches, `${path}.notMatches`, errors);
+  if (value.has !== undefined) checkDetectors(value.has, `${path}.has`, errors);
+  if (value.lacks !== undefined) checkDetectors(value.lacks, `${path}.lacks`, errors);
+
+  if (value.fewerWordsThan !== undefined && !isPositiveInteger(value.fewerWordsThan)) {
+    errors.push(`${path}.fewerWordsThan must be a positive integer`);
+  }
+
+  if (value.any !== undefined) {
+    if (!Array.isArray(value.any) || value.any.length === 0) {
+      errors.push(`${path}.any must be a non-empty list of conditions`);
+    } else {
+      value.any.forEach((nested, index) => checkCondition(nested, `${path}.any[${index}]`, errors));
+    }
+  }
+}
+
+function checkRule(value: unknown, path: string, errors: string[]) {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+
+  if (typeof value.id !== 'string' || !RULE_ID_PATTERN.test(value.id)) {
+    errors.push(`${path}.id must be lowercase letters, digits, _ or - (max 64 chars)`);
+  }
+
+  if (typeof value.description !== 'string' || value.description.trim().length === 0) {
+    errors.push(`${path}.description is required`);
+  }
+
+  if (typeof value.extractionGoal !== 'string') {
+    errors.push(`${path}.extractionGoal is required`);
+  }
+
+  if (value.patterns !== undefined && !isStringList(value.patterns)) {
+    errors.push(`${path}.patterns must be a list of phrases`);
+  }
+
+  const criteria = value.completionCriteria;
+  if (!isObject(criteria)) {
+    errors.push(`${path}.completionCriteria must be an object`);
+  } else {
+    if (criteria.minWords !== undefined && !isPositiveInteger(criteria.minWords)) {
+      errors.push(`${path}.completionCriteria.minWords must be a positive integer`);
+    }
+    for (const flag of CRITERIA_FLAGS) {
+      if (criteria[flag] !== undefined && typeof criteria[flag] !== 'boolean') {
+        errors.push(`${path}.completionCriteria.${flag} must be true or false`);
+      }
+    }
+    for (const list of CRITERIA_LISTS) {
+      if (criteria[list] !== undefined && !isStringList(criteria[list])) {
+        errors.push(`${path}.completionCriteria.${list} must be a list of phrases`);
+      }
+    }
+  }
+
+  if (!Array.isArray(value.followUps)) {
+    errors.push(`${path}.followUps must be a list`);
+  } else {
+    const conditions = new Set<string>();
+    value.followUps.forEach((followUp: unknown, index: number) => {
+      const followUpPath = `${path}.followUps[${index}]`;
+      if (!isObject(followUp)) {
+        errors.push(`${followUpPath} must be an object`);
+        return;
+      }
+      if (typeof followUp.condition !== 'string' || followUp.condition.length === 0) {
+        errors.push(`${followUpPath}.condition is required`);
+      } else if (conditions.has(followUp.condition)) {
+        errors.push(`${followUpPath}.condition "${followUp.condition}" is used twice`);
+      } else {
+        conditions.add(followUp.condition);
+      }
+      if (typeof followUp.prompt !== 'string' || followUp.prompt.trim().length === 0) {
+        errors.push(`${followUpPath}.prompt is required`);
+      }
+      checkCondition(followUp.when, `${followUpPath}.when`, errors);
+    });
+  }
+
+  if (value.fastComplete !== undefined) {
+    const fastComplete = value.fastComplete;
+    if (!isObject(fastComplete) || !isStringList(fastComplete.keywords) || fastComplete.keywords.length === 0) {
+      errors.push(`${path}.fastComplete.keywords must be a non-empty list of phrases`);
+    } else if (fastComplete.minWords !== undefined && !isPositiveInteger(fastComplete.minWords)) {
+      errors.push(`${path}.fastComplete.minWords must be a positive integer`);
+    }
+  }
+}
+
+/**
+ * Validate a rule pack against the schema
+ * Throws RulePackValidationError listing every problem found
+ */
+export function validateRulePack(value: unknown): RulePack {
+  const errors: string[] = [];
+
+  if (!isObject(value)) {
+    throw new RulePackValidationError(['rule pack must be an object']);
+  }
+
+  if (value.version !== 1) {
+    errors.push('version must be 1');
+  }
+
+  if (!Array.isArray(value.rules)) {
+    errors.push('rules must be a list');
+  } else {
+    const ids = new Set<string>();
+    value.rules.forEach((rule: unknown, index: number) => {
+      checkRule(rule, `rules[${index}]`, errors);
+      const id = isObject(rule) ? rule.id : undefined;
+      if (typeof id === 'string') {
+        if (ids.has(id)) {
+          errors.push(`rules[${index}].id "${id}" is used twice`);
+        }
+        ids.add(id);
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new RulePackValidationError(errors);
+  }
+
+  return value as unknown as RulePack;
+}
+
+// ==================== PACKS ====================
+
+/**
+ * Built-in rules for the 12 standard interview questions
+ * Validated at module load - a broken default pack fails the build, not an interview
+ */
+export const DEFAULT_RULE_PACK: RulePack = validateRulePack(defaultRulePackJson);
+
+/**
+ * Apply a campaign's rules over a base pack
+ * Rules with the same ID replace the base rule; new IDs are added
+ */
+export function mergeRulePacks(base: RulePack, overrides: RulePack | null): RulePack {
+  if (!overrides || overrides.rules.length === 0) {
+    return base;
+  }
+
+  const overrideIds = new Set(overrides.rules.map((rule) => rule.id));
+
+  return {
+    version: 1,
+    rules: [...base.rules.filter((rule) => !overrideIds.has(rule.id)), ...overrides.rules],
+  };
+}
+
+/**
+ * Look up a rule by ID
+ */
+export function findRuleById(pack: RulePack, ruleId: string): QuestionRule | null {
+  return pack.rules.find((rule) => rule.id === ruleId) || null;
+}
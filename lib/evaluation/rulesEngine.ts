@@ -1,10 +1,9 @@
 /**
  * Rules Engine for Answer Evaluation
- * Evaluates answers using predefined rules before falling back to AI
+ * Evaluates answers using rule pack rules before falling back to AI
  */
 
 import {
-  QUESTION_RULES,
   FALLBACK_CONFIG,
   SOFT_ADJECTIVE_FOLLOW_UPS,
   METRIC_PATTERNS,
@@ -14,18 +13,102 @@ import {
   INDUSTRY_PATTERNS,
   TITLE_PATTERNS,
   NPS_PATTERNS,
+  COMPETITOR_PATTERNS,
   QuestionRule,
+  RuleCondition,
+  RuleDetector,
 } from './questionRules';
+import { DEFAULT_RULE_PACK, findRuleById, RulePack } from './rulePack';
+import {
+  FollowUpContext,
+  FollowUpTurn,
+  getAnsweredConditions,
+  getPendingFollowUp,
+  hasFollowUpBudget,
+  wasAsked,
+} from './followUpBudget';
+import { getBaseLanguage } from '@/lib/i18n/languages';
 
 export interface RulesEvaluationResult {
   isComplete: boolean;
   confidence: number;
   followUp: string | null;
+  followUpCondition: string | null; // Which follow-up fired ('soft_adjective' for the universal catcher)
   extractedValue: string | null;
   ruleId: string | null;      // Which rule was used
   usedAI: boolean;            // Whether AI fallback is needed
 }
 
+/** A testimonial value found in a transcript, with its character position */
+export interface ValueMatch {
+  kind: 'metric' | 'quote' | 'pain' | 'title' | 'industry' | 'feature';
+  text: string;
+  index: number;
+}
+
+// Concrete metric phrase ("40%", "3 hours", "2x")
+const METRIC_VALUE_PATTERN = /\d+\s*(%|percent|x|times|hours?|days?|minutes?|weeks?|k|thousand|million|\$)/i;
+
+// Named product capabilities
+export const FEATURE_PATTERN = /(reporting|dashboard|analytics|automation|integration|workflow|api|notification|alert|export|import|sync|template|scheduler|trigger)/i;
+
+// Follow-up condition reported when the universal soft adjective catcher fires
+export const SOFT_ADJECTIVE_CONDITION = 'soft_adjective';
+
+// Campaign vocabulary limits (terms come from the client during live evaluation)
+const MAX_VOCABULARY_TERMS = 100;
+const MAX_VOCABULARY_TERM_LENGTH = 60;
+
+export interface RulesEvaluationOptions {
+  /** Campaign vocabulary - the company's real product, feature and competitor names */
+  vocabulary?: string[];
+  /** Answer language - rules are English-only, other languages go straight to AI */
+  language?: string;
+  /** Rule the question is tied to - questions without one are matched by their text */
+  ruleId?: string | null;
+  /** Campaign rule pack (defaults to the built-in pack) */
+  rulePack?: RulePack;
+  /** Follow-ups already asked for this question and earlier in the session */
+  followUps?: FollowUpContext;
+}
+
+/**
+ * Clean up a vocabulary list from the database or a request body
+ */
+export function normalizeVocabulary(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const terms = value
+    .filter((term): term is string => typeof term === 'string')
+    .map(term => term.trim())
+    .filter(term => term.length > 0 && term.length <= MAX_VOCABULARY_TERM_LENGTH);
+
+  return Array.from(new Set(terms)).slice(0, MAX_VOCABULARY_TERMS);
+}
+
+/**
+ * Whole-word pattern for a vocabulary term ("Auto Scheduler" won't match inside another word)
+ */
+export function vocabularyPattern(term: string): RegExp {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return new RegExp(`(?<![\\w])${escaped}(?![\\w])`, 'i');
+}
+
+/**
+ * First campaign vocabulary term mentioned in the text
+ */
+function findVocabularyTerm(text: string, vocabulary: string[]): string | null {
+  for (const term of vocabulary) {
+    const match = text.match(vocabularyPattern(term));
+    if (match) {
+      return match[0];
+    }
+  }
+  return null;
+}
+
 /**
  * Check if text contains any metric patterns
  */
@@ -70,14 +153,18 @@ function hasTitle(text: string): boolean {
 
 /**
  * Check if text contains a specific feature name (not generic praise)
+ * Any term from the campaign vocabulary counts as specific
  */
-function hasSpecificFeature(text: string): boolean {
+function hasSpecificFeature(text: string, vocabulary: string[] = []): boolean {
+  if (findVocabularyTerm(text, vocabulary)) {
+    return true;
+  }
+
   // Must mention something specific, not just "ease of use" or "everything"
   const genericPhrases = /(everything|all of it|ease of use|user friendly|simple|the whole thing)/i;
-  const specificFeature = /(reporting|dashboard|analytics|automation|integration|workflow|api|notification|alert|export|import|sync|template|scheduler|trigger)/i;
 
   // Has specific feature name and not just generic praise
-  return specificFeature.test(text) ||
+  return FEATURE_PATTERN.test(text) ||
     (/(the |our )?\w+( feature| tool| functionality| capability| module)/i.test(text) && !genericPhrases.test(text));
 }
 
@@ -91,9 +178,14 @@ function hasNPSScore(text: string): boolean {
 /**
  * Check for soft adjectives without specifics (universal catcher)
  * Returns a follow-up prompt if a soft adjective is found without supporting details
+ * Prompts already asked for this question are skipped
  */
-function checkSoftAdjectives(text: string): string | null {
+function checkSoftAdjectives(text: string, followUps: FollowUpContext): string | null {
   for (const rule of SOFT_ADJECTIVE_FOLLOW_UPS) {
+    if (wasAsked(followUps, rule.followUp)) {
+      continue;
+    }
+
     // Check if the adjective is present
     if (rule.adjectives.test(text)) {
       // Check if they already provided specifics (exclusion pattern)
@@ -107,18 +199,86 @@ function checkSoftAdjectives(text: string): string | null {
 }
 
 /**
- * Find the best matching rule for a question
+ * Check if text names a competitor or alternative tool
  */
-function findMatchingRule(question: string): QuestionRule | null {
+function hasCompetitor(text: string): boolean {
+  return COMPETITOR_PATTERNS.some(pattern => pattern.test(text));
+}
+
+const DETECTORS: Record<RuleDetector, (text: string, vocabulary: string[]) => boolean> = {
+  metric: hasMetric,
+  comparison: hasComparison,
+  enthusiasm: hasEnthusiasm,
+  pain: hasPainPoint,
+  industry: hasIndustry,
+  title: hasTitle,
+  competitor: hasCompetitor,
+  nps: hasNPSScore,
+  feature: hasSpecificFeature,
+};
+
+// Compiled condition regexes - packs are cached, so the same strings come back every answer
+const conditionRegexCache = new Map<string, RegExp>();
+
+function conditionRegex(source: string): RegExp {
+  let regex = conditionRegexCache.get(source);
+  if (!regex) {
+    regex = new RegExp(source, 'i');
+    conditionRegexCache.set(source, regex);
+  }
+  return regex;
+}
+
+/**
+ * Check a follow-up condition against an answer
+ */
+function checkCondition(
+  condition: RuleCondition,
+  transcript: string,
+  words: string[],
+  vocabulary: string[]
+): boolean {
+  if (condition.fewerWordsThan !== undefined && words.length >= condition.fewerWordsThan) {
+    return false;
+  }
+
+  if (condition.matches && !conditionRegex(condition.matches).test(transcript)) {
+    return false;
+  }
+
+  if (condition.notMatches && conditionRegex(condition.notMatches).test(transcript)) {
+    return false;
+  }
+
+  if (condition.has && !condition.has.every(detector => DETECTORS[detector](transcript, vocabulary))) {
+    return false;
+  }
+
+  if (condition.lacks && condition.lacks.some(detector => DETECTORS[detector](transcript, vocabulary))) {
+    return false;
+  }
+
+  if (condition.any && !condition.any.some(nested => checkCondition(nested, transcript, words, vocabulary))) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Legacy: find the best matching rule for a question by its text
+ * Only used for questions saved before rules were referenced by ID
+ */
+function findMatchingRule(question: string, rules: QuestionRule[]): QuestionRule | null {
   const lowerQuestion = question.toLowerCase();
 
   // Score each rule by how many patterns match
   let bestRule: QuestionRule | null = null;
   let bestScore = 0;
 
-  for (const rule of QUESTION_RULES) {
+  for (const rule of rules) {
     let score = 0;
-    for (const pattern of rule.patterns) {
+    for (const pattern of rule.patterns || []) {
       if (lowerQuestion.includes(pattern)) {
         score += pattern.length; // Longer matches = higher score
       }
@@ -132,15 +292,36 @@ function findMatchingRule(question: string): QuestionRule | null {
   return bestRule;
 }
 
+/**
+ * Rule for a question - its explicit rule ID, else the legacy text match
+ */
+function resolveRule(question: string, options: RulesEvaluationOptions): QuestionRule | null {
+  const pack = options.rulePack || DEFAULT_RULE_PACK;
+
+  if (options.ruleId) {
+    const rule = findRuleById(pack, options.ruleId);
+    if (!rule) {
+      console.warn(`⚠️ [RulesEngine] Rule "${options.ruleId}" not in rule pack, using fallback config`);
+    }
+    return rule;
+  }
+
+  return findMatchingRule(question, pack.rules);
+}
+
 /**
  * Extract what testimonial value was captured
  */
-function extractValue(transcript: string, rule: QuestionRule | null): string | null {
+function extractValue(
+  transcript: string,
+  rule: QuestionRule | null,
+  vocabulary: string[] = []
+): string | null {
   const values: string[] = [];
 
   // Extract metrics (time, %, money, etc.)
   if (hasMetric(transcript)) {
-    const metricMatch = transcript.match(/\d+\s*(%|percent|x|times|hours?|days?|minutes?|weeks?|k|thousand|million|\$)/i);
+    const metricMatch = transcript.match(METRIC_VALUE_PATTERN);
     if (metricMatch) {
       values.push(`Metric: "${metricMatch[0]}"`);
     }
@@ -203,11 +384,11 @@ function extractValue(transcript: string, rule: QuestionRule | null): string | n
     }
   }
 
-  // Extract specific feature names
-  if (hasSpecificFeature(transcript)) {
-    const featureMatch = transcript.match(/(reporting|dashboard|analytics|automation|integration|workflow|api|notification|alert|export|import|sync|template|scheduler|trigger)/i);
-    if (featureMatch) {
-      values.push(`Feature: "${featureMatch[0]}"`);
+  // Extract specific feature names - the company's own names first
+  if (hasSpecificFeature(transcript, vocabulary)) {
+    const featureName = findVocabularyTerm(transcript, vocabulary) || transcript.match(FEATURE_PATTERN)?.[0];
+    if (featureName) {
+      values.push(`Feature: "${featureName}"`);
     }
   }
 
@@ -221,20 +402,110 @@ function extractValue(transcript: string, rule: QuestionRule | null): string | n
   return values.join('; ');
 }
 
+/**
+ * Find every testimonial value in a transcript with its position
+ * Same patterns as extractValue, but keeps all matches so callers can map
+ * them back to word timings (e.g. soundbite extraction)
+ */
+export function findValueMatches(transcript: string): ValueMatch[] {
+  const matches: ValueMatch[] = [];
+
+  const collect = (kind: ValueMatch['kind'], patterns: RegExp[]) => {
+    for (const pattern of patterns) {
+      const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+      for (const match of transcript.matchAll(global)) {
+        if (match[0].trim().length > 0) {
+          matches.push({ kind, text: match[0], index: match.index ?? 0 });
+        }
+      }
+    }
+  };
+
+  collect('metric', [METRIC_VALUE_PATTERN]);
+  collect('quote', ENTHUSIASM_PATTERNS);
+  collect('pain', PAIN_PATTERNS);
+  collect('title', TITLE_PATTERNS);
+  collect('industry', INDUSTRY_PATTERNS);
+  collect('feature', [FEATURE_PATTERN]);
+
+  return matches.sort((a, b) => a.index - b.index);
+}
+
 /**
  * Evaluate an answer using the rules engine
  * Returns result if rules can handle it, or signals to use AI
  */
 export function evaluateWithRules(
   question: string,
-  transcript: string
+  transcript: string,
+  options: RulesEvaluationOptions = {}
 ): RulesEvaluationResult {
+  const vocabulary = options.vocabulary || [];
+
+  // Patterns and follow-up prompts are written in English - let the AI judge other languages
+  if (options.language && getBaseLanguage(options.language) !== 'en') {
+    console.log(`🌐 [RulesEngine] Non-English answer (${options.language}), using AI`);
+    return {
+      isComplete: false,
+      confidence: 0,
+      followUp: null,
+      followUpCondition: null,
+      extractedValue: null,
+      ruleId: null,
+      usedAI: true,
+    };
+  }
   const words = transcript.trim().split(/\s+/).filter(w => w.length > 0);
   const wordCount = words.length;
   const lowerTranscript = transcript.toLowerCase();
 
-  // Find matching rule
-  const rule = findMatchingRule(question);
+  // Find the question's rule
+  const rule = resolveRule(question, options);
+
+  // Conversation memory - answered follow-ups count as satisfied, and nothing is asked twice
+  const followUps = options.followUps || { history: [], sessionCount: 0 };
+  const answeredConditions = getAnsweredConditions(followUps);
+  const pendingFollowUp = getPendingFollowUp(followUps);
+
+  // Ask a follow-up if the budget allows, otherwise approve what we have
+  const askFollowUp = (prompt: string, condition: string, confidence: number): RulesEvaluationResult => {
+    if (!hasFollowUpBudget(followUps)) {
+      console.log(`🧮 [RulesEngine] Follow-up budget spent, approving instead of asking: ${condition}`);
+      return {
+        isComplete: true,
+        confidence: 60,
+        followUp: null,
+        followUpCondition: null,
+        extractedValue: extractValue(transcript, rule, vocabulary),
+        ruleId: rule?.id || null,
+        usedAI: false,
+      };
+    }
+
+    return {
+      isComplete: false,
+      confidence,
+      followUp: prompt,
+      followUpCondition: condition,
+      extractedValue: null,
+      ruleId: rule?.id || null,
+      usedAI: false,
+    };
+  };
+
+  // Still waiting on the last follow-up - keep showing it rather than asking another
+  const repeatPendingFollowUp = (pending: FollowUpTurn): RulesEvaluationResult => {
+    console.log(`⏳ [RulesEngine] Waiting on follow-up answer: ${pending.condition || pending.prompt}`);
+    return {
+      isComplete: false,
+      confidence: 40,
+      followUp: pending.prompt,
+      followUpCondition: pending.condition,
+      extractedValue: null,
+      ruleId: rule?.id || null,
+      usedAI: false,
+    };
+  };
 
   // =========================================
   // CASE 1: Matching rule found
@@ -253,7 +524,8 @@ export function evaluateWithRules(
           isComplete: true,
           confidence: 85,
           followUp: null,
-          extractedValue: extractValue(transcript, rule),
+          followUpCondition: null,
+          extractedValue: extractValue(transcript, rule, vocabulary),
           ruleId: rule.id,
           usedAI: false,
         };
@@ -300,7 +572,7 @@ export function evaluateWithRules(
       }
     }
 
-    if (criteria.hasSpecificFeature && !hasSpecificFeature(transcript)) {
+    if (criteria.hasSpecificFeature && !hasSpecificFeature(transcript, vocabulary)) {
       meetsAllCriteria = false;
       failedCriteria.push('hasSpecificFeature');
     }
@@ -317,24 +589,26 @@ export function evaluateWithRules(
         isComplete: true,
         confidence: 80,
         followUp: null,
-        extractedValue: extractValue(transcript, rule),
+        followUpCondition: null,
+        extractedValue: extractValue(transcript, rule, vocabulary),
         ruleId: rule.id,
         usedAI: false,
       };
     }
 
-    // Check follow-up conditions
+    if (pendingFollowUp) {
+      return repeatPendingFollowUp(pendingFollowUp);
+    }
+
+    // Check follow-up conditions - ones the respondent already answered are satisfied
     for (const followUp of rule.followUps) {
-      if (followUp.checkFn && followUp.checkFn(transcript, words)) {
+      if (answeredConditions.has(followUp.condition) || wasAsked(followUps, followUp.prompt)) {
+        continue;
+      }
+
+      if (checkCondition(followUp.when, transcript, words, vocabulary)) {
         console.log(`💬 [RulesEngine] Follow-up triggered: ${followUp.condition}`);
-        return {
-          isComplete: false,
-          confidence: 40,
-          followUp: followUp.prompt,
-          extractedValue: null,
-          ruleId: rule.id,
-          usedAI: false,
-        };
+        return askFollowUp(followUp.prompt, followUp.condition, 40);
       }
     }
 
@@ -342,16 +616,9 @@ export function evaluateWithRules(
     // UNIVERSAL SOFT ADJECTIVE CATCHER
     // Catches vague adjectives across ALL questions
     // =========================================
-    const softAdjectiveFollowUp = checkSoftAdjectives(transcript);
+    const softAdjectiveFollowUp = checkSoftAdjectives(transcript, followUps);
     if (softAdjectiveFollowUp) {
-      return {
-        isComplete: false,
-        confidence: 35,
-        followUp: softAdjectiveFollowUp,
-        extractedValue: null,
-        ruleId: rule.id,
-        usedAI: false,
-      };
+      return askFollowUp(softAdjectiveFollowUp, SOFT_ADJECTIVE_CONDITION, 35);
     }
 
     // If we have some content but criteria not fully met,
@@ -362,7 +629,8 @@ export function evaluateWithRules(
         isComplete: true,
         confidence: 70,
         followUp: null,
-        extractedValue: extractValue(transcript, rule),
+        followUpCondition: null,
+        extractedValue: extractValue(transcript, rule, vocabulary),
         ruleId: rule.id,
         usedAI: false,
       };
@@ -374,6 +642,7 @@ export function evaluateWithRules(
       isComplete: false,
       confidence: 0,
       followUp: null,
+      followUpCondition: null,
       extractedValue: null,
       ruleId: rule.id,
       usedAI: true, // Signal to use AI
@@ -385,17 +654,10 @@ export function evaluateWithRules(
   // =========================================
   console.log(`📋 [RulesEngine] No rule matched, using fallback config`);
 
-  // First, check for soft adjectives (universal catcher)
-  const fallbackSoftAdjectiveFollowUp = checkSoftAdjectives(transcript);
+  // First, check for soft adjectives (universal catcher) - unless a follow-up is still being answered
+  const fallbackSoftAdjectiveFollowUp = pendingFollowUp ? null : checkSoftAdjectives(transcript, followUps);
   if (fallbackSoftAdjectiveFollowUp) {
-    return {
-      isComplete: false,
-      confidence: 35,
-      followUp: fallbackSoftAdjectiveFollowUp,
-      extractedValue: null,
-      ruleId: null,
-      usedAI: false,
-    };
+    return askFollowUp(fallbackSoftAdjectiveFollowUp, SOFT_ADJECTIVE_CONDITION, 35);
   }
 
   // Check if answer is substantial enough with enthusiasm/metrics
@@ -408,7 +670,8 @@ export function evaluateWithRules(
       isComplete: true,
       confidence: 75,
       followUp: null,
-      extractedValue: extractValue(transcript, null),
+      followUpCondition: null,
+      extractedValue: extractValue(transcript, null, vocabulary),
       ruleId: null,
       usedAI: false,
     };
@@ -421,7 +684,8 @@ export function evaluateWithRules(
       isComplete: true,
       confidence: 75,
       followUp: null,
-      extractedValue: extractValue(transcript, null),
+      followUpCondition: null,
+      extractedValue: extractValue(transcript, null, vocabulary),
       ruleId: null,
       usedAI: false,
     };
@@ -434,18 +698,24 @@ export function evaluateWithRules(
       isComplete: true,
       confidence: 65,
       followUp: null,
-      extractedValue: extractValue(transcript, null),
+      followUpCondition: null,
+      extractedValue: extractValue(transcript, null, vocabulary),
       ruleId: null,
       usedAI: false,
     };
   }
 
+  if (pendingFollowUp) {
+    return repeatPendingFollowUp(pendingFollowUp);
+  }
+
   // Not enough info to decide - use AI for nuanced evaluation
   console.log(`🤖 [RulesEngine] Fallback inconclusive, using AI`);
   return {
     isComplete: false,
     confidence: 0,
     followUp: null,
+    followUpCondition: null,
     extractedValue: null,
     ruleId: null,
     usedAI: true,
@@ -3,7 +3,7 @@
  * Utility for using Gemini API in the Shine project
  */
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { GenerationConfig, GoogleGenerativeAI } from "@google/generative-ai";
 
 // Initialize the Gemini API client
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
@@ -11,9 +11,13 @@ const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
 /**
  * Get a Gemini model instance
  * @param modelName - The model to use (default: gemini-2.5-flash)
+ * @param generationConfig - Optional output settings (e.g. a JSON response schema)
  */
-export function getGeminiModel(modelName: string = "gemini-2.5-flash") {
-  return genAI.getGenerativeModel({ model: modelName });
+export function getGeminiModel(
+  modelName: string = "gemini-2.5-flash",
+  generationConfig?: GenerationConfig
+) {
+  return genAI.getGenerativeModel({ model: modelName, generationConfig });
 }
 
 /**
@@ -44,69 +48,51 @@ export async function generateContent(
 }
 
 /**
- * Evaluate an interview answer using Gemini
- * @param question - The interview question
- * @param answer - The user's answer (transcript)
- * @param context - Optional context about the question
+ * Translate caption lines, keeping one output line per input line
+ * @param lines - Caption text in the source language
+ * @param targetLanguage - Language name to translate into (e.g. "Spanish")
+ * @param sourceLanguage - Language name of the captions (e.g. "English")
  */
-export async function evaluateAnswer(
-  question: string,
-  answer: string,
-  context?: string
-) {
-  const prompt = `You are an AI interview producer evaluating video testimonial answers.
-
-Question: ${question}
-${context ? `Context: ${context}` : ""}
+export async function translateLines(
+  lines: string[],
+  targetLanguage: string,
+  sourceLanguage: string
+): Promise<string[]> {
+  if (lines.length === 0) {
+    return [];
+  }
 
-User's Answer:
-${answer}
+  const prompt = `Translate these video caption lines from ${sourceLanguage} to ${targetLanguage}.
+They are consecutive lines of a customer testimonial - keep the speaker's tone and keep product, feature and company names unchanged.
+Each line is shown on screen on its own, so translate line by line and never merge or split lines.
 
-Evaluate this answer based on:
-1. Completeness - Does it fully answer the question?
-2. Clarity - Is it well-articulated and easy to understand?
-3. Length - Is it an appropriate length (30-90 seconds when spoken)?
-4. Marketing value - Would this make good marketing content?
+Lines (JSON array):
+${JSON.stringify(lines)}
 
-Respond in JSON format:
-{
-  "score": <number 0-100>,
-  "isComplete": <boolean>,
-  "feedback": "<brief feedback>",
-  "followUp": "<optional follow-up question if score < 80, otherwise null>"
-}`;
+Respond with ONLY a JSON array of ${lines.length} translated strings, in the same order.`;
 
-  try {
-    const result = await generateContent(prompt);
+  const result = await generateContent(prompt);
 
-    if (!result.success) {
-      throw new Error(result.error);
-    }
+  if (!result.success) {
+    throw new Error(result.error);
+  }
 
-    // Parse JSON response
-    const jsonMatch = result.text?.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error("Invalid response format from Gemini");
-    }
+  const jsonMatch = result.text?.match(/\[[\s\S]*\]/);
+  if (!jsonMatch) {
+    throw new Error("Invalid response format from Gemini");
+  }
 
-    const evaluation = JSON.parse(jsonMatch[0]);
+  const translated = JSON.parse(jsonMatch[0]);
 
-    return {
-      success: true,
-      evaluation: {
-        score: evaluation.score || 0,
-        isComplete: evaluation.isComplete || false,
-        feedback: evaluation.feedback || "",
-        followUp: evaluation.followUp || null,
-      },
-    };
-  } catch (error) {
-    console.error("Error evaluating answer:", error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Evaluation failed",
-    };
+  if (
+    !Array.isArray(translated) ||
+    translated.length !== lines.length ||
+    !translated.every((line) => typeof line === "string")
+  ) {
+    throw new Error(`Gemini returned ${Array.isArray(translated) ? translated.length : 0} lines for ${lines.length}`);
   }
+
+  return translated;
 }
 
 /**
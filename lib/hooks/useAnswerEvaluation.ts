@@ -4,35 +4,108 @@
  */
 
 import { useState, useRef, useCallback, useEffect } from 'react';
+import { getSpeechLocale } from '@/lib/i18n/languages';
+import type { EvaluatorProvider } from '@/lib/evaluation/answerEvaluator';
+import { FollowUpTurn } from '@/lib/evaluation/followUpBudget';
 
 export interface EvaluationResult {
   isComplete: boolean;
   confidence: number;
   followUp: string | null;
+  followUpCondition?: string | null; // Rule condition the follow-up targets
+  evaluatedBy?: 'rules' | 'ai' | 'error';
+  ruleId?: string | null; // Rule that decided (or was attempted before AI)
+  provider?: EvaluatorProvider | null; // AI evaluator that decided
+}
+
+/** A follow-up shown during the current take, and where the transcript stood when it appeared */
+interface AskedFollowUp {
+  condition: string | null;
+  prompt: string;
+  askedAt: number; // Transcript length when it was asked
+}
+
+export interface ListeningOptions {
+  vocabulary?: string[]; // Campaign product/feature names
+  language?: string; // Interview language - picks the recognizer and evaluation language
+  campaignId?: string; // Loads the campaign's rule pack
+  ruleId?: string; // Rule the question is evaluated against
+  questionId?: string; // Keys the follow-up history (defaults to the question text)
 }
 
 export interface UseAnswerEvaluationResult {
   isListening: boolean;
   transcript: string;
   evaluation: EvaluationResult | null;
+  streamingFollowUp: string | null; // AI follow-up as it's being written (cleared by the final result)
   isEvaluating: boolean;
-  startListening: (question: string, questionContext?: string) => void;
+  isPaused: boolean;
+  startListening: (question: string, questionContext?: string, options?: ListeningOptions) => void;
   stopListening: () => void;
+  pauseListening: () => void; // Temporarily stop recognition (e.g. while the AI Producer speaks)
+  resumeListening: () => void;
   resetEvaluation: () => void;
 }
 
+/**
+ * Read the NDJSON evaluation stream - partial follow-up lines, then the result
+ */
+async function readEvaluationStream(
+  response: Response,
+  onFollowUpText: (text: string) => void
+): Promise<EvaluationResult | null> {
+  if (!response.body) {
+    return null;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let result: EvaluationResult | null = null;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    const { type, ...data } = JSON.parse(line);
+    if (type === 'follow_up_partial') {
+      onFollowUpText(data.text);
+    } else if (type === 'result') {
+      result = data as EvaluationResult;
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer);
+
+  return result;
+}
+
 export function useAnswerEvaluation(): UseAnswerEvaluationResult {
   const [isListening, setIsListening] = useState(false);
   const [transcript, setTranscript] = useState('');
   const [evaluation, setEvaluation] = useState<EvaluationResult | null>(null);
+  const [streamingFollowUp, setStreamingFollowUp] = useState<string | null>(null);
   const [isEvaluating, setIsEvaluating] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
 
   const recognitionRef = useRef<any | null>(null); // Web Speech API type not available in build environment
   const evaluationIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const currentQuestionRef = useRef<string>('');
   const currentContextRef = useRef<string>('');
+  const optionsRef = useRef<ListeningOptions>({});
   const transcriptRef = useRef<string>(''); // Keep ref in sync for interval access
   const lastEvaluatedTranscriptRef = useRef<string>(''); // Avoid duplicate evaluations
+  const isPausedRef = useRef<boolean>(false); // Prevent auto-restart while paused
+  const currentQuestionKeyRef = useRef<string>('');
+  const followUpsByQuestionRef = useRef<Map<string, AskedFollowUp[]>>(new Map()); // Current take per question
+  const sessionFollowUpCountRef = useRef(0); // Every follow-up asked this session - retakes don't undo them
 
   // Keep transcript ref in sync
   useEffect(() => {
@@ -55,6 +128,17 @@ export function useAnswerEvaluation(): UseAnswerEvaluationResult {
     lastEvaluatedTranscriptRef.current = currentTranscript;
     setIsEvaluating(true);
 
+    // Follow-ups already asked this take, each with what was said after it
+    const questionKey = currentQuestionKeyRef.current;
+    const asked = followUpsByQuestionRef.current.get(questionKey) || [];
+    const followUpHistory: FollowUpTurn[] = asked.map((followUp, index) => ({
+      condition: followUp.condition,
+      prompt: followUp.prompt,
+      answer: currentTranscript.slice(followUp.askedAt, asked[index + 1]?.askedAt).trim(),
+    }));
+    // The evaluator adds this take's history on top
+    const sessionFollowUpCount = sessionFollowUpCountRef.current - asked.length;
+
     try {
       const response = await fetch('/api/evaluate-answer', {
         method: 'POST',
@@ -63,11 +147,39 @@ export function useAnswerEvaluation(): UseAnswerEvaluationResult {
           question: currentQuestionRef.current,
           transcript: currentTranscript,
           questionContext: currentContextRef.current,
+          vocabulary: optionsRef.current.vocabulary,
+          language: optionsRef.current.language,
+          campaignId: optionsRef.current.campaignId,
+          ruleId: optionsRef.current.ruleId,
+          followUpHistory,
+          sessionFollowUpCount,
+          stream: true,
         }),
       });
 
       if (response.ok) {
-        const result = await response.json();
+        // Show an AI follow-up while it's written, unless this take has moved on
+        const result = await readEvaluationStream(response, (text) => {
+          if (currentQuestionKeyRef.current === questionKey) {
+            setStreamingFollowUp(text);
+          }
+        });
+        setStreamingFollowUp(null);
+
+        if (!result) {
+          return;
+        }
+
+        // Remember new follow-ups so the evaluator doesn't ask them again
+        const latest = followUpsByQuestionRef.current.get(questionKey);
+        if (result.followUp && latest && !latest.some((followUp) => followUp.prompt === result.followUp)) {
+          followUpsByQuestionRef.current.set(questionKey, [
+            ...latest,
+            { condition: result.followUpCondition ?? null, prompt: result.followUp, askedAt: currentTranscript.length },
+          ]);
+          sessionFollowUpCountRef.current++;
+        }
+
         setEvaluation(result);
         console.log('📊 Evaluation result:', result);
       }
@@ -79,14 +191,22 @@ export function useAnswerEvaluation(): UseAnswerEvaluationResult {
   }, []);
 
   // Start listening and evaluating
-  const startListening = useCallback((question: string, questionContext?: string) => {
+  const startListening = useCallback((question: string, questionContext?: string, options: ListeningOptions = {}) => {
     // Store question for evaluation
     currentQuestionRef.current = question;
     currentContextRef.current = questionContext || '';
+    optionsRef.current = options;
+
+    // A new take starts the question's follow-up history over (the session count keeps them)
+    currentQuestionKeyRef.current = options.questionId || question;
+    followUpsByQuestionRef.current.set(currentQuestionKeyRef.current, []);
 
     // Reset state
     setTranscript('');
     setEvaluation(null);
+    setStreamingFollowUp(null);
+    setIsPaused(false);
+    isPausedRef.current = false;
     transcriptRef.current = '';
     lastEvaluatedTranscriptRef.current = '';
 
@@ -104,7 +224,7 @@ export function useAnswerEvaluation(): UseAnswerEvaluationResult {
 
     recognition.continuous = true;
     recognition.interimResults = true;
-    recognition.lang = 'en-US';
+    recognition.lang = getSpeechLocale(options.language);
 
     let finalTranscript = '';
 
@@ -140,7 +260,7 @@ export function useAnswerEvaluation(): UseAnswerEvaluationResult {
     recognition.onend = () => {
       console.log('🎤 Speech recognition ended');
       // Restart if we're still supposed to be listening
-      if (recognitionRef.current && isListening) {
+      if (recognitionRef.current && isListening && !isPausedRef.current) {
         try {
           recognition.start();
         } catch (e) {
@@ -177,13 +297,46 @@ export function useAnswerEvaluation(): UseAnswerEvaluationResult {
       evaluationIntervalRef.current = null;
     }
 
+    isPausedRef.current = false;
+    setIsPaused(false);
     setIsListening(false);
   }, []);
 
+  // Pause recognition without losing the transcript so far
+  const pauseListening = useCallback(() => {
+    if (!recognitionRef.current || isPausedRef.current) return;
+
+    console.log('⏸️ Pausing speech recognition');
+    isPausedRef.current = true;
+    setIsPaused(true);
+
+    try {
+      recognitionRef.current.stop();
+    } catch (e) {
+      console.log('Could not pause recognition');
+    }
+  }, []);
+
+  // Resume recognition after a pause - results keep appending to the same transcript
+  const resumeListening = useCallback(() => {
+    if (!recognitionRef.current || !isPausedRef.current) return;
+
+    console.log('▶️ Resuming speech recognition');
+    isPausedRef.current = false;
+    setIsPaused(false);
+
+    try {
+      recognitionRef.current.start();
+    } catch (e) {
+      console.log('Could not resume recognition');
+    }
+  }, []);
+
   // Reset evaluation state
   const resetEvaluation = useCallback(() => {
     setTranscript('');
     setEvaluation(null);
+    setStreamingFollowUp(null);
     setIsEvaluating(false);
     transcriptRef.current = '';
     lastEvaluatedTranscriptRef.current = '';
@@ -205,9 +358,13 @@ export function useAnswerEvaluation(): UseAnswerEvaluationResult {
     isListening,
     transcript,
     evaluation,
+    streamingFollowUp,
     isEvaluating,
+    isPaused,
     startListening,
     stopListening,
+    pauseListening,
+    resumeListening,
     resetEvaluation,
   };
 }
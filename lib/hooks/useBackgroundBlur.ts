@@ -17,6 +17,7 @@
  */
 
 import { useState, useRef, useEffect, useCallback } from "react";
+import { FramingHint } from "@/lib/types/interview";
 
 // =============================================================================
 // CONSTANTS
@@ -34,6 +35,9 @@ const FRAMING_ANALYSIS_INTERVAL = 15;
 /** Debounce time for framing state changes (ms) - prevents flickering */
 const FRAMING_DEBOUNCE_MS = 3000;
 
+/** Face center as a fraction of the person mask height, from the top */
+const FACE_HEIGHT_RATIO = 0.2;
+
 /** Minimum pixel count to consider person detected */
 const MIN_PERSON_PIXELS = 10;
 
@@ -209,6 +213,10 @@ export interface UseBackgroundBlurResult {
   error: string | null;
   /** Whether person is properly framed in camera */
   isProperlyFramed: boolean;
+  /** Average face position since the last reset (crop hint for vertical/square renders) */
+  getFramingHint: () => FramingHint | null;
+  /** Start a new framing average (call when a recording starts) */
+  resetFramingHint: () => void;
   /** Toggle blur on/off */
   toggleBlur: () => void;
   /** Set blur enabled state */
@@ -566,16 +574,25 @@ function analyzeLighting(
   return "good";
 }
 
+/** Result of analyzing one segmentation mask */
+interface FramingAnalysis {
+  /** Whether person is centered and appropriately sized */
+  isFramed: boolean;
+  /** Approximate face position (0-1, relative to frame) */
+  faceX: number;
+  faceY: number;
+}
+
 /**
  * Analyze segmentation mask to determine if person is properly framed
- * Returns true if person is centered and appropriately sized
+ * Returns null when no person is detected
  */
 function analyzeFraming(
   maskCtx: CanvasRenderingContext2D,
   mask: CanvasImageSource,
   width: number,
   height: number
-): boolean {
+): FramingAnalysis | null {
   // Draw mask to canvas for pixel analysis
   maskCtx.clearRect(0, 0, width, height);
   maskCtx.drawImage(mask, 0, 0, width, height);
@@ -607,7 +624,7 @@ function analyzeFraming(
 
   // No person detected
   if (pixelCount < MIN_PERSON_PIXELS) {
-    return false;
+    return null;
   }
 
   // Calculate relative positions (0-1 range)
@@ -625,7 +642,12 @@ function analyzeFraming(
   const isHorizontallyCentered = personCenterX > 0.3 && personCenterX < 0.7;
   const isVerticallyCentered = personCenterY > 0.25 && personCenterY < 0.65;
 
-  return isGoodSize && isHorizontallyCentered && isVerticallyCentered;
+  return {
+    isFramed: isGoodSize && isHorizontallyCentered && isVerticallyCentered,
+    // Face sits near the top of the person mask
+    faceX: personCenterX,
+    faceY: (minY + personHeight * FACE_HEIGHT_RATIO) / height,
+  };
 }
 
 // =============================================================================
@@ -681,6 +703,9 @@ export function useBackgroundBlur(
   const frameCountRef = useRef(0);
   const isProperlyFramedRef = useRef(false);
 
+  // Running face position totals for the crop hint
+  const framingTotalsRef = useRef({ x: 0, y: 0, count: 0 });
+
   // Framing debounce refs (prevents flickering)
   const framingStateChangeTimeRef = useRef<number>(0);
   const pendingFramingStateRef = useRef<boolean>(false);
@@ -951,12 +976,19 @@ export function useBackgroundBlur(
             maskCtxRef.current &&
             maskCanvasRef.current
           ) {
-            const isFramed = analyzeFraming(
+            const framing = analyzeFraming(
               maskCtxRef.current,
               results.segmentationMask,
               maskCanvasRef.current.width,
               maskCanvasRef.current.height
             );
+            const isFramed = framing?.isFramed ?? false;
+
+            if (framing) {
+              framingTotalsRef.current.x += framing.faceX;
+              framingTotalsRef.current.y += framing.faceY;
+              framingTotalsRef.current.count++;
+            }
 
             const now = Date.now();
 
@@ -1309,6 +1341,15 @@ export function useBackgroundBlur(
   // Callbacks
   // ---------------------------------------------------------------------------
 
+  const getFramingHint = useCallback((): FramingHint | null => {
+    const { x, y, count } = framingTotalsRef.current;
+    return count > 0 ? { x: x / count, y: y / count } : null;
+  }, []);
+
+  const resetFramingHint = useCallback(() => {
+    framingTotalsRef.current = { x: 0, y: 0, count: 0 };
+  }, []);
+
   const toggleBlur = useCallback(() => {
     setIsBlurEnabled((prev) => !prev);
   }, []);
@@ -1335,6 +1376,8 @@ export function useBackgroundBlur(
     isLoading,
     error,
     isProperlyFramed,
+    getFramingHint,
+    resetFramingHint,
     toggleBlur,
     setBlurEnabled: setBlurEnabledCallback,
     isSkinSmoothingEnabled,
@@ -0,0 +1,138 @@
+/**
+ * useSpokenProducer Hook
+ *
+ * Opt-in "spoken producer" mode: reads each new question and every follow-up
+ * aloud through the VoiceService. While a follow-up is spoken mid-answer, the
+ * speech recognizer and the recording are paused so neither captures the
+ * producer's voice; both resume after a short beep.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { getVoiceService } from "@/lib/services/voice";
+import { playCountdownBeep } from "@/lib/utils/countdownAudio";
+import { useInterview } from "@/lib/hooks/useInterview";
+import { UseAnswerEvaluationResult } from "@/lib/hooks/useAnswerEvaluation";
+import { UseVideoRecorderResult } from "@/lib/hooks/useVideoRecorder";
+
+/** Gap between the end of speech and the resume beep (ms) */
+const RESUME_BEEP_DELAY_MS = 250;
+
+interface UseSpokenProducerOptions {
+  /** Whether spoken producer mode is turned on */
+  enabled: boolean;
+  /** Answer evaluation hook instance (source of live follow-ups) */
+  answerEvaluation: UseAnswerEvaluationResult;
+  /** Video recorder hook instance (paused while the producer speaks) */
+  videoRecorder: UseVideoRecorderResult;
+}
+
+interface UseSpokenProducerResult {
+  /** Whether the producer voice is currently playing */
+  isSpeaking: boolean;
+}
+
+export function useSpokenProducer({
+  enabled,
+  answerEvaluation,
+  videoRecorder,
+}: UseSpokenProducerOptions): UseSpokenProducerResult {
+  const { state } = useInterview();
+  const { session, currentQuestionIndex, isRecording, hasConsent, evaluationStatus, followUpText } = state;
+
+  const [isSpeaking, setIsSpeaking] = useState(false);
+
+  // Latest hook instances, read from async callbacks without re-running effects
+  const answerEvaluationRef = useRef(answerEvaluation);
+  const videoRecorderRef = useRef(videoRecorder);
+  answerEvaluationRef.current = answerEvaluation;
+  videoRecorderRef.current = videoRecorder;
+
+  const lastSpokenQuestionRef = useRef<string | null>(null);
+  const spokenFollowUpsRef = useRef<Set<string>>(new Set());
+
+  const currentQuestion = session.questions[currentQuestionIndex];
+  const isComplete = session.questions.every((q) =>
+    state.completedQuestions.includes(q.id)
+  );
+
+  // Live follow-up while recording, otherwise the one stored on interview state
+  const activeFollowUp =
+    answerEvaluation.evaluation?.followUp ||
+    (evaluationStatus === "follow_up" ? followUpText : undefined) ||
+    null;
+
+  /** Read each new question aloud before recording starts */
+  useEffect(() => {
+    if (!enabled || !hasConsent || isComplete || isRecording || !currentQuestion) return;
+    if (lastSpokenQuestionRef.current === currentQuestion.id) return;
+
+    lastSpokenQuestionRef.current = currentQuestion.id;
+    spokenFollowUpsRef.current = new Set();
+
+    setIsSpeaking(true);
+    getVoiceService()
+      .speak(currentQuestion.text, { sessionId: session.session_id })
+      .catch((error) => console.error("❌ Failed to speak question:", error))
+      .finally(() => setIsSpeaking(false));
+  }, [enabled, hasConsent, isComplete, isRecording, currentQuestion, session.session_id]);
+
+  /** Cut the question short once the respondent starts recording */
+  useEffect(() => {
+    if (isRecording && lastSpokenQuestionRef.current === currentQuestion?.id) {
+      const voice = getVoiceService();
+      if (voice.getIsPlaying() && !answerEvaluationRef.current.isPaused) {
+        voice.stop();
+      }
+    }
+  }, [isRecording, currentQuestion?.id]);
+
+  /** Read each new follow-up aloud, pausing recognizer + recording while speaking */
+  useEffect(() => {
+    if (!enabled || !activeFollowUp) return;
+    if (spokenFollowUpsRef.current.has(activeFollowUp)) return;
+
+    spokenFollowUpsRef.current.add(activeFollowUp);
+
+    const speakFollowUp = async () => {
+      const evaluation = answerEvaluationRef.current;
+      const recorder = videoRecorderRef.current;
+      const wasRecording = recorder.state.isRecording;
+
+      if (wasRecording) {
+        evaluation.pauseListening();
+        recorder.pauseRecording();
+      }
+
+      setIsSpeaking(true);
+      try {
+        await getVoiceService().speak(activeFollowUp, { sessionId: session.session_id });
+      } catch (error) {
+        console.error("❌ Failed to speak follow-up:", error);
+      } finally {
+        setIsSpeaking(false);
+      }
+
+      if (wasRecording) {
+        // Short beep so the respondent knows the camera is rolling again
+        await new Promise((resolve) => setTimeout(resolve, RESUME_BEEP_DELAY_MS));
+        playCountdownBeep(true);
+        videoRecorderRef.current.resumeRecording();
+        answerEvaluationRef.current.resumeListening();
+      }
+    };
+
+    speakFollowUp();
+  }, [enabled, activeFollowUp, session.session_id]);
+
+  /** Silence the producer when the mode is switched off or on unmount */
+  useEffect(() => {
+    if (!enabled) {
+      getVoiceService().stop();
+    }
+    return () => {
+      getVoiceService().stop();
+    };
+  }, [enabled]);
+
+  return { isSpeaking };
+}
@@ -0,0 +1,12 @@
+/**
+ * useTranslations Hook
+ * Interview UI copy in the session's language
+ */
+
+import { useInterview } from "@/lib/hooks/useInterview";
+import { MESSAGES, InterviewMessages } from "@/lib/i18n/messages";
+
+export function useTranslations(): InterviewMessages {
+  const { state } = useInterview();
+  return MESSAGES[state.session.language || "en"];
+}
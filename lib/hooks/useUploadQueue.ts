@@ -0,0 +1,17 @@
+/**
+ * useUploadQueue Hook
+ * Access the offline recording upload queue
+ */
+
+import { useContext } from "react";
+import { UploadQueueContext } from "@/components/providers/UploadQueueProvider";
+
+export function useUploadQueue() {
+  const context = useContext(UploadQueueContext);
+
+  if (context === undefined) {
+    throw new Error("useUploadQueue must be used within an UploadQueueProvider");
+  }
+
+  return context;
+}
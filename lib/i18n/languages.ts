@@ -0,0 +1,98 @@
+/**
+ * Interview Languages
+ * Campaign language settings shared by the interview UI, speech recognition,
+ * transcription and answer evaluation
+ */
+
+// Languages with localized interview copy
+export const SUPPORTED_LANGUAGES = ["en", "es", "fr", "de", "pt"] as const;
+
+export type InterviewLanguage = (typeof SUPPORTED_LANGUAGES)[number];
+
+// Campaign setting that picks the language from the respondent's browser
+export const AUTO_LANGUAGE = "auto";
+
+export const DEFAULT_LANGUAGE: InterviewLanguage = "en";
+
+// Web Speech API recognizer locale per language
+const SPEECH_LOCALES: Record<InterviewLanguage, string> = {
+  en: "en-US",
+  es: "es-ES",
+  fr: "fr-FR",
+  de: "de-DE",
+  pt: "pt-BR",
+};
+
+export function isSupportedLanguage(value: unknown): value is InterviewLanguage {
+  return typeof value === "string" && SUPPORTED_LANGUAGES.includes(value as InterviewLanguage);
+}
+
+/**
+ * Primary subtag of a language tag ("pt-BR" → "pt")
+ */
+export function getBaseLanguage(tag: string): string {
+  return tag.trim().toLowerCase().split(/[-_]/)[0];
+}
+
+/**
+ * Language to run the interview in
+ * 'auto' (or an unsupported setting) picks the first supported browser language
+ *
+ * @param setting - campaigns.language
+ * @param preferred - Respondent's languages, e.g. navigator.languages
+ */
+export function resolveInterviewLanguage(
+  setting: string | null | undefined,
+  preferred: readonly string[] = []
+): InterviewLanguage {
+  if (setting && setting !== AUTO_LANGUAGE) {
+    const base = getBaseLanguage(setting);
+    if (isSupportedLanguage(base)) {
+      return base;
+    }
+  }
+
+  for (const tag of preferred) {
+    const base = getBaseLanguage(tag);
+    if (isSupportedLanguage(base)) {
+      return base;
+    }
+  }
+
+  return DEFAULT_LANGUAGE;
+}
+
+/**
+ * Recognizer locale for the Web Speech API
+ */
+export function getSpeechLocale(language: string | null | undefined): string {
+  const base = language ? getBaseLanguage(language) : DEFAULT_LANGUAGE;
+  return isSupportedLanguage(base) ? SPEECH_LOCALES[base] : SPEECH_LOCALES[DEFAULT_LANGUAGE];
+}
+
+/**
+ * English name for a language code ("es" → "Spanish"), for prompts and track names
+ */
+export function getLanguageName(languageCode: string): string {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(languageCode) || languageCode;
+  } catch {
+    return languageCode;
+  }
+}
+
+/**
+ * Clean up a list of language codes from the database ("es-MX" stays as-is, blanks dropped)
+ */
+export function normalizeLanguageCodes(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const codes = value
+    .filter((code): code is string => typeof code === "string")
+    .map((code) => code.trim())
+    .filter((code) => /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/i.test(code));
+
+  return Array.from(new Set(codes));
+}
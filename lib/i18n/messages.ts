@@ -0,0 +1,478 @@
+/**
+ * Interview UI Copy
+ * Localized text for the interview chrome and consent screen
+ * Questions themselves come from the campaign and are written in its language
+ */
+
+import { InterviewLanguage } from "./languages";
+
+export interface InterviewMessages {
+  consent: {
+    title: string;
+    subtitle: string;
+    recordHeading: string;
+    recordVideo: string;
+    recordResponses: string;
+    recordScreen: string;
+    rightsHeading: string;
+    rightStop: string;
+    rightPublishing: string;
+    rightDeletion: string;
+    agreement: string;
+    cancel: string;
+    accept: string;
+  };
+  resume: {
+    title: string;
+    progress: (answered: number, total: number, remaining: number) => string;
+    savedHeading: string;
+    continue: string;
+  };
+  completion: {
+    title: string;
+    thanks: string;
+    grateful: string;
+    saving: (progress: number | null) => string;
+    waitingForConnection: string;
+    questionLabel: (number: number) => string;
+    savingButton: string;
+    done: string;
+  };
+  question: {
+    categories: Record<string, string>;
+    progress: (current: number, total: number) => string;
+    greatAnswer: string;
+    canStop: string;
+    followUp: string;
+    keepGoing: string;
+    addDetail: string;
+    recording: string;
+    startSpeaking: string;
+    tip: string;
+    tipText: string;
+  };
+  controls: {
+    saving: (progress: number) => string;
+    getReady: string;
+    submitAnswer: string;
+    keepGoing: (seconds: number) => string;
+    recordFollowUp: string;
+    startRecording: string;
+    startOver: string;
+    startOverLabel: string;
+    redoPrevious: string;
+    redoPreviousLabel: string;
+    toggleQuestions: string;
+    settings: string;
+    microphone: string;
+    camera: string;
+    lightMode: string;
+    darkMode: string;
+    rimLight: string;
+    touchUp: string;
+    readAloud: string;
+    brandSettings: string;
+  };
+}
+
+const en: InterviewMessages = {
+  consent: {
+    title: "Recording Consent",
+    subtitle: "We need your permission to begin",
+    recordHeading: "We'll record",
+    recordVideo: "Video and audio of this interview",
+    recordResponses: "Your spoken responses to our questions",
+    recordScreen: "Screen sharing (if enabled)",
+    rightsHeading: "Your rights",
+    rightStop: "Stop the recording at any time",
+    rightPublishing: "We'll ask for separate consent before publishing",
+    rightDeletion: "Request deletion within 30 days",
+    agreement:
+      "I consent to this interview being recorded and processed by Shine for the purpose of creating marketing materials.",
+    cancel: "Cancel",
+    accept: "Accept & Start Recording",
+  },
+  resume: {
+    title: "Welcome back",
+    progress: (answered, total, remaining) =>
+      `${answered} of ${total} questions answered · ${remaining} to go`,
+    savedHeading: "Already saved",
+    continue: "Continue where you left off",
+  },
+  completion: {
+    title: "That's it — you're all done!",
+    thanks:
+      "Thank you so much for taking the time to share your story with us. Customers like you are what make partnerships truly special — you don't just use our product, you help shape it, champion it, and inspire others with your success.",
+    grateful:
+      "We're so grateful to work with partners who take collaboration to the next level. Your insights mean the world to us!",
+    saving: (progress) => `Saving your answers${progress !== null ? ` (${progress}%)` : ""}...`,
+    waitingForConnection: "Waiting for connection to save your answers",
+    questionLabel: (number) => `Question ${number}`,
+    savingButton: "Saving...",
+    done: "Done",
+  },
+  question: {
+    categories: {
+      discovery: "Discovery",
+      problem: "Problem",
+      solution: "Solution",
+      results: "Results",
+      recommendation: "Recommendation",
+      closing: "Closing",
+    },
+    progress: (current, total) => `Question ${current} of ${total}`,
+    greatAnswer: "Great answer!",
+    canStop: "You can stop recording when ready.",
+    followUp: "Follow-up:",
+    keepGoing: "Keep going...",
+    addDetail: "Add more detail for a complete answer.",
+    recording: "Recording:",
+    startSpeaking: "Start speaking to answer the question.",
+    tip: "Tip:",
+    tipText: "Look at the camera, speak clearly, and include specific metrics when possible.",
+  },
+  controls: {
+    saving: (progress) => `Saving... ${progress}%`,
+    getReady: "Get Ready...",
+    submitAnswer: "Submit Answer",
+    keepGoing: (seconds) => `Keep going... ${seconds}s`,
+    recordFollowUp: "Record Follow-Up",
+    startRecording: "Start Recording",
+    startOver: "Start Over",
+    startOverLabel: "Start over on current question",
+    redoPrevious: "Re-do Previous",
+    redoPreviousLabel: "Re-do previous question",
+    toggleQuestions: "Toggle questions list",
+    settings: "Settings",
+    microphone: "Microphone",
+    camera: "Camera",
+    lightMode: "Light Mode",
+    darkMode: "Dark Mode",
+    rimLight: "Rim Light",
+    touchUp: "Touch Up Appearance",
+    readAloud: "Read Questions Aloud",
+    brandSettings: "Brand Settings",
+  },
+};
+
+const es: InterviewMessages = {
+  consent: {
+    title: "Consentimiento de grabación",
+    subtitle: "Necesitamos tu permiso para comenzar",
+    recordHeading: "Grabaremos",
+    recordVideo: "Video y audio de esta entrevista",
+    recordResponses: "Tus respuestas habladas a nuestras preguntas",
+    recordScreen: "Pantalla compartida (si está activada)",
+    rightsHeading: "Tus derechos",
+    rightStop: "Detener la grabación en cualquier momento",
+    rightPublishing: "Pediremos un consentimiento aparte antes de publicar",
+    rightDeletion: "Solicitar la eliminación en un plazo de 30 días",
+    agreement:
+      "Doy mi consentimiento para que esta entrevista sea grabada y procesada por Shine con el fin de crear materiales de marketing.",
+    cancel: "Cancelar",
+    accept: "Aceptar y empezar a grabar",
+  },
+  resume: {
+    title: "Bienvenido de nuevo",
+    progress: (answered, total, remaining) =>
+      `${answered} de ${total} preguntas respondidas · faltan ${remaining}`,
+    savedHeading: "Ya guardadas",
+    continue: "Continuar donde lo dejaste",
+  },
+  completion: {
+    title: "¡Eso es todo, has terminado!",
+    thanks:
+      "Muchas gracias por tomarte el tiempo de compartir tu historia con nosotros. Clientes como tú hacen que una colaboración sea realmente especial: no solo usas nuestro producto, también ayudas a darle forma, lo defiendes e inspiras a otros con tu éxito.",
+    grateful:
+      "Estamos muy agradecidos de trabajar con socios que llevan la colaboración al siguiente nivel. ¡Tus ideas significan mucho para nosotros!",
+    saving: (progress) => `Guardando tus respuestas${progress !== null ? ` (${progress}%)` : ""}...`,
+    waitingForConnection: "Esperando conexión para guardar tus respuestas",
+    questionLabel: (number) => `Pregunta ${number}`,
+    savingButton: "Guardando...",
+    done: "Listo",
+  },
+  question: {
+    categories: {
+      discovery: "Descubrimiento",
+      problem: "Problema",
+      solution: "Solución",
+      results: "Resultados",
+      recommendation: "Recomendación",
+      closing: "Cierre",
+    },
+    progress: (current, total) => `Pregunta ${current} de ${total}`,
+    greatAnswer: "¡Excelente respuesta!",
+    canStop: "Puedes detener la grabación cuando quieras.",
+    followUp: "Seguimiento:",
+    keepGoing: "Sigue...",
+    addDetail: "Añade más detalles para una respuesta completa.",
+    recording: "Grabando:",
+    startSpeaking: "Empieza a hablar para responder la pregunta.",
+    tip: "Consejo:",
+    tipText: "Mira a la cámara, habla con claridad e incluye cifras concretas cuando puedas.",
+  },
+  controls: {
+    saving: (progress) => `Guardando... ${progress}%`,
+    getReady: "Prepárate...",
+    submitAnswer: "Enviar respuesta",
+    keepGoing: (seconds) => `Sigue... ${seconds}s`,
+    recordFollowUp: "Grabar seguimiento",
+    startRecording: "Empezar a grabar",
+    startOver: "Volver a empezar",
+    startOverLabel: "Volver a empezar la pregunta actual",
+    redoPrevious: "Repetir anterior",
+    redoPreviousLabel: "Repetir la pregunta anterior",
+    toggleQuestions: "Mostrar u ocultar preguntas",
+    settings: "Ajustes",
+    microphone: "Micrófono",
+    camera: "Cámara",
+    lightMode: "Modo claro",
+    darkMode: "Modo oscuro",
+    rimLight: "Luz de contorno",
+    touchUp: "Retocar apariencia",
+    readAloud: "Leer preguntas en voz alta",
+    brandSettings: "Ajustes de marca",
+  },
+};
+
+const fr: InterviewMessages = {
+  consent: {
+    title: "Consentement à l'enregistrement",
+    subtitle: "Nous avons besoin de votre autorisation pour commencer",
+    recordHeading: "Nous enregistrerons",
+    recordVideo: "La vidéo et l'audio de cet entretien",
+    recordResponses: "Vos réponses orales à nos questions",
+    recordScreen: "Le partage d'écran (si activé)",
+    rightsHeading: "Vos droits",
+    rightStop: "Arrêter l'enregistrement à tout moment",
+    rightPublishing: "Nous demanderons un consentement distinct avant toute publication",
+    rightDeletion: "Demander la suppression sous 30 jours",
+    agreement:
+      "J'accepte que cet entretien soit enregistré et traité par Shine afin de créer des supports marketing.",
+    cancel: "Annuler",
+    accept: "Accepter et commencer",
+  },
+  resume: {
+    title: "Bon retour",
+    progress: (answered, total, remaining) =>
+      `${answered} question${answered > 1 ? "s" : ""} sur ${total} · encore ${remaining}`,
+    savedHeading: "Déjà enregistrées",
+    continue: "Reprendre là où vous vous étiez arrêté",
+  },
+  completion: {
+    title: "C'est terminé, merci !",
+    thanks:
+      "Merci beaucoup d'avoir pris le temps de partager votre histoire avec nous. Ce sont des clients comme vous qui rendent un partenariat vraiment spécial : vous ne vous contentez pas d'utiliser notre produit, vous contribuez à le façonner, vous le défendez et vous inspirez les autres par votre réussite.",
+    grateful:
+      "Nous sommes très reconnaissants de travailler avec des partenaires qui portent la collaboration à un autre niveau. Votre regard compte énormément pour nous !",
+    saving: (progress) => `Enregistrement de vos réponses${progress !== null ? ` (${progress} %)` : ""}...`,
+    waitingForConnection: "En attente de connexion pour enregistrer vos réponses",
+    questionLabel: (number) => `Question ${number}`,
+    savingButton: "Enregistrement...",
+    done: "Terminé",
+  },
+  question: {
+    categories: {
+      discovery: "Découverte",
+      problem: "Problème",
+      solution: "Solution",
+      results: "Résultats",
+      recommendation: "Recommandation",
+      closing: "Conclusion",
+    },
+    progress: (current, total) => `Question ${current} sur ${total}`,
+    greatAnswer: "Excellente réponse !",
+    canStop: "Vous pouvez arrêter l'enregistrement quand vous êtes prêt.",
+    followUp: "Relance :",
+    keepGoing: "Continuez...",
+    addDetail: "Ajoutez des détails pour une réponse complète.",
+    recording: "Enregistrement :",
+    startSpeaking: "Commencez à parler pour répondre à la question.",
+    tip: "Astuce :",
+    tipText: "Regardez la caméra, parlez distinctement et donnez des chiffres précis si possible.",
+  },
+  controls: {
+    saving: (progress) => `Enregistrement... ${progress} %`,
+    getReady: "Préparez-vous...",
+    submitAnswer: "Valider la réponse",
+    keepGoing: (seconds) => `Continuez... ${seconds} s`,
+    recordFollowUp: "Enregistrer la relance",
+    startRecording: "Commencer l'enregistrement",
+    startOver: "Recommencer",
+    startOverLabel: "Recommencer la question en cours",
+    redoPrevious: "Refaire la précédente",
+    redoPreviousLabel: "Refaire la question précédente",
+    toggleQuestions: "Afficher ou masquer les questions",
+    settings: "Paramètres",
+    microphone: "Microphone",
+    camera: "Caméra",
+    lightMode: "Mode clair",
+    darkMode: "Mode sombre",
+    rimLight: "Lumière de contour",
+    touchUp: "Retouche de l'apparence",
+    readAloud: "Lire les questions à voix haute",
+    brandSettings: "Paramètres de marque",
+  },
+};
+
+const de: InterviewMessages = {
+  consent: {
+    title: "Einwilligung zur Aufnahme",
+    subtitle: "Wir brauchen Ihre Erlaubnis, um zu beginnen",
+    recordHeading: "Wir nehmen auf",
+    recordVideo: "Video und Ton dieses Interviews",
+    recordResponses: "Ihre gesprochenen Antworten auf unsere Fragen",
+    recordScreen: "Bildschirmfreigabe (falls aktiviert)",
+    rightsHeading: "Ihre Rechte",
+    rightStop: "Die Aufnahme jederzeit beenden",
+    rightPublishing: "Vor einer Veröffentlichung holen wir eine separate Einwilligung ein",
+    rightDeletion: "Löschung innerhalb von 30 Tagen verlangen",
+    agreement:
+      "Ich willige ein, dass dieses Interview von Shine aufgezeichnet und zur Erstellung von Marketingmaterialien verarbeitet wird.",
+    cancel: "Abbrechen",
+    accept: "Zustimmen & Aufnahme starten",
+  },
+  resume: {
+    title: "Willkommen zurück",
+    progress: (answered, total, remaining) =>
+      `${answered} von ${total} Fragen beantwortet · noch ${remaining}`,
+    savedHeading: "Bereits gespeichert",
+    continue: "Dort weitermachen, wo Sie aufgehört haben",
+  },
+  completion: {
+    title: "Geschafft – Sie sind fertig!",
+    thanks:
+      "Vielen Dank, dass Sie sich die Zeit genommen haben, Ihre Geschichte mit uns zu teilen. Kunden wie Sie machen eine Partnerschaft wirklich besonders – Sie nutzen unser Produkt nicht nur, Sie gestalten es mit, setzen sich dafür ein und inspirieren andere mit Ihrem Erfolg.",
+    grateful:
+      "Wir sind sehr dankbar für Partner, die Zusammenarbeit auf das nächste Level bringen. Ihre Einblicke bedeuten uns sehr viel!",
+    saving: (progress) => `Ihre Antworten werden gespeichert${progress !== null ? ` (${progress} %)` : ""}...`,
+    waitingForConnection: "Warte auf Verbindung, um Ihre Antworten zu speichern",
+    questionLabel: (number) => `Frage ${number}`,
+    savingButton: "Wird gespeichert...",
+    done: "Fertig",
+  },
+  question: {
+    categories: {
+      discovery: "Einstieg",
+      problem: "Problem",
+      solution: "Lösung",
+      results: "Ergebnisse",
+      recommendation: "Empfehlung",
+      closing: "Abschluss",
+    },
+    progress: (current, total) => `Frage ${current} von ${total}`,
+    greatAnswer: "Tolle Antwort!",
+    canStop: "Sie können die Aufnahme beenden, wenn Sie so weit sind.",
+    followUp: "Nachfrage:",
+    keepGoing: "Weiter so...",
+    addDetail: "Ergänzen Sie Details für eine vollständige Antwort.",
+    recording: "Aufnahme:",
+    startSpeaking: "Beginnen Sie zu sprechen, um die Frage zu beantworten.",
+    tip: "Tipp:",
+    tipText: "Schauen Sie in die Kamera, sprechen Sie deutlich und nennen Sie nach Möglichkeit konkrete Zahlen.",
+  },
+  controls: {
+    saving: (progress) => `Wird gespeichert... ${progress} %`,
+    getReady: "Gleich geht's los...",
+    submitAnswer: "Antwort absenden",
+    keepGoing: (seconds) => `Weiter so... ${seconds} s`,
+    recordFollowUp: "Nachfrage aufnehmen",
+    startRecording: "Aufnahme starten",
+    startOver: "Neu beginnen",
+    startOverLabel: "Aktuelle Frage neu beginnen",
+    redoPrevious: "Vorherige wiederholen",
+    redoPreviousLabel: "Vorherige Frage wiederholen",
+    toggleQuestions: "Fragenliste ein- oder ausblenden",
+    settings: "Einstellungen",
+    microphone: "Mikrofon",
+    camera: "Kamera",
+    lightMode: "Heller Modus",
+    darkMode: "Dunkler Modus",
+    rimLight: "Konturlicht",
+    touchUp: "Erscheinungsbild glätten",
+    readAloud: "Fragen vorlesen",
+    brandSettings: "Markeneinstellungen",
+  },
+};
+
+const pt: InterviewMessages = {
+  consent: {
+    title: "Consentimento de gravação",
+    subtitle: "Precisamos da sua permissão para começar",
+    recordHeading: "Vamos gravar",
+    recordVideo: "Vídeo e áudio desta entrevista",
+    recordResponses: "Suas respostas faladas às nossas perguntas",
+    recordScreen: "Compartilhamento de tela (se ativado)",
+    rightsHeading: "Seus direitos",
+    rightStop: "Parar a gravação a qualquer momento",
+    rightPublishing: "Pediremos um consentimento separado antes de publicar",
+    rightDeletion: "Solicitar a exclusão em até 30 dias",
+    agreement:
+      "Concordo que esta entrevista seja gravada e processada pela Shine para a criação de materiais de marketing.",
+    cancel: "Cancelar",
+    accept: "Aceitar e começar a gravar",
+  },
+  resume: {
+    title: "Que bom ter você de volta",
+    progress: (answered, total, remaining) =>
+      `${answered} de ${total} perguntas respondidas · faltam ${remaining}`,
+    savedHeading: "Já salvas",
+    continue: "Continuar de onde parou",
+  },
+  completion: {
+    title: "Pronto, você terminou!",
+    thanks:
+      "Muito obrigado por dedicar seu tempo para compartilhar sua história conosco. Clientes como você tornam uma parceria realmente especial: você não apenas usa nosso produto, mas ajuda a moldá-lo, o defende e inspira outras pessoas com o seu sucesso.",
+    grateful:
+      "Somos muito gratos por trabalhar com parceiros que levam a colaboração a outro nível. Suas ideias significam muito para nós!",
+    saving: (progress) => `Salvando suas respostas${progress !== null ? ` (${progress}%)` : ""}...`,
+    waitingForConnection: "Aguardando conexão para salvar suas respostas",
+    questionLabel: (number) => `Pergunta ${number}`,
+    savingButton: "Salvando...",
+    done: "Concluir",
+  },
+  question: {
+    categories: {
+      discovery: "Descoberta",
+      problem: "Problema",
+      solution: "Solução",
+      results: "Resultados",
+      recommendation: "Recomendação",
+      closing: "Encerramento",
+    },
+    progress: (current, total) => `Pergunta ${current} de ${total}`,
+    greatAnswer: "Ótima resposta!",
+    canStop: "Você pode parar a gravação quando quiser.",
+    followUp: "Acompanhamento:",
+    keepGoing: "Continue...",
+    addDetail: "Adicione mais detalhes para uma resposta completa.",
+    recording: "Gravando:",
+    startSpeaking: "Comece a falar para responder à pergunta.",
+    tip: "Dica:",
+    tipText: "Olhe para a câmera, fale com clareza e inclua números concretos sempre que possível.",
+  },
+  controls: {
+    saving: (progress) => `Salvando... ${progress}%`,
+    getReady: "Prepare-se...",
+    submitAnswer: "Enviar resposta",
+    keepGoing: (seconds) => `Continue... ${seconds}s`,
+    recordFollowUp: "Gravar acompanhamento",
+    startRecording: "Começar a gravar",
+    startOver: "Recomeçar",
+    startOverLabel: "Recomeçar a pergunta atual",
+    redoPrevious: "Refazer anterior",
+    redoPreviousLabel: "Refazer a pergunta anterior",
+    toggleQuestions: "Mostrar ou ocultar perguntas",
+    settings: "Configurações",
+    microphone: "Microfone",
+    camera: "Câmera",
+    lightMode: "Modo claro",
+    darkMode: "Modo escuro",
+    rimLight: "Luz de contorno",
+    touchUp: "Retocar aparência",
+    readAloud: "Ler perguntas em voz alta",
+    brandSettings: "Configurações da marca",
+  },
+};
+
+export const MESSAGES: Record<InterviewLanguage, InterviewMessages> = { en, es, fr, de, pt };
@@ -75,3 +75,44 @@ export async function getUpload(uploadId: string) {
     throw error;
   }
 }
+
+/**
+ * Replace our subtitles track on an asset
+ * Adds the new track first, then deletes earlier text tracks tagged with the same passthrough,
+ * so a failed create leaves the old subtitles in place
+ * (Mux downloads the file when the track is created, so edits need a new track)
+ */
+export async function replaceSubtitleTrack(
+  assetId: string,
+  track: { url: string; languageCode: string; name: string; passthrough: string }
+) {
+  try {
+    const mux = getMuxClient();
+    const asset = await mux.video.assets.retrieve(assetId);
+
+    const previousTracks = (asset.tracks || []).filter(
+      (existing) => existing.type === "text" && existing.passthrough === track.passthrough
+    );
+
+    const created = await mux.video.assets.createTrack(assetId, {
+      url: track.url,
+      type: "text",
+      text_type: "subtitles",
+      language_code: track.languageCode,
+      name: track.name,
+      closed_captions: false,
+      passthrough: track.passthrough,
+    });
+
+    for (const previous of previousTracks) {
+      if (previous.id && previous.id !== created.id) {
+        await mux.video.assets.deleteTrack(assetId, previous.id);
+      }
+    }
+
+    return created;
+  } catch (error) {
+    console.error("Error replacing subtitle track:", error);
+    throw error;
+  }
+}
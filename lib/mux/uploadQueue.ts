@@ -0,0 +1,155 @@
+/**
+ * Recording Upload Queue
+ * Client-side IndexedDB store for finished recordings waiting to be uploaded to Mux
+ * Survives page reloads and offline periods
+ * Falls back to an in-memory queue when IndexedDB is unavailable (e.g. private mode)
+ * or a write fails (quota exceeded on a large video, database blocked)
+ */
+
+import { FramingHint } from "@/lib/types/interview";
+
+const DB_NAME = "shine-upload-queue";
+const DB_VERSION = 1;
+const STORE_NAME = "recordings";
+
+export interface QueuedRecording {
+  id: string;
+  sessionId: string;
+  questionId: string;
+  questionIndex: number;
+  questionText: string;
+  blob: Blob;
+  createdAt: number;
+  attempts: number;
+  framing?: FramingHint; // Face position for reframed renders
+  uploadId?: string;   // Set once the Mux upload succeeded (avoids re-uploading on retry)
+  lastError?: string;
+  keptInMemory?: boolean; // IndexedDB couldn't store it - lost if the page is closed before upload
+}
+
+/**
+ * Check if IndexedDB is available in this browser
+ */
+export function isUploadQueueSupported(): boolean {
+  return typeof window !== "undefined" && "indexedDB" in window;
+}
+
+// In-memory fallback - still retries while offline, but won't survive a reload
+// Also holds items IndexedDB failed to store, so their blobs are never dropped
+const memoryQueue = new Map<string, QueuedRecording>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and create if needed) the queue database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: "id" });
+          store.createIndex("sessionId", "sessionId", { unique: false });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Run a single request inside a transaction and resolve with its result
+ */
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Add a finished recording to the queue
+ */
+export async function enqueueRecording(
+  item: Omit<QueuedRecording, "id" | "createdAt" | "attempts">
+): Promise<QueuedRecording> {
+  const queued: QueuedRecording = {
+    ...item,
+    id: `${item.sessionId}-${item.questionId}-${Date.now()}`,
+    createdAt: Date.now(),
+    attempts: 0,
+  };
+
+  if (isUploadQueueSupported()) {
+    try {
+      await runRequest("readwrite", (store) => store.put(queued));
+      console.log(`💾 Recording queued for upload: ${queued.id}`);
+      return queued;
+    } catch (error) {
+      console.error("Failed to store recording in IndexedDB, keeping it in memory:", error);
+    }
+  }
+
+  const inMemory: QueuedRecording = { ...queued, keptInMemory: isUploadQueueSupported() };
+  memoryQueue.set(inMemory.id, inMemory);
+  console.log(`💾 Recording queued for upload (in memory): ${inMemory.id}`);
+  return inMemory;
+}
+
+/**
+ * Update a queued recording (attempt count, upload ID, error)
+ */
+export async function updateQueuedRecording(item: QueuedRecording): Promise<void> {
+  if (!isUploadQueueSupported() || memoryQueue.has(item.id)) {
+    memoryQueue.set(item.id, item);
+    return;
+  }
+  await runRequest("readwrite", (store) => store.put(item));
+}
+
+/**
+ * Remove a recording from the queue once it has been uploaded
+ */
+export async function removeQueuedRecording(id: string): Promise<void> {
+  if (memoryQueue.delete(id) || !isUploadQueueSupported()) {
+    return;
+  }
+  await runRequest("readwrite", (store) => store.delete(id));
+}
+
+/**
+ * Get all queued recordings for a session, oldest first
+ * In-memory items are included even when IndexedDB can't be read
+ */
+export async function getQueuedRecordings(sessionId: string): Promise<QueuedRecording[]> {
+  let stored: QueuedRecording[] = [];
+
+  if (isUploadQueueSupported()) {
+    try {
+      stored = await runRequest<QueuedRecording[]>("readonly", (store) =>
+        store.index("sessionId").getAll(sessionId)
+      );
+    } catch (error) {
+      console.error("Failed to read upload queue from IndexedDB:", error);
+    }
+  }
+
+  const inMemory = Array.from(memoryQueue.values()).filter((item) => item.sessionId === sessionId);
+  return [...stored, ...inMemory].sort((a, b) => a.createdAt - b.createdAt);
+}
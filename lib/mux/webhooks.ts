@@ -0,0 +1,78 @@
+/**
+ * Mux Webhook Verification
+ * Server-side only - checks the `mux-signature` header on incoming webhooks
+ * Header format: t=<unix timestamp>,v1=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+ */
+
+import crypto from "crypto";
+
+// Reject events signed longer ago than this (replay protection)
+export const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+export interface WebhookVerificationResult {
+  valid: boolean;
+  reason?: string;
+}
+
+/**
+ * Parse the mux-signature header into its timestamp and v1 signatures
+ */
+function parseSignatureHeader(header: string) {
+  let timestamp: number | null = null;
+  const signatures: string[] = [];
+
+  for (const part of header.split(",")) {
+    const [key, value] = part.trim().split("=");
+    if (key === "t") {
+      timestamp = parseInt(value, 10);
+    } else if (key === "v1" && value) {
+      signatures.push(value);
+    }
+  }
+
+  return { timestamp, signatures };
+}
+
+/**
+ * Verify that a webhook body was signed by Mux with the configured secret
+ */
+export function verifyWebhookSignature(
+  rawBody: string,
+  signatureHeader: string | null,
+  secret: string | undefined = process.env.MUX_WEBHOOK_SECRET,
+  toleranceSeconds: number = WEBHOOK_TOLERANCE_SECONDS
+): WebhookVerificationResult {
+  if (!secret) {
+    return { valid: false, reason: "MUX_WEBHOOK_SECRET is not configured" };
+  }
+
+  if (!signatureHeader) {
+    return { valid: false, reason: "Missing mux-signature header" };
+  }
+
+  const { timestamp, signatures } = parseSignatureHeader(signatureHeader);
+
+  if (timestamp === null || Number.isNaN(timestamp) || signatures.length === 0) {
+    return { valid: false, reason: "Malformed mux-signature header" };
+  }
+
+  const ageSeconds = Math.abs(Math.floor(Date.now() / 1000) - timestamp);
+  if (ageSeconds > toleranceSeconds) {
+    return { valid: false, reason: `Timestamp outside tolerance (${ageSeconds}s)` };
+  }
+
+  const expected = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${rawBody}`)
+    .digest();
+
+  const matches = signatures.some((signature) => {
+    const provided = Buffer.from(signature, "hex");
+    return (
+      provided.length === expected.length &&
+      crypto.timingSafeEqual(provided, expected)
+    );
+  });
+
+  return matches ? { valid: true } : { valid: false, reason: "Signature mismatch" };
+}
@@ -0,0 +1,233 @@
+/**
+ * Answer Evaluation Service
+ * Final, server-side evaluation of a recorded answer against its real transcript
+ * Live evaluation runs on the browser's Web Speech transcript, which is often
+ * missing or inaccurate - this pass is the assessment reviewers see
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import {
+  evaluateWithRules,
+  findValueMatches,
+  normalizeVocabulary,
+} from "@/lib/evaluation/rulesEngine";
+import {
+  evaluateAnswer,
+  EvaluatorProvider,
+  normalizeEvaluatorProvider,
+} from "@/lib/evaluation/answerEvaluator";
+import { RulePack } from "@/lib/evaluation/rulePack";
+import { AUTO_LANGUAGE, getBaseLanguage } from "@/lib/i18n/languages";
+import { getCampaignRulePack } from "@/lib/services/rulePacks";
+import { toTranscription } from "@/lib/transcription/utils";
+import { Question } from "@/lib/types/interview";
+
+// ==================== CONFIGURATION ====================
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// Same cutoff as live evaluation - shorter answers aren't worth evaluating
+const MIN_TRANSCRIPT_LENGTH = 15;
+
+// Latency budget for the AI fallback (live evaluation uses a few seconds)
+const FINAL_EVALUATION_BUDGET_MS = 30000;
+
+// ==================== TYPES ====================
+
+export interface RecordingEvaluation {
+  score: number | null;
+  isComplete: boolean | null;
+  followUp: string | null;
+  extractedValue: string | null;
+  values: Array<{ kind: string; text: string }>;
+  ruleId: string | null;
+  evaluatedBy: "rules" | "ai" | "error";
+  provider: EvaluatorProvider | null;  // AI evaluator that decided (null for rules)
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * The question a recording answers - by ID, falling back to its position
+ */
+function findQuestion(questions: unknown, questionId: string, questionIndex: number): Question | null {
+  if (!Array.isArray(questions)) {
+    return null;
+  }
+
+  return (
+    (questions as Question[]).find((question) => question?.id === questionId) ||
+    (questions as Question[])[questionIndex] ||
+    null
+  );
+}
+
+/**
+ * Language the answer was spoken in - detected by the transcription provider,
+ * then the campaign setting
+ */
+function getAnswerLanguage(detected: string | null, campaignLanguage: string | null): string {
+  if (detected) {
+    return getBaseLanguage(detected);
+  }
+  if (campaignLanguage && campaignLanguage !== AUTO_LANGUAGE) {
+    return getBaseLanguage(campaignLanguage);
+  }
+  return "en";
+}
+
+// ==================== EVALUATION ====================
+
+/**
+ * Evaluate a transcript: rules engine first, AI for what the rules can't settle
+ * Throws when the AI call fails so the job queue retries it
+ */
+export async function evaluateTranscript(
+  question: Question,
+  transcript: string,
+  options: {
+    vocabulary?: string[];
+    language?: string;
+    rulePack?: RulePack;
+    provider?: EvaluatorProvider | null;
+  } = {}
+): Promise<RecordingEvaluation> {
+  const values = findValueMatches(transcript).map((match) => ({ kind: match.kind, text: match.text }));
+
+  if (transcript.trim().length < MIN_TRANSCRIPT_LENGTH) {
+    return {
+      score: 0,
+      isComplete: false,
+      followUp: null,
+      extractedValue: null,
+      values,
+      ruleId: null,
+      evaluatedBy: "rules",
+      provider: null,
+    };
+  }
+
+  const rulesResult = evaluateWithRules(question.text, transcript, {
+    ...options,
+    ruleId: question.ruleId,
+  });
+
+  if (!rulesResult.usedAI) {
+    return {
+      score: rulesResult.confidence,
+      isComplete: rulesResult.isComplete,
+      followUp: rulesResult.followUp,
+      extractedValue: rulesResult.extractedValue,
+      values,
+      ruleId: rulesResult.ruleId,
+      evaluatedBy: "rules",
+      provider: null,
+    };
+  }
+
+  const aiResult = await evaluateAnswer(question.text, transcript, {
+    questionContext: question.intent,
+    vocabulary: options.vocabulary,
+    language: options.language,
+    provider: options.provider,
+    // No one is waiting on the final pass - give the model time to answer properly
+    latencyBudgetMs: FINAL_EVALUATION_BUDGET_MS,
+  });
+
+  if (aiResult?.timedOut) {
+    // A generic follow-up isn't an assessment - fail so the job retries
+    throw new Error(`AI evaluation timed out after ${FINAL_EVALUATION_BUDGET_MS}ms`);
+  }
+
+  if (!aiResult) {
+    // Unparseable response - record that the assessment is missing rather than guess
+    return {
+      score: null,
+      isComplete: null,
+      followUp: null,
+      extractedValue: null,
+      values,
+      ruleId: rulesResult.ruleId,
+      evaluatedBy: "error",
+      provider: null,
+    };
+  }
+
+  return {
+    score: Math.max(0, Math.min(100, Math.round(aiResult.confidence))),
+    isComplete: aiResult.isComplete,
+    followUp: aiResult.followUp,
+    extractedValue: aiResult.extractedValue,
+    values,
+    ruleId: rulesResult.ruleId,
+    evaluatedBy: "ai",
+    provider: aiResult.provider,
+  };
+}
+
+/**
+ * Evaluate a transcribed recording and store the result on the recording row
+ * Returns null when the recording has no transcript yet
+ */
+export async function evaluateRecording(recordingId: string): Promise<RecordingEvaluation | null> {
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+
+  // Type cast to bypass Supabase type inference
+  const { data: recording, error } = await (supabase
+    .from("recordings") as any)
+    .select("id, question_id, question_index, transcription, transcription_data, sessions ( campaigns ( id, questions, vocabulary, language, evaluator_provider ) )")
+    .eq("id", recordingId)
+    .single();
+
+  if (error || !recording) {
+    throw new Error(`Recording not found: ${recordingId}`);
+  }
+
+  const transcription = toTranscription(recording.transcription_data);
+  const transcript: string | null = transcription?.text || recording.transcription;
+
+  if (typeof transcript !== "string") {
+    console.log(`⚠️ [Evaluation] No transcript for recording ${recordingId}, skipping`);
+    return null;
+  }
+
+  const campaign = recording.sessions?.campaigns;
+  const question = findQuestion(campaign?.questions, recording.question_id, recording.question_index);
+
+  if (!question) {
+    throw new Error(`Question ${recording.question_id} not found in campaign for recording ${recordingId}`);
+  }
+
+  const evaluation = await evaluateTranscript(question, transcript, {
+    vocabulary: normalizeVocabulary(campaign?.vocabulary),
+    language: getAnswerLanguage(transcription?.language || null, campaign?.language || null),
+    rulePack: campaign?.id ? await getCampaignRulePack(campaign.id) : undefined,
+    provider: normalizeEvaluatorProvider(campaign?.evaluator_provider),
+  });
+
+  const { error: updateError } = await (supabase
+    .from("recordings") as any)
+    .update({
+      evaluation_score: evaluation.score,
+      evaluation_is_complete: evaluation.isComplete,
+      evaluation_follow_up: evaluation.followUp,
+      evaluation_extracted_value: evaluation.extractedValue,
+      evaluation_values: evaluation.values,
+      evaluation_rule_id: evaluation.ruleId,
+      evaluation_provider: evaluation.provider,
+      evaluated_by: evaluation.evaluatedBy,
+      evaluated_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", recordingId);
+
+  if (updateError) {
+    throw updateError;
+  }
+
+  console.log(
+    `🧮 [Evaluation] Recording ${recordingId}: ${evaluation.evaluatedBy}${evaluation.provider ? ` via ${evaluation.provider}` : ""} (rule ${evaluation.ruleId || "none"}), score ${evaluation.score ?? "n/a"}`
+  );
+  return evaluation;
+}
@@ -1,11 +1,33 @@
 /**
  * Shine Post-Producer Automation Service
  * Triggers video post-production when recordings become ready
+ * and tracks each render (status, output, final Mux asset) on the recording
  */
 
 import { createClient } from "@supabase/supabase-js";
-import { produceTestimonial, ThemeConfig, CaptionConfig } from "./shotstack";
-import { jsonToSrt, DeepgramResult } from "@/lib/deepgram/utils";
+import {
+  produceTestimonial,
+  produceReel,
+  getReelClipStarts,
+  getRenderStatus,
+  ThemeConfig,
+  CaptionConfig,
+  CaptionWord,
+  OutputFormat,
+  FormatRender,
+  ReelSegment,
+  RenderStatusResponse,
+} from "./shotstack";
+import { extractSoundbite } from "./soundbites";
+import {
+  jsonToSrt,
+  groupWordsIntoLines,
+  mergeTranscriptions,
+  trimTranscription,
+  getTranscriptDuration,
+  toTranscription,
+  Transcription,
+} from "@/lib/transcription/utils";
 
 // ==================== CONFIGURATION ====================
 
@@ -15,6 +37,22 @@ const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
 // Brand music URL for testimonial videos
 const BRAND_MUSIC_URL = process.env.BRAND_MUSIC_URL || "https://cdn.example.com/shine-brand-music.mp3";
 
+// Public base URL for Shotstack render callbacks (callbacks are skipped when unset)
+const APP_URL = process.env.APP_URL;
+
+// Clip length used when neither Mux nor the transcript reported a duration
+const DEFAULT_CLIP_DURATION = 30;
+
+// Reel captions break at answer boundaries instead of spanning title cards
+const REEL_CAPTION_MAX_GAP = 1;
+
+// Highlight reels keep the best answers: at most this many, none scored below the minimum
+const REEL_MAX_ANSWERS = Number(process.env.REEL_MAX_ANSWERS) || 5;
+const REEL_MIN_SCORE = 50;
+
+// Caption mode when the caller doesn't choose one: "static" (SRT) or "karaoke" (word-by-word)
+const DEFAULT_CAPTION_STYLE: CaptionStyle = process.env.CAPTION_STYLE === "karaoke" ? "karaoke" : "static";
+
 // Default theme if brand customization is not available
 const DEFAULT_THEME: ThemeConfig = {
   primaryColor: "#FFFFFF",
@@ -34,10 +72,16 @@ interface RecordingData {
   question_index: number;
   mux_playback_id: string | null;
   transcription: string | null;
-  transcription_data: DeepgramResult | null; // Full Deepgram result with word timings
+  transcription_data: unknown; // Stored transcription with word timings (read via toTranscription)
   video_status: string;
   transcription_status: string;
   duration_seconds: number | null;
+  soundbite_start_seconds: number | null;
+  soundbite_end_seconds: number | null;
+  soundbite_text: string | null;
+  framing_x: number | null;
+  framing_y: number | null;
+  evaluation_score: number | null;
 }
 
 interface SessionData {
@@ -57,14 +101,48 @@ interface BrandCustomization {
   secondary_color: string;
   tertiary_color: string;
   font_family: string;
+  corner_radius?: number;
+  brandmark_light_url?: string | null;
+}
+
+export type CaptionStyle = "static" | "karaoke";
+
+export interface ProcessOptions {
+  soundbite?: boolean; // Trim to the recording's soundbite for a short social cut
+  formats?: OutputFormat[]; // Aspect ratios to render (default: 16:9)
+  captionStyle?: CaptionStyle; // Static SRT captions or word-by-word karaoke (default: CAPTION_STYLE env)
 }
 
 export interface ProcessResult {
   success: boolean;
   renderId?: string;
+  renders?: FormatRender[];
   error?: string;
 }
 
+export interface StoredRender {
+  recordingId: string;
+  renderId: string;                  // Primary (first submitted) render
+  status: RenderStatusResponse["status"] | null; // Across every format - failed if any failed
+  formats: FormatRender[];           // Each format's own render and status
+  url: string | null;
+  error: string | null;
+  muxAssetId: string | null;
+  muxPlaybackId: string | null;
+  updatedAt: string | null;
+}
+
+export interface StoredReelRender {
+  sessionId: string;
+  renderId: string;
+  status: RenderStatusResponse["status"] | null;
+  url: string | null;
+  error: string | null;
+  muxAssetId: string | null;
+  muxPlaybackId: string | null;
+  updatedAt: string | null;
+}
+
 // ==================== HELPER FUNCTIONS ====================
 
 /**
@@ -121,15 +199,49 @@ function buildThemeConfig(brandCustomization: BrandCustomization | null): ThemeC
   };
 }
 
+/**
+ * Caption look from the brand: brand font, primary colour for the active karaoke word,
+ * and a background pill using the brand corner radius
+ * Source (SRT or karaoke lines) is added by the caller
+ */
+function buildCaptionStyle(brandCustomization: BrandCustomization | null): Omit<CaptionConfig, "srtUrl"> {
+  return {
+    fontFamily: brandCustomization?.font_family || "Open Sans",
+    fontSize: 24,
+    fontColor: "#ffffff",
+    highlightColor: brandCustomization?.primary_color || DEFAULT_THEME.primaryColor,
+    backgroundColor: "#000000",
+    backgroundOpacity: 0.5,
+    backgroundPadding: 10,
+    backgroundBorderRadius: brandCustomization?.corner_radius ?? 16,
+    position: "bottom",
+    offsetY: 0.08,
+  };
+}
+
+/**
+ * Timed caption lines for karaoke mode
+ */
+function buildKaraokeLines(transcription: Transcription): CaptionWord[][] {
+  return groupWordsIntoLines(transcription.words, 6, 32).map((line) =>
+    line.map((word) => ({
+      text: word.text,
+      start: word.start,
+      end: word.end,
+    }))
+  );
+}
+
 /**
  * Upload SRT content to Supabase Storage and return public URL
+ * captionId is a recording ID, or reel-<sessionId> for session reels
  */
 async function uploadSrtToStorage(
   supabase: any, // Supabase client instance
-  recordingId: string,
+  captionId: string,
   srtContent: string
 ): Promise<string | null> {
-  const fileName = `transcript-${recordingId}.srt`;
+  const fileName = `transcript-${captionId}.srt`;
   const bucket = 'captions';
 
   try {
@@ -164,8 +276,12 @@ async function uploadSrtToStorage(
 /**
  * Process a video recording that has become ready
  * Fetches transcript, extracts quote, and triggers Shotstack post-production
+ * With options.soundbite, renders only the recording's soundbite span
  */
-export async function processReadyVideo(recordingId: string): Promise<ProcessResult> {
+export async function processReadyVideo(
+  recordingId: string,
+  options: ProcessOptions = {}
+): Promise<ProcessResult> {
   console.log(`🎬 [AutomationService] Processing recording: ${recordingId}`);
 
   // Initialize Supabase client with service role
@@ -196,6 +312,28 @@ export async function processReadyVideo(recordingId: string): Promise<ProcessRes
 
     console.log(`📹 Recording found: playback_id=${recordingData.mux_playback_id}`);
 
+    // ========== STEP 1.5: Resolve Soundbite Span ==========
+    let clip: { start: number; end: number; text: string } | null = null;
+
+    if (options.soundbite) {
+      if (recordingData.soundbite_start_seconds != null && recordingData.soundbite_end_seconds != null) {
+        clip = {
+          start: Number(recordingData.soundbite_start_seconds),
+          end: Number(recordingData.soundbite_end_seconds),
+          text: recordingData.soundbite_text || "",
+        };
+      } else {
+        // Recordings transcribed before soundbites existed
+        clip = await extractSoundbite(recordingId);
+      }
+
+      if (!clip) {
+        throw new Error("Recording has no soundbite (transcription word timings are missing)");
+      }
+
+      console.log(`✂️ Using soundbite ${clip.start}s-${clip.end}s`);
+    }
+
     // ========== STEP 2: Fetch Session and Campaign Data ==========
     const { data: session, error: sessionError } = await supabase
       .from("sessions")
@@ -224,16 +362,21 @@ export async function processReadyVideo(recordingId: string): Promise<ProcessRes
     // ========== STEP 3: Fetch Brand Customization ==========
     const { data: brandCustomization } = await supabase
       .from("brand_customizations")
-      .select("primary_color, secondary_color, tertiary_color, font_family")
+      .select("primary_color, secondary_color, tertiary_color, font_family, corner_radius")
       .eq("company_id", sessionData.company_id)
       .single();
 
-    const theme = buildThemeConfig(brandCustomization as BrandCustomization | null);
+    const brand = brandCustomization as BrandCustomization | null;
+    const theme = buildThemeConfig(brand);
 
     // ========== STEP 4: Extract Quote Text ==========
     let quoteText: string;
 
-    if (
+    if (clip && clip.text.split(" ").length >= 6) {
+      // Quote the soundbite itself so the overlay matches what's on screen
+      quoteText = extractFirstWords(clip.text, 6);
+      console.log(`📝 Using soundbite quote: ${quoteText}`);
+    } else if (
       recordingData.transcription &&
       recordingData.transcription_status === "completed" &&
       recordingData.transcription.split(" ").length >= 6
@@ -268,33 +411,44 @@ export async function processReadyVideo(recordingId: string): Promise<ProcessRes
     const videoUrl = mp4Url;
     console.log(`🎥 Video source: ${videoUrl}`);
 
-    // ========== STEP 5.5: Generate and Upload SRT Captions ==========
+    // ========== STEP 5.5: Generate Captions ==========
     let captionsConfig: CaptionConfig | undefined;
+    const captionStyle = options.captionStyle || DEFAULT_CAPTION_STYLE;
+
+    const transcription = toTranscription(recordingData.transcription_data);
+
+    if (transcription) {
+      // Re-timed to the soundbite when trimming
+      const transcript = clip
+        ? trimTranscription(transcription, clip.start, clip.end)
+        : transcription;
 
-    if (recordingData.transcription_data) {
-      console.log(`📝 Generating SRT captions from transcription data...`);
-
-      // Convert Deepgram result to SRT format
-      const srtContent = jsonToSrt(recordingData.transcription_data);
-
-      if (srtContent) {
-        // Upload SRT to Supabase Storage
-        const srtUrl = await uploadSrtToStorage(supabase, recordingId, srtContent);
-
-        if (srtUrl) {
-          captionsConfig = {
-            srtUrl,
-            fontFamily: 'Open Sans',
-            fontSize: 24,
-            fontColor: '#ffffff',
-            backgroundColor: '#000000',
-            backgroundOpacity: 0.5,
-            backgroundPadding: 10,
-            backgroundBorderRadius: 5,
-            position: 'bottom',
-            offsetY: 0.08,
-          };
-          console.log(`✅ Captions configured with SRT URL: ${srtUrl}`);
+      if (captionStyle === "karaoke") {
+        console.log(`📝 Generating karaoke captions from word timings...`);
+        const karaokeLines = buildKaraokeLines(transcript);
+
+        if (karaokeLines.length > 0) {
+          captionsConfig = { ...buildCaptionStyle(brand), karaokeLines };
+          console.log(`✅ Karaoke captions configured: ${karaokeLines.length} lines`);
+        }
+      } else {
+        console.log(`📝 Generating SRT captions from transcription data...`);
+
+        // Convert word timings to SRT format
+        const srtContent = jsonToSrt(transcript);
+
+        if (srtContent) {
+          // Upload SRT to Supabase Storage
+          const srtUrl = await uploadSrtToStorage(
+            supabase,
+            clip ? `${recordingId}-soundbite` : recordingId,
+            srtContent
+          );
+
+          if (srtUrl) {
+            captionsConfig = { ...buildCaptionStyle(brand), srtUrl };
+            console.log(`✅ Captions configured with SRT URL: ${srtUrl}`);
+          }
         }
       }
     } else {
@@ -307,23 +461,51 @@ export async function processReadyVideo(recordingId: string): Promise<ProcessRes
       quoteText,
       theme,
       musicUrl: BRAND_MUSIC_URL,
-      duration: recordingData.duration_seconds || 30,
+      duration: clip ? clip.end - clip.start : recordingData.duration_seconds || 30,
+      trimStart: clip?.start,
       captions: captionsConfig,
+      callbackUrl: APP_URL ? `${APP_URL}/api/shotstack/callback` : undefined,
+      formats: options.formats,
+      // Face position captured while recording - centre crop when missing
+      focus: recordingData.framing_x != null
+        ? { x: Number(recordingData.framing_x), y: Number(recordingData.framing_y ?? 0.5) }
+        : undefined,
     });
 
-    if (!result.success) {
+    if (!result.success || !result.response?.id) {
+      await recordRenderFailure(supabase, recordingId, result.message);
       throw new Error(`Shotstack production failed: ${result.message}`);
     }
 
-    console.log(`✅ [AutomationService] Render job submitted: ${result.response?.id}`);
+    console.log(`✅ [AutomationService] Render job submitted: ${result.response.id}`);
 
     // ========== STEP 7: Update Recording with Render ID ==========
-    // Note: You may want to add a 'shotstack_render_id' column to track this
-    // For now, we'll just log it
+    // Replaces any previous render (retries start from a clean slate)
+    // Every format is tracked in format_renders; render_status sums them up
+    const renders = result.renders || [];
+    const summary = summarizeRenders(renders);
+    const { error: renderUpdateError } = await supabase
+      .from("recordings")
+      .update({
+        shotstack_render_id: result.response.id,
+        format_renders: renders,
+        render_status: summary.status,
+        render_url: null,
+        render_error: summary.error,
+        final_mux_asset_id: null,
+        final_mux_playback_id: null,
+        render_updated_at: new Date().toISOString(),
+      })
+      .eq("id", recordingId);
+
+    if (renderUpdateError) {
+      console.error(`❌ [AutomationService] Failed to store render ID:`, renderUpdateError);
+    }
 
     return {
       success: true,
       renderId: result.response?.id,
+      renders: result.renders,
     };
   } catch (error) {
     console.error(`❌ [AutomationService] Error processing recording ${recordingId}:`, error);
@@ -334,6 +516,197 @@ export async function processReadyVideo(recordingId: string): Promise<ProcessRes
   }
 }
 
+/**
+ * Pick the answers for a highlight reel
+ * Best take per question (highest evaluation score, then the latest), then the top
+ * REEL_MAX_ANSWERS by score with a soundbite as the tie-break, back in interview order.
+ * Takes scored below REEL_MIN_SCORE are left out; unevaluated ones rank last
+ */
+function selectReelAnswers(recordings: RecordingData[]): RecordingData[] {
+  const score = (recording: RecordingData) => recording.evaluation_score ?? -1;
+
+  // Recordings arrive newest first, so ties keep the latest take
+  const bestByQuestion = new Map<string, RecordingData>();
+  for (const recording of recordings) {
+    const best = bestByQuestion.get(recording.question_id);
+    if (!best || score(recording) > score(best)) {
+      bestByQuestion.set(recording.question_id, recording);
+    }
+  }
+
+  return Array.from(bestByQuestion.values())
+    .filter((recording) => recording.evaluation_score === null || recording.evaluation_score >= REEL_MIN_SCORE)
+    .sort(
+      (a, b) =>
+        score(b) - score(a) ||
+        Number(b.soundbite_text !== null) - Number(a.soundbite_text !== null)
+    )
+    .slice(0, REEL_MAX_ANSWERS)
+    .sort((a, b) => a.question_index - b.question_index);
+}
+
+/**
+ * Stitch a session's best answers into one highlight reel (see selectReelAnswers)
+ * Each answer gets a question title card, captions are merged onto the reel timeline
+ */
+export async function produceSessionReel(sessionId: string): Promise<ProcessResult> {
+  console.log(`🎞️ [AutomationService] Producing reel for session: ${sessionId}`);
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+
+  try {
+    // ========== STEP 1: Fetch Session, Campaign and Company ==========
+    // Accept either the public session_id or the row UUID
+    const isUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(sessionId);
+    const { data: session, error: sessionError } = await supabase
+      .from("sessions")
+      .select("id, campaign_id, company_id")
+      .eq(isUuid ? "id" : "session_id", sessionId)
+      .maybeSingle();
+
+    if (sessionError || !session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    const sessionData = session as SessionData;
+
+    const { data: campaign, error: campaignError } = await supabase
+      .from("campaigns")
+      .select("id, name, questions")
+      .eq("id", sessionData.campaign_id)
+      .single();
+
+    if (campaignError || !campaign) {
+      throw new Error(`Campaign not found: ${sessionData.campaign_id}`);
+    }
+
+    const campaignData = campaign as CampaignData;
+
+    const { data: company } = await supabase
+      .from("companies")
+      .select("name")
+      .eq("id", sessionData.company_id)
+      .single();
+
+    const { data: brandCustomization } = await supabase
+      .from("brand_customizations")
+      .select("primary_color, secondary_color, tertiary_color, font_family, corner_radius, brandmark_light_url")
+      .eq("company_id", sessionData.company_id)
+      .single();
+
+    const brand = brandCustomization as BrandCustomization | null;
+    const theme = buildThemeConfig(brand);
+
+    // ========== STEP 2: Select the Best Ready Answers ==========
+    const { data: recordings, error: recordingsError } = await supabase
+      .from("recordings")
+      .select("*")
+      .eq("session_id", sessionData.id)
+      .eq("video_status", "ready")
+      .not("mux_playback_id", "is", null)
+      .order("question_index", { ascending: true })
+      .order("created_at", { ascending: false });
+
+    if (recordingsError) {
+      throw recordingsError;
+    }
+
+    if (!recordings || recordings.length === 0) {
+      throw new Error("Session has no ready recordings");
+    }
+
+    const answers = selectReelAnswers(recordings as RecordingData[]);
+
+    if (answers.length === 0) {
+      throw new Error(`Session has no answers scored ${REEL_MIN_SCORE} or above`);
+    }
+
+    console.log(`📹 ${answers.length} of ${recordings.length} ready recording(s) in reel`);
+
+    // ========== STEP 3: Build Reel Segments ==========
+    const transcriptions = answers.map((recording) => toTranscription(recording.transcription_data));
+
+    const segments: ReelSegment[] = answers.map((recording, index) => ({
+      videoUrl: `https://stream.mux.com/${recording.mux_playback_id}/capped-1080p.mp4`,
+      questionText: getQuestionText(campaignData, recording.question_index),
+      duration:
+        recording.duration_seconds ||
+        (transcriptions[index] && getTranscriptDuration(transcriptions[index])) ||
+        DEFAULT_CLIP_DURATION,
+    }));
+
+    // ========== STEP 4: Merge Captions onto the Reel Timeline ==========
+    let captionsConfig: CaptionConfig | undefined;
+
+    const clipStarts = getReelClipStarts(segments);
+    const mergedTranscript = mergeTranscriptions(
+      transcriptions.map((transcription, index) => ({
+        transcription,
+        offset: clipStarts[index],
+      }))
+    );
+
+    const srtContent = jsonToSrt(mergedTranscript, 8, 42, 4, REEL_CAPTION_MAX_GAP);
+
+    if (srtContent) {
+      const srtUrl = await uploadSrtToStorage(supabase, `reel-${sessionData.id}`, srtContent);
+
+      if (srtUrl) {
+        captionsConfig = { ...buildCaptionStyle(brand), srtUrl };
+      }
+    } else {
+      console.log(`⚠️ No transcription_data available, skipping captions`);
+    }
+
+    // ========== STEP 5: Trigger Shotstack Render ==========
+    const result = await produceReel({
+      segments,
+      theme,
+      companyName: (company as { name: string } | null)?.name,
+      brandmarkUrl: brand?.brandmark_light_url || undefined,
+      musicUrl: BRAND_MUSIC_URL,
+      captions: captionsConfig,
+      callbackUrl: APP_URL ? `${APP_URL}/api/shotstack/callback` : undefined,
+    });
+
+    if (!result.success || !result.response?.id) {
+      throw new Error(`Shotstack production failed: ${result.message}`);
+    }
+
+    console.log(`✅ [AutomationService] Reel render submitted: ${result.response.id}`);
+
+    // ========== STEP 6: Track the Render on the Session ==========
+    // Replaces any earlier reel - its callbacks are ignored from here on
+    const { error: trackError } = await supabase
+      .from("sessions")
+      .update({
+        reel_render_id: result.response.id,
+        reel_render_status: "queued",
+        reel_render_url: null,
+        reel_render_error: null,
+        reel_mux_asset_id: null,
+        reel_mux_playback_id: null,
+        reel_render_updated_at: new Date().toISOString(),
+      })
+      .eq("id", sessionData.id);
+
+    if (trackError) {
+      throw new Error(`Reel render ${result.response.id} submitted but not tracked: ${trackError.message}`);
+    }
+
+    return {
+      success: true,
+      renderId: result.response.id,
+    };
+  } catch (error) {
+    console.error(`❌ [AutomationService] Error producing reel for session ${sessionId}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
 /**
  * Check if a recording is ready for post-production
  * Requirements: video_status = 'ready' AND transcription_status = 'completed'
@@ -356,3 +729,285 @@ export async function isReadyForPostProduction(recordingId: string): Promise<boo
     recording.transcription_status === "completed"
   );
 }
+
+// ==================== RENDER TRACKING ====================
+
+const RENDER_COLUMNS =
+  "id, shotstack_render_id, render_status, render_url, render_error, final_mux_asset_id, final_mux_playback_id, render_updated_at, format_renders";
+
+// In-progress statuses, least advanced first
+const ACTIVE_RENDER_STATUSES: RenderStatusResponse["status"][] = ["queued", "fetching", "rendering", "saving"];
+
+// Concurrent callbacks for different formats update the same row
+const MAX_RENDER_UPDATE_ATTEMPTS = 3;
+
+function toStoredRender(row: any): StoredRender {
+  return {
+    recordingId: row.id,
+    renderId: row.shotstack_render_id,
+    status: row.render_status,
+    formats: getFormatRenders(row),
+    url: row.render_url,
+    error: row.render_error,
+    muxAssetId: row.final_mux_asset_id,
+    muxPlaybackId: row.final_mux_playback_id,
+    updatedAt: row.render_updated_at,
+  };
+}
+
+/**
+ * Every format's render for a recording
+ * Rows from before per-format tracking only have the primary render's status
+ */
+function getFormatRenders(row: any): FormatRender[] {
+  const renders: FormatRender[] = Array.isArray(row.format_renders) ? row.format_renders : [];
+
+  if (renders.length === 0 && row.shotstack_render_id) {
+    return [{ format: "16:9", renderId: row.shotstack_render_id, status: row.render_status || "queued" }];
+  }
+
+  return renders.map((render) => ({
+    ...render,
+    status: render.status || (render.renderId === row.shotstack_render_id && row.render_status) || "queued",
+  }));
+}
+
+/**
+ * Recording-level status across every format
+ * In progress until every format finishes; failed if any format failed
+ */
+function summarizeRenders(renders: FormatRender[]): { status: RenderStatusResponse["status"]; error: string | null } {
+  const active = ACTIVE_RENDER_STATUSES.find((status) => renders.some((render) => render.status === status));
+  if (active) {
+    return { status: active, error: null };
+  }
+
+  const failed = renders.filter((render) => render.status === "failed");
+  if (failed.length > 0) {
+    return {
+      status: "failed",
+      error: failed.map((render) => `${render.format}: ${render.error || "Render failed"}`).join("; "),
+    };
+  }
+
+  return { status: "done", error: null };
+}
+
+/**
+ * Mark a render submission as failed so it shows up for retry
+ */
+async function recordRenderFailure(supabase: any, recordingId: string, message: string) {
+  const { error } = await supabase
+    .from("recordings")
+    .update({
+      render_status: "failed",
+      render_error: message,
+      render_updated_at: new Date().toISOString(),
+    })
+    .eq("id", recordingId);
+
+  if (error) {
+    console.error(`❌ [AutomationService] Failed to store render failure:`, error);
+  }
+}
+
+/**
+ * Find the recording that owns a render (any format)
+ */
+async function findRenderRow(supabase: any, renderId: string): Promise<any | null> {
+  const { data, error } = await supabase
+    .from("recordings")
+    .select(RENDER_COLUMNS)
+    .contains("format_renders", JSON.stringify([{ renderId }]))
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (data) {
+    return data;
+  }
+
+  // Rows from before per-format tracking
+  const { data: legacy, error: legacyError } = await supabase
+    .from("recordings")
+    .select(RENDER_COLUMNS)
+    .eq("shotstack_render_id", renderId)
+    .maybeSingle();
+
+  if (legacyError) {
+    throw legacyError;
+  }
+
+  return legacy;
+}
+
+/**
+ * Read the stored state of a render
+ */
+export async function getStoredRender(renderId: string): Promise<StoredRender | null> {
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+  const row = await findRenderRow(supabase, renderId);
+  return row ? toStoredRender(row) : null;
+}
+
+/**
+ * Fetch the latest status of every unfinished format from Shotstack and store it
+ * Called with any of the recording's render IDs; returns null if no recording owns it
+ */
+export async function syncRenderStatus(renderId: string): Promise<StoredRender | null> {
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+
+  for (let attempt = 1; attempt <= MAX_RENDER_UPDATE_ATTEMPTS; attempt++) {
+    const row = await findRenderRow(supabase, renderId);
+    if (!row) {
+      return null;
+    }
+
+    const formats = await Promise.all(
+      getFormatRenders(row).map(async (render): Promise<FormatRender> => {
+        if (!render.renderId || render.status === "done" || render.status === "failed") {
+          return render;
+        }
+
+        const status = await getRenderStatus(render.renderId);
+        return {
+          ...render,
+          status: status.status,
+          url: status.url || null,
+          error: status.status === "failed" ? status.error || "Render failed" : null,
+          muxAssetId: status.mux?.assetId || render.muxAssetId || null,
+          muxPlaybackId: status.mux?.playbackId || render.muxPlaybackId || null,
+        };
+      })
+    );
+
+    const summary = summarizeRenders(formats);
+    const primary = formats.find((render) => render.renderId === row.shotstack_render_id);
+
+    // Only apply if nothing else (a retry or another format's callback) changed the row meanwhile
+    let update = supabase
+      .from("recordings")
+      .update({
+        format_renders: formats,
+        render_status: summary.status,
+        render_url: primary?.url || null,
+        render_error: summary.error,
+        final_mux_asset_id: primary?.muxAssetId || row.final_mux_asset_id,
+        final_mux_playback_id: primary?.muxPlaybackId || row.final_mux_playback_id,
+        render_updated_at: new Date().toISOString(),
+      })
+      .eq("id", row.id);
+
+    update = row.render_updated_at
+      ? update.eq("render_updated_at", row.render_updated_at)
+      : update.is("render_updated_at", null);
+
+    const { data, error } = await update.select(RENDER_COLUMNS).maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (data) {
+      console.log(
+        `📊 [AutomationService] Renders for ${row.id}: ${formats.map((render) => `${render.format} ${render.status}`).join(", ")}`
+      );
+      return toStoredRender(data);
+    }
+  }
+
+  // Still contended - report what's stored, the next callback or poll catches up
+  return getStoredRender(renderId);
+}
+
+// ==================== SESSION REEL TRACKING ====================
+
+const REEL_RENDER_COLUMNS =
+  "id, reel_render_id, reel_render_status, reel_render_url, reel_render_error, reel_mux_asset_id, reel_mux_playback_id, reel_render_updated_at";
+
+function toStoredReelRender(row: any): StoredReelRender {
+  return {
+    sessionId: row.id,
+    renderId: row.reel_render_id,
+    status: row.reel_render_status,
+    url: row.reel_render_url,
+    error: row.reel_render_error,
+    muxAssetId: row.reel_mux_asset_id,
+    muxPlaybackId: row.reel_mux_playback_id,
+    updatedAt: row.reel_render_updated_at,
+  };
+}
+
+/**
+ * Find the session whose current reel is this render
+ */
+async function findReelRow(supabase: any, renderId: string): Promise<any | null> {
+  const { data, error } = await supabase
+    .from("sessions")
+    .select(REEL_RENDER_COLUMNS)
+    .eq("reel_render_id", renderId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Read the stored state of a session reel render
+ */
+export async function getStoredReelRender(renderId: string): Promise<StoredReelRender | null> {
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+  const row = await findReelRow(supabase, renderId);
+  return row ? toStoredReelRender(row) : null;
+}
+
+/**
+ * Fetch a reel render's latest status from Shotstack and store it on the session
+ * Returns null if no session's current reel is this render
+ */
+export async function syncReelRenderStatus(renderId: string): Promise<StoredReelRender | null> {
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+
+  const row = await findReelRow(supabase, renderId);
+  if (!row) {
+    return null;
+  }
+
+  if (row.reel_render_status === "done" || row.reel_render_status === "failed") {
+    return toStoredReelRender(row);
+  }
+
+  const status = await getRenderStatus(renderId);
+
+  // Matching the render ID keeps a newer reel from being overwritten by this one's status
+  const { data, error } = await supabase
+    .from("sessions")
+    .update({
+      reel_render_status: status.status,
+      reel_render_url: status.url || null,
+      reel_render_error: status.status === "failed" ? status.error || "Render failed" : null,
+      reel_mux_asset_id: status.mux?.assetId || row.reel_mux_asset_id,
+      reel_mux_playback_id: status.mux?.playbackId || row.reel_mux_playback_id,
+      reel_render_updated_at: new Date().toISOString(),
+    })
+    .eq("id", row.id)
+    .eq("reel_render_id", renderId)
+    .select(REEL_RENDER_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  console.log(`📊 [AutomationService] Reel render for session ${row.id}: ${status.status}`);
+  return toStoredReelRender(data);
+}
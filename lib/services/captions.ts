@@ -0,0 +1,395 @@
+/**
+ * Captions Service
+ * Builds caption files (VTT, SRT, JSON, plain text) from a recording's transcript word timings
+ * Served by /api/recordings/[id]/captions for Mux text tracks (signed, expiring URLs)
+ * and the CMS, and attached to each recording's Mux asset as a subtitles track
+ * Campaign caption languages get translated tracks alongside the original
+ */
+
+import crypto from "crypto";
+import { createClient } from "@supabase/supabase-js";
+import { replaceSubtitleTrack } from "@/lib/mux/client";
+import { translateLines } from "@/lib/gemini/client";
+import {
+  AUTO_LANGUAGE,
+  getBaseLanguage,
+  getLanguageName,
+  normalizeLanguageCodes,
+} from "@/lib/i18n/languages";
+import {
+  CaptionLine,
+  Transcription,
+  jsonToSrt,
+  jsonToVtt,
+  jsonToCaptionDocument,
+  jsonToCaptionLines,
+  jsonToText,
+  captionLinesToSrt,
+  captionLinesToVtt,
+  getTranscriptDuration,
+  toTranscription,
+} from "@/lib/transcription/utils";
+
+// ==================== CONFIGURATION ====================
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// Public base URL - Mux downloads the VTT from our captions route
+const APP_URL = process.env.APP_URL;
+
+// Signs the caption URLs handed to Mux - the captions route rejects unsigned requests
+const CAPTIONS_URL_SECRET = process.env.CAPTIONS_URL_SECRET;
+
+// Mux downloads the file right after the track is created, so signed URLs can be short-lived
+const CAPTIONS_URL_TTL_MS = 60 * 60 * 1000;
+
+// Tags our generated track so it can be found and replaced on the asset
+const MUX_TRACK_PASSTHROUGH = "shine-captions";
+
+// Used when neither the transcript nor the campaign says which language was spoken
+const DEFAULT_CAPTION_LANGUAGE = "en";
+
+// ==================== TYPES ====================
+
+export type CaptionFormat = "vtt" | "srt" | "json" | "txt";
+
+export const CAPTION_FORMATS: CaptionFormat[] = ["vtt", "srt", "json", "txt"];
+
+export interface CaptionFile {
+  content: string;
+  contentType: string;
+  fileName: string;
+}
+
+const CONTENT_TYPES: Record<CaptionFormat, string> = {
+  vtt: "text/vtt; charset=utf-8",
+  srt: "application/x-subrip; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  txt: "text/plain; charset=utf-8",
+};
+
+export function isCaptionFormat(value: unknown): value is CaptionFormat {
+  return typeof value === "string" && CAPTION_FORMATS.includes(value as CaptionFormat);
+}
+
+// ==================== SIGNED URLS ====================
+
+function signCaptionsRequest(
+  recordingId: string,
+  format: CaptionFormat,
+  language: string | undefined,
+  expires: number
+): string {
+  return crypto
+    .createHmac("sha256", CAPTIONS_URL_SECRET!)
+    .update(`${recordingId}:${format}:${language || ""}:${expires}`)
+    .digest("hex");
+}
+
+/**
+ * Public captions URL for Mux to fetch, signed and valid for CAPTIONS_URL_TTL_MS
+ * The expiry also keeps Mux from reusing a cached copy of an older transcript
+ */
+function getSignedCaptionsUrl(recordingId: string, language?: string): string {
+  const format: CaptionFormat = "vtt";
+  const expires = Date.now() + CAPTIONS_URL_TTL_MS;
+  const params = new URLSearchParams({ format });
+  if (language) params.set("lang", language);
+  params.set("expires", String(expires));
+  params.set("token", signCaptionsRequest(recordingId, format, language, expires));
+
+  return `${APP_URL}/api/recordings/${recordingId}/captions?${params.toString()}`;
+}
+
+/**
+ * Check a captions request's token against its recording, format, language and expiry
+ * Always false when CAPTIONS_URL_SECRET isn't configured
+ */
+export function isValidCaptionsToken(
+  recordingId: string,
+  format: CaptionFormat,
+  language: string | undefined,
+  expires: string | null,
+  token: string | null
+): boolean {
+  const expiresAt = Number(expires);
+  if (!CAPTIONS_URL_SECRET || !token || !Number.isFinite(expiresAt) || expiresAt < Date.now()) {
+    return false;
+  }
+
+  const provided = Buffer.from(token);
+  const expected = Buffer.from(signCaptionsRequest(recordingId, format, language, expiresAt));
+
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+}
+
+// ==================== BUILDERS ====================
+
+/**
+ * Render a transcription in the requested caption format
+ */
+export function buildCaptions(transcription: Transcription, format: CaptionFormat): string {
+  switch (format) {
+    case "vtt":
+      return jsonToVtt(transcription);
+    case "srt":
+      return jsonToSrt(transcription);
+    case "json":
+      return JSON.stringify(jsonToCaptionDocument(transcription));
+    case "txt":
+      return jsonToText(transcription);
+  }
+}
+
+/**
+ * Render translated caption lines (no word timings) in the requested format
+ */
+export function buildTranslatedCaptions(
+  lines: CaptionLine[],
+  format: CaptionFormat,
+  language: string,
+  duration: number | null = null
+): string {
+  switch (format) {
+    case "vtt":
+      return captionLinesToVtt(lines);
+    case "srt":
+      return captionLinesToSrt(lines);
+    case "json":
+      return JSON.stringify({
+        version: 1,
+        language,
+        duration,
+        cues: lines.map((line) => ({ ...line, words: [] })),
+      });
+    case "txt":
+      return lines.map((line) => line.text).join(" ");
+  }
+}
+
+/**
+ * Caption file for a recording, optionally in a translated language
+ * Returns null when the recording doesn't exist, has no word timings yet,
+ * or hasn't been translated into the requested language
+ */
+export async function getRecordingCaptions(
+  recordingId: string,
+  format: CaptionFormat,
+  language?: string
+): Promise<CaptionFile | null> {
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+
+  // Type cast to bypass Supabase type inference
+  const { data: recording, error } = await (supabase
+    .from("recordings") as any)
+    .select("id, transcription_data, captions_language")
+    .eq("id", recordingId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  const transcript = toTranscription(recording?.transcription_data);
+  if (!transcript) {
+    return null;
+  }
+
+  const sourceLanguage = recording.captions_language || getSpokenLanguage(transcript, null);
+
+  if (!language || getBaseLanguage(language) === getBaseLanguage(sourceLanguage)) {
+    return {
+      content: buildCaptions(transcript, format),
+      contentType: CONTENT_TYPES[format],
+      fileName: `recording-${recordingId}.${format}`,
+    };
+  }
+
+  const { data: translation, error: translationError } = await (supabase
+    .from("caption_translations") as any)
+    .select("cues")
+    .eq("recording_id", recordingId)
+    .eq("language", language)
+    .maybeSingle();
+
+  if (translationError) {
+    throw translationError;
+  }
+
+  if (!translation) {
+    return null;
+  }
+
+  return {
+    content: buildTranslatedCaptions(
+      translation.cues as CaptionLine[],
+      format,
+      language,
+      getTranscriptDuration(transcript)
+    ),
+    contentType: CONTENT_TYPES[format],
+    fileName: `recording-${recordingId}.${language}.${format}`,
+  };
+}
+
+// ==================== MUX TEXT TRACKS ====================
+
+/**
+ * Language the answer was spoken in - the provider's detection, then the campaign setting
+ */
+function getSpokenLanguage(transcript: Transcription, campaignLanguage: string | null): string {
+  const detected = transcript.language;
+  if (detected) {
+    return detected;
+  }
+
+  if (campaignLanguage && campaignLanguage !== AUTO_LANGUAGE) {
+    return campaignLanguage;
+  }
+
+  return DEFAULT_CAPTION_LANGUAGE;
+}
+
+/**
+ * Translate the recording's captions (reusing a stored translation of the same
+ * transcript version) and attach them to the Mux asset as an extra subtitles track
+ */
+async function attachTranslatedCaptions(
+  supabase: any, // Supabase client instance
+  recording: { id: string; mux_asset_id: string; transcript_version: number | null },
+  transcript: Transcription,
+  sourceLanguage: string,
+  targetLanguage: string
+): Promise<string | null> {
+  const version = recording.transcript_version ?? 0;
+
+  const { data: existing, error } = await (supabase
+    .from("caption_translations") as any)
+    .select("transcript_version")
+    .eq("recording_id", recording.id)
+    .eq("language", targetLanguage)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  // Translate again only when the transcript was edited since the last translation
+  if (!existing || existing.transcript_version !== version) {
+    const lines = jsonToCaptionLines(transcript);
+    const translated = await translateLines(
+      lines.map((line) => line.text),
+      getLanguageName(targetLanguage),
+      getLanguageName(sourceLanguage)
+    );
+
+    const { error: saveError } = await (supabase
+      .from("caption_translations") as any)
+      .upsert(
+        {
+          recording_id: recording.id,
+          language: targetLanguage,
+          transcript_version: version,
+          cues: lines.map((line, index) => ({ ...line, text: translated[index] })),
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "recording_id,language" }
+      );
+
+    if (saveError) {
+      throw saveError;
+    }
+  }
+
+  const track = await replaceSubtitleTrack(recording.mux_asset_id, {
+    url: getSignedCaptionsUrl(recording.id, targetLanguage),
+    languageCode: targetLanguage,
+    name: getLanguageName(targetLanguage),
+    passthrough: `${MUX_TRACK_PASSTHROUGH}:${targetLanguage}`,
+  });
+
+  const { error: updateError } = await (supabase
+    .from("caption_translations") as any)
+    .update({ mux_text_track_id: track.id || null })
+    .eq("recording_id", recording.id)
+    .eq("language", targetLanguage);
+
+  if (updateError) {
+    console.error("❌ [Captions] Failed to store translated text track ID:", updateError);
+  }
+
+  console.log(`🌐 [Captions] ${getLanguageName(targetLanguage)} subtitles track ${track.id} attached to asset ${recording.mux_asset_id}`);
+  return track.id || null;
+}
+
+/**
+ * Attach the recording's VTT to its Mux asset as a subtitles track, replacing any earlier one,
+ * plus a translated track for each of the campaign's caption languages
+ * Returns the original track ID, or null when there's nothing to attach
+ */
+export async function attachCaptionsToMux(recordingId: string): Promise<string | null> {
+  if (!APP_URL || !CAPTIONS_URL_SECRET) {
+    console.log("⚠️ [Captions] APP_URL or CAPTIONS_URL_SECRET not set - Mux can't fetch captions, skipping text track");
+    return null;
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+
+  // Type cast to bypass Supabase type inference
+  const { data: recording, error } = await (supabase
+    .from("recordings") as any)
+    .select("id, mux_asset_id, transcription_data, transcript_version, sessions ( campaigns ( language, caption_languages ) )")
+    .eq("id", recordingId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  const transcript = toTranscription(recording?.transcription_data);
+  if (!recording?.mux_asset_id || !transcript) {
+    console.log(`⚠️ [Captions] Recording ${recordingId} has no asset or transcript yet, skipping text track`);
+    return null;
+  }
+
+  const campaign = recording.sessions?.campaigns;
+  const languageCode = getSpokenLanguage(transcript, campaign?.language || null);
+
+  const track = await replaceSubtitleTrack(recording.mux_asset_id, {
+    url: getSignedCaptionsUrl(recordingId),
+    languageCode,
+    name: getLanguageName(languageCode),
+    passthrough: MUX_TRACK_PASSTHROUGH,
+  });
+
+  const { error: updateError } = await (supabase
+    .from("recordings") as any)
+    .update({
+      mux_text_track_id: track.id || null,
+      captions_language: languageCode,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", recordingId);
+
+  if (updateError) {
+    console.error("❌ [Captions] Failed to store text track ID:", updateError);
+  }
+
+  console.log(`💬 [Captions] Subtitles track ${track.id} (${languageCode}) attached to asset ${recording.mux_asset_id}`);
+
+  // Translations are extras - one failing language shouldn't block the others
+  const targetLanguages = normalizeLanguageCodes(campaign?.caption_languages).filter(
+    (language) => getBaseLanguage(language) !== getBaseLanguage(languageCode)
+  );
+
+  for (const targetLanguage of targetLanguages) {
+    try {
+      await attachTranslatedCaptions(supabase, recording, transcript, languageCode, targetLanguage);
+    } catch (error) {
+      console.error(`❌ [Captions] Failed to attach ${targetLanguage} captions for ${recordingId}:`, error);
+    }
+  }
+
+  return track.id || null;
+}
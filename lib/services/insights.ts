@@ -0,0 +1,166 @@
+/**
+ * Testimonial Insights Service
+ * Stores typed insights (metrics, pain points, features, competitors, NPS,
+ * titles, industries) per recording so they can be queried across campaigns
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import { normalizeVocabulary } from "@/lib/evaluation/rulesEngine";
+import {
+  extractInsights,
+  InsightKind,
+  TestimonialInsight,
+} from "@/lib/evaluation/insightExtractor";
+import { AUTO_LANGUAGE, getBaseLanguage } from "@/lib/i18n/languages";
+import { toTranscription } from "@/lib/transcription/utils";
+
+// ==================== CONFIGURATION ====================
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// ==================== TYPES ====================
+
+export interface InsightRecord {
+  id: string;
+  recording_id: string;
+  session_id: string | null;
+  campaign_id: string | null;
+  kind: InsightKind;
+  text: string;
+  value: number | null;
+  unit: string | null;
+  context: string | null;
+  start_seconds: number | null;
+  end_seconds: number | null;
+  transcript_version: number;
+  created_at: string;
+}
+
+export interface InsightFilters {
+  campaignId?: string;
+  recordingId?: string;
+  kind?: InsightKind;
+  unit?: string;
+  minValue?: number;
+  maxValue?: number;
+  limit?: number;
+}
+
+// ==================== EXTRACTION ====================
+
+/**
+ * Extract insights from a recording's transcript and replace its stored records
+ * Returns the new records, or null when there's no transcript (or it isn't English)
+ * or it was edited while extracting
+ */
+export async function extractRecordingInsights(recordingId: string): Promise<TestimonialInsight[] | null> {
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+
+  // Type cast to bypass Supabase type inference
+  const { data: recording, error } = await (supabase
+    .from("recordings") as any)
+    .select("id, transcription_data, transcript_version, sessions ( campaigns ( vocabulary, language ) )")
+    .eq("id", recordingId)
+    .single();
+
+  if (error || !recording) {
+    throw new Error(`Recording not found: ${recordingId}`);
+  }
+
+  const transcription = toTranscription(recording.transcription_data);
+
+  if (!transcription) {
+    console.log(`⚠️ [Insights] No transcript for recording ${recordingId}, skipping`);
+    return null;
+  }
+
+  // Extraction patterns are English-only
+  const campaign = recording.sessions?.campaigns;
+  const language = transcription.language ||
+    (campaign?.language && campaign.language !== AUTO_LANGUAGE ? campaign.language : "en");
+
+  if (getBaseLanguage(language) !== "en") {
+    console.log(`🌐 [Insights] Recording ${recordingId} is in ${language}, skipping extraction`);
+    return null;
+  }
+
+  const insights = extractInsights(transcription, normalizeVocabulary(campaign?.vocabulary));
+
+  // Replace rather than append - the transcript may have been edited since the last run
+  // One transaction, skipped if the transcript changed while we were extracting
+  const transcriptVersion = recording.transcript_version ?? 0;
+  const { data: stored, error: replaceError } = await (supabase as any).rpc("replace_recording_insights", {
+    target_recording_id: recordingId,
+    extracted_transcript_version: transcriptVersion,
+    new_insights: insights.map((insight) => ({
+      kind: insight.kind,
+      text: insight.text,
+      value: insight.value,
+      unit: insight.unit,
+      context: insight.context,
+      start_seconds: insight.startSeconds,
+      end_seconds: insight.endSeconds,
+    })),
+  });
+
+  if (replaceError) {
+    throw replaceError;
+  }
+
+  if (stored === null) {
+    console.log(`⏭️ [Insights] Recording ${recordingId} transcript changed since version ${transcriptVersion}, skipping stale insights`);
+    return null;
+  }
+
+  console.log(`💡 [Insights] Recording ${recordingId}: ${insights.length} insight(s) stored`);
+  return insights;
+}
+
+// ==================== QUERIES ====================
+
+/**
+ * List stored insights, e.g. every ROI metric of 5x or more:
+ * { kind: "metric", unit: "multiplier", minValue: 5 }
+ */
+export async function listInsights(filters: InsightFilters = {}): Promise<InsightRecord[]> {
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+
+  let query = (supabase
+    .from("testimonial_insights") as any)
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(filters.limit || 100);
+
+  if (filters.campaignId) {
+    query = query.eq("campaign_id", filters.campaignId);
+  }
+
+  if (filters.recordingId) {
+    query = query.eq("recording_id", filters.recordingId);
+  }
+
+  if (filters.kind) {
+    query = query.eq("kind", filters.kind);
+  }
+
+  if (filters.unit) {
+    query = query.eq("unit", filters.unit);
+  }
+
+  if (filters.minValue !== undefined) {
+    query = query.gte("value", filters.minValue);
+  }
+
+  if (filters.maxValue !== undefined) {
+    query = query.lte("value", filters.maxValue);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []) as InsightRecord[];
+}
@@ -0,0 +1,414 @@
+/**
+ * Recording Job Queue
+ * Supabase-backed job table for the recording pipeline
+ * Handles enqueueing, atomic claiming, retry with exponential backoff and dead-lettering
+ * Stage logic lives in recordingPipeline.ts
+ */
+
+import { createClient } from "@supabase/supabase-js";
+
+// ==================== CONFIGURATION ====================
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// First retry after a failure, doubled per attempt
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+// Upper bound for the retry delay
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+
+// Jobs waiting on an external system (Mux asset, Shotstack render) give up after this long
+const MAX_WAIT_MS = 2 * 60 * 60 * 1000;
+
+// Postgres unique_violation - an active job for this stage already exists
+const UNIQUE_VIOLATION = "23505";
+
+// requeueJob races the active job finishing - give up after this many tries
+const MAX_REQUEUE_ATTEMPTS = 3;
+
+// ==================== TYPES ====================
+
+export type PipelineStage =
+  | "uploaded"
+  | "asset_ready"
+  | "transcribed"
+  | "evaluated"
+  | "rendered"
+  | "published";
+
+/** Stages produced by a job ("uploaded" is the state a recording starts in) */
+export type JobStage = Exclude<PipelineStage, "uploaded">;
+
+export const JOB_STAGES: JobStage[] = [
+  "asset_ready",
+  "transcribed",
+  "evaluated",
+  "rendered",
+  "published",
+];
+
+export type JobStatus = "pending" | "running" | "completed" | "dead";
+
+export interface RecordingJob {
+  id: string;
+  recording_id: string;
+  stage: JobStage;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  payload: Record<string, any>;
+  requeue_payload: Record<string, any> | null;
+  last_error: string | null;
+  run_after: string;
+  locked_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Thrown when a stage is waiting on something outside our control
+ * Reschedules without consuming an attempt (until MAX_WAIT_MS)
+ */
+export class RetryLaterError extends Error {
+  constructor(message: string, public delayMs: number = RETRY_BASE_DELAY_MS) {
+    super(message);
+    this.name = "RetryLaterError";
+  }
+}
+
+/**
+ * Thrown when retrying cannot help - the job is dead-lettered immediately
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentJobError";
+  }
+}
+
+function getSupabase() {
+  return createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Stage that follows the given one, or null at the end of the pipeline
+ */
+export function getNextStage(stage: PipelineStage): JobStage | null {
+  if (stage === "uploaded") return JOB_STAGES[0];
+  const index = JOB_STAGES.indexOf(stage);
+  return index >= 0 && index < JOB_STAGES.length - 1 ? JOB_STAGES[index + 1] : null;
+}
+
+export function isJobStage(value: unknown): value is JobStage {
+  return typeof value === "string" && JOB_STAGES.includes(value as JobStage);
+}
+
+/**
+ * Exponential backoff delay for the given attempt number (1-based)
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+// ==================== QUEUE OPERATIONS ====================
+
+/**
+ * Add a job for a stage
+ * Returns null if an active (pending/running) job already exists for that stage
+ */
+export async function enqueueJob(
+  recordingId: string,
+  stage: JobStage,
+  options: { payload?: Record<string, any>; delayMs?: number } = {}
+): Promise<RecordingJob | null> {
+  const supabase = getSupabase();
+
+  // Type cast to bypass Supabase type inference
+  const { data, error } = await (supabase
+    .from("recording_jobs") as any)
+    .insert({
+      recording_id: recordingId,
+      stage,
+      payload: options.payload || {},
+      run_after: new Date(Date.now() + (options.delayMs || 0)).toISOString(),
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) {
+      console.log(`⏭️ [JobQueue] ${stage} job already active for recording ${recordingId}`);
+      return null;
+    }
+    throw error;
+  }
+
+  console.log(`📥 [JobQueue] Enqueued ${stage} for recording ${recordingId}`);
+  return data as RecordingJob;
+}
+
+/**
+ * Make sure a stage runs (again) with this payload, even if a job for it is already active
+ * A pending job takes over the new payload and is made due; a running one is re-queued by
+ * the worker when it finishes (see takeRequeuePayload)
+ * Returns false if the active job kept changing state and nothing could be arranged
+ */
+export async function requeueJob(
+  recordingId: string,
+  stage: JobStage,
+  payload: Record<string, any>
+): Promise<boolean> {
+  const supabase = getSupabase();
+
+  for (let attempt = 0; attempt < MAX_REQUEUE_ATTEMPTS; attempt++) {
+    if (await enqueueJob(recordingId, stage, { payload })) {
+      return true;
+    }
+
+    // Type cast to bypass Supabase type inference
+    const { data: pending, error: pendingError } = await (supabase
+      .from("recording_jobs") as any)
+      .update({ payload, run_after: new Date().toISOString() })
+      .eq("recording_id", recordingId)
+      .eq("stage", stage)
+      .eq("status", "pending")
+      .select("id");
+
+    if (pendingError) {
+      throw pendingError;
+    }
+
+    if (pending?.length) {
+      console.log(`📥 [JobQueue] Updated pending ${stage} job for recording ${recordingId}`);
+      return true;
+    }
+
+    const { data: running, error: runningError } = await (supabase
+      .from("recording_jobs") as any)
+      .update({ requeue_payload: payload })
+      .eq("recording_id", recordingId)
+      .eq("stage", stage)
+      .eq("status", "running")
+      .select("id");
+
+    if (runningError) {
+      throw runningError;
+    }
+
+    if (running?.length) {
+      console.log(`📥 [JobQueue] ${stage} will run again for recording ${recordingId} once the running job finishes`);
+      return true;
+    }
+
+    // The active job finished in between - try enqueueing again
+  }
+
+  return false;
+}
+
+/**
+ * Take the re-queue request parked on a job while it ran (null when there is none)
+ * Call once the job is no longer running, so no new request can arrive after reading
+ */
+export async function takeRequeuePayload(job: RecordingJob): Promise<Record<string, any> | null> {
+  const supabase = getSupabase();
+
+  const { data, error } = await (supabase
+    .from("recording_jobs") as any)
+    .select("requeue_payload")
+    .eq("id", job.id)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data?.requeue_payload) {
+    return null;
+  }
+
+  const { error: clearError } = await (supabase
+    .from("recording_jobs") as any)
+    .update({ requeue_payload: null })
+    .eq("id", job.id);
+
+  if (clearError) {
+    throw clearError;
+  }
+
+  return data.requeue_payload;
+}
+
+/**
+ * Atomically lock up to `batchSize` due jobs (optionally for one recording)
+ */
+export async function claimJobs(
+  batchSize: number,
+  recordingId?: string
+): Promise<RecordingJob[]> {
+  const supabase = getSupabase();
+
+  const { data, error } = await (supabase as any).rpc("claim_recording_jobs", {
+    batch_size: batchSize,
+    only_recording_id: recordingId || null,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []) as RecordingJob[];
+}
+
+/**
+ * Mark a job completed and store its output payload
+ */
+export async function completeJob(
+  job: RecordingJob,
+  payload?: Record<string, any>
+): Promise<void> {
+  const supabase = getSupabase();
+
+  const { error } = await (supabase
+    .from("recording_jobs") as any)
+    .update({
+      status: "completed",
+      payload: { ...job.payload, ...payload },
+      last_error: null,
+      locked_at: null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq("id", job.id);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Record a failure: reschedule with backoff, or dead-letter when out of attempts
+ * Returns the new job status
+ */
+export async function failJob(job: RecordingJob, error: unknown): Promise<JobStatus> {
+  const supabase = getSupabase();
+  const message = error instanceof Error ? error.message : String(error);
+
+  let status: JobStatus = "pending";
+  let attempts = job.attempts;
+  let delayMs = getRetryDelayMs(job.attempts);
+
+  if (error instanceof PermanentJobError) {
+    status = "dead";
+  } else if (error instanceof RetryLaterError) {
+    // Waiting isn't a failure - give the attempt back
+    attempts = Math.max(job.attempts - 1, 0);
+    delayMs = error.delayMs;
+    if (Date.now() - new Date(job.created_at).getTime() > MAX_WAIT_MS) {
+      status = "dead";
+    }
+  } else if (job.attempts >= job.max_attempts) {
+    status = "dead";
+  }
+
+  const { error: updateError } = await (supabase
+    .from("recording_jobs") as any)
+    .update({
+      status,
+      attempts,
+      last_error: message,
+      locked_at: null,
+      run_after: new Date(Date.now() + delayMs).toISOString(),
+    })
+    .eq("id", job.id);
+
+  if (updateError) {
+    console.error("❌ [JobQueue] Failed to record job failure:", updateError);
+  }
+
+  if (status === "dead") {
+    console.error(`💀 [JobQueue] ${job.stage} job dead-lettered for recording ${job.recording_id}: ${message}`);
+  } else {
+    console.warn(`🔁 [JobQueue] ${job.stage} job for recording ${job.recording_id} retrying in ${Math.round(delayMs / 1000)}s: ${message}`);
+  }
+
+  return status;
+}
+
+/**
+ * Make waiting jobs for a stage due now (e.g. when a callback says the wait is over)
+ */
+export async function wakeJobs(recordingId: string, stage: JobStage): Promise<void> {
+  const supabase = getSupabase();
+
+  const { error } = await (supabase
+    .from("recording_jobs") as any)
+    .update({ run_after: new Date().toISOString() })
+    .eq("recording_id", recordingId)
+    .eq("stage", stage)
+    .eq("status", "pending");
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Most recent completed job for a stage (used to read outputs like a render ID)
+ */
+export async function getLatestCompletedJob(
+  recordingId: string,
+  stage: JobStage
+): Promise<RecordingJob | null> {
+  const supabase = getSupabase();
+
+  const { data, error } = await (supabase
+    .from("recording_jobs") as any)
+    .select("*")
+    .eq("recording_id", recordingId)
+    .eq("stage", stage)
+    .eq("status", "completed")
+    .order("completed_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as RecordingJob | null;
+}
+
+/**
+ * List jobs for the admin API
+ */
+export async function listJobs(
+  filters: { recordingId?: string; status?: JobStatus; limit?: number } = {}
+): Promise<RecordingJob[]> {
+  const supabase = getSupabase();
+
+  let query = (supabase
+    .from("recording_jobs") as any)
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(filters.limit || 100);
+
+  if (filters.recordingId) {
+    query = query.eq("recording_id", filters.recordingId);
+  }
+
+  if (filters.status) {
+    query = query.eq("status", filters.status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []) as RecordingJob[];
+}
@@ -0,0 +1,620 @@
+/**
+ * Recording Pipeline Service
+ * Moves recordings through the job pipeline server-side:
+ *   uploaded → asset_ready → transcribed → evaluated → rendered → published
+ * Kicked off by Mux webhooks and the recordings API, retried by the job worker,
+ * so nothing depends on the respondent's browser staying open
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import { getUpload, getAsset } from "@/lib/mux/client";
+import { transcribe, TranscriptionOptions } from "@/lib/transcription/client";
+import { normalizeVocabulary } from "@/lib/evaluation/rulesEngine";
+import { processReadyVideo, syncRenderStatus } from "./automation";
+import { extractSoundbite } from "./soundbites";
+import { attachCaptionsToMux } from "./captions";
+import { evaluateRecording } from "./answerEvaluation";
+import { extractRecordingInsights } from "./insights";
+import {
+  JOB_STAGES,
+  JobStage,
+  RecordingJob,
+  RetryLaterError,
+  PermanentJobError,
+  enqueueJob,
+  requeueJob,
+  takeRequeuePayload,
+  claimJobs,
+  completeJob,
+  failJob,
+  getNextStage,
+  getLatestCompletedJob,
+} from "./jobQueue";
+
+// ==================== CONFIGURATION ====================
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// Run Shotstack post-production automatically after transcription
+const AUTO_POST_PRODUCE = process.env.AUTO_POST_PRODUCE === "true";
+
+// Jobs claimed per worker batch
+const WORKER_BATCH_SIZE = 5;
+
+// Safety limit on batches per worker run (stages chain within one run)
+const WORKER_MAX_BATCHES = 10;
+
+// Poll interval while waiting on Mux or Shotstack (ms)
+const EXTERNAL_WAIT_DELAY_MS = 30 * 1000;
+
+// ==================== TYPES ====================
+
+export interface MuxSyncResult {
+  status: "processing" | "ready" | "error";
+  assetId?: string;
+  playbackId?: string;
+  /** True when this call moved the recording to ready (caller should start the pipeline) */
+  becameReady: boolean;
+}
+
+/** Output of a stage handler */
+interface StageResult {
+  /** Whether to enqueue the next stage */
+  continue: boolean;
+  /** Stored on the completed job and passed to the next stage */
+  payload?: Record<string, any>;
+  /** The stage's work didn't run - the recording's pipeline stage stays where it was */
+  skipped?: boolean;
+}
+
+export interface WorkerRunResult {
+  processed: number;
+  succeeded: number;
+  failed: number;
+}
+
+function getSupabase() {
+  return createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+}
+
+// ==================== RECORDING STATE ====================
+
+/**
+ * Mark a recording ready with its asset and playback ID
+ * Returns true only for the call that made the transition, so the pipeline runs once
+ * even when the webhook and the upload reconciliation race each other
+ */
+export async function markRecordingReady(
+  recordingId: string,
+  assetId: string,
+  playbackId: string | undefined
+): Promise<boolean> {
+  const supabase = getSupabase();
+
+  // Type cast to bypass Supabase type inference
+  const { data, error } = await (supabase
+    .from("recordings") as any)
+    .update({
+      mux_asset_id: assetId,
+      mux_playback_id: playbackId || null,
+      video_status: "ready",
+      pipeline_stage: "asset_ready",
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", recordingId)
+    .neq("video_status", "ready")
+    .select("id");
+
+  if (error) {
+    throw error;
+  }
+
+  return (data?.length || 0) > 0;
+}
+
+/**
+ * Check Mux for an upload's asset and bring the recording up to date
+ * Covers webhooks that arrived before the recording row existed
+ */
+export async function syncRecordingWithMux(
+  recordingId: string,
+  uploadId: string
+): Promise<MuxSyncResult> {
+  const upload = await getUpload(uploadId);
+
+  if (!upload.asset_id) {
+    return { status: "processing", becameReady: false };
+  }
+
+  const asset = await getAsset(upload.asset_id);
+
+  if (asset.status === "ready") {
+    const playbackId = asset.playback_ids?.[0]?.id;
+    const becameReady = await markRecordingReady(recordingId, asset.id, playbackId);
+    return { status: "ready", assetId: asset.id, playbackId, becameReady };
+  }
+
+  if (asset.status === "errored") {
+    const supabase = getSupabase();
+    await supabase
+      .from("recordings")
+      .update({ video_status: "error", updated_at: new Date().toISOString() })
+      .eq("id", recordingId);
+
+    return { status: "error", assetId: asset.id, becameReady: false };
+  }
+
+  // Asset exists but is still preparing - make sure it's linked for the ready webhook
+  const supabase = getSupabase();
+  await (supabase
+    .from("recordings") as any)
+    .update({ mux_asset_id: asset.id, updated_at: new Date().toISOString() })
+    .eq("id", recordingId)
+    .is("mux_asset_id", null);
+
+  return { status: "processing", assetId: asset.id, becameReady: false };
+}
+
+// ==================== TRANSCRIPTION ====================
+
+/**
+ * Wait for a URL to become available (returns 200 OK)
+ */
+async function waitForUrl(url: string, maxAttempts: number = 15, interval: number = 1000): Promise<boolean> {
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      const response = await fetch(url, { method: 'HEAD' });
+      if (response.ok) {
+        console.log(`✅ URL available after ${attempt} attempt(s):`, url);
+        return true;
+      }
+      console.log(`⏳ Waiting for static file generation... (attempt ${attempt}/${maxAttempts}, status: ${response.status})`);
+    } catch (e) {
+      console.log(`⏳ Waiting for static file generation... (attempt ${attempt}/${maxAttempts}, fetch error)`);
+    }
+
+    if (attempt < maxAttempts) {
+      await new Promise(resolve => setTimeout(resolve, interval));
+    }
+  }
+  return false;
+}
+
+/**
+ * Transcription settings of the campaign a recording belongs to (recording → session → campaign)
+ * Falls back to defaults on lookup failure - transcription still works without them
+ */
+async function getTranscriptionOptions(recordingId: string): Promise<TranscriptionOptions> {
+  const supabase = getSupabase();
+
+  // Type cast to bypass Supabase type inference
+  const { data, error } = await (supabase
+    .from("recordings") as any)
+    .select("sessions ( campaigns ( vocabulary, language ) )")
+    .eq("id", recordingId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("❌ Failed to load campaign transcription settings:", error);
+    return {};
+  }
+
+  const campaign = data?.sessions?.campaigns;
+  return {
+    vocabulary: normalizeVocabulary(campaign?.vocabulary),
+    language: campaign?.language || undefined,
+  };
+}
+
+/**
+ * Transcribe a ready recording with the configured provider and store the result
+ * Replacing an edited transcript (transcript_version > 0) stores the new one as the next
+ * version, with a transcript_revisions row recording the overwrite
+ */
+export async function transcribeRecording(recordingId: string, playbackId: string) {
+  const supabase = getSupabase();
+
+  // Define URLs - audio.m4a is smaller/faster for transcription
+  const primaryUrl = `https://stream.mux.com/${playbackId}/audio.m4a`;
+  const fallbackUrl = `https://stream.mux.com/${playbackId}/low.mp4`;
+
+  console.log("📝 Starting transcription for recording:", recordingId);
+  console.log("🔍 Checking for static file availability...");
+
+  // Wait for primary URL (audio.m4a)
+  let urlToUse: string | null = null;
+
+  if (await waitForUrl(primaryUrl, 30, 1000)) {  // 30 attempts, 1s apart = 30s max
+    urlToUse = primaryUrl;
+  } else {
+    console.log("⚠️ audio.m4a not available after retries, trying low.mp4...");
+    if (await waitForUrl(fallbackUrl, 15, 1000)) {  // 15 attempts, 1s apart = 15s max
+      urlToUse = fallbackUrl;
+    }
+  }
+
+  if (!urlToUse) {
+    throw new Error("Static files (audio.m4a and low.mp4) not available after maximum retries");
+  }
+
+  console.log("🔗 Using URL:", urlToUse);
+
+  try {
+    // Update status to processing
+    const { error: updateError } = await supabase
+      .from("recordings")
+      .update({ transcription_status: "processing" })
+      .eq("id", recordingId);
+
+    if (updateError) {
+      console.error("❌ Failed to update status to processing:", updateError);
+    }
+
+    // Transcribe in the campaign's language, boosting its product and feature names
+    const options = await getTranscriptionOptions(recordingId);
+    const result = await transcribe(urlToUse, options);
+
+    // Type cast to bypass Supabase type inference
+    const { data: current, error: versionError } = await (supabase
+      .from("recordings") as any)
+      .select("transcript_version")
+      .eq("id", recordingId)
+      .single();
+
+    if (versionError) {
+      throw versionError;
+    }
+
+    const currentVersion: number = current?.transcript_version ?? 0;
+    const nextVersion = currentVersion > 0 ? currentVersion + 1 : 0;
+
+    // Save transcript and full result (with word timings for captions) to database
+    // Only if no reviewer saved in between - their edit would be lost without a trace
+    const { data: saved, error: saveError } = await (supabase
+      .from("recordings") as any)
+      .update({
+        transcription: result.text,
+        transcription_data: result, // Normalized word timings for captions, soundbites and editing
+        transcription_status: "completed",
+        transcript_version: nextVersion,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", recordingId)
+      .eq("transcript_version", currentVersion)
+      .select("id");
+
+    if (saveError) {
+      console.error("❌ Failed to save transcript to database:", saveError);
+      throw saveError;
+    }
+
+    if (!saved || saved.length === 0) {
+      throw new Error("Transcript was edited during transcription - re-run to replace it");
+    }
+
+    if (nextVersion > 0) {
+      const { error: revisionError } = await (supabase
+        .from("transcript_revisions") as any)
+        .insert({
+          recording_id: recordingId,
+          version: nextVersion,
+          corrections: [],
+          transcription: result.text,
+          transcription_data: result,
+          edited_by: result.provider,
+        });
+
+      if (revisionError) {
+        throw revisionError;
+      }
+
+      console.log(`✏️ Edited transcript v${currentVersion} replaced by ${result.provider} output as v${nextVersion}`);
+    }
+
+    console.log("✅ Transcription completed for recording:", recordingId);
+  } catch (error) {
+    console.error("❌ Transcription failed for recording:", recordingId, error);
+
+    // Update status to failed
+    const { error: failError } = await supabase
+      .from("recordings")
+      .update({ transcription_status: "failed" })
+      .eq("id", recordingId);
+
+    if (failError) {
+      console.error("❌ Failed to update status to failed:", failError);
+    }
+
+    // Re-throw so caller knows it failed
+    throw error;
+  }
+}
+
+// ==================== STAGE HANDLERS ====================
+
+/**
+ * Load the fields stage handlers need
+ */
+async function getRecording(recordingId: string) {
+  const supabase = getSupabase();
+
+  // Type cast to bypass Supabase type inference
+  const { data, error } = await (supabase
+    .from("recordings") as any)
+    .select("id, mux_upload_id, mux_playback_id, video_status, transcription_status, transcript_version")
+    .eq("id", recordingId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data) {
+    throw new PermanentJobError(`Recording not found: ${recordingId}`);
+  }
+
+  return data;
+}
+
+const stageHandlers: Record<JobStage, (job: RecordingJob) => Promise<StageResult>> = {
+  /** Link the Mux asset and playback ID (safety net when webhooks are missed) */
+  async asset_ready(job) {
+    const recording = await getRecording(job.recording_id);
+
+    if (!recording.mux_upload_id) {
+      throw new PermanentJobError("Recording has no Mux upload ID");
+    }
+
+    const result = await syncRecordingWithMux(recording.id, recording.mux_upload_id);
+
+    if (result.status === "error") {
+      throw new PermanentJobError("Mux asset processing failed");
+    }
+
+    if (result.status === "processing") {
+      throw new RetryLaterError("Mux asset not ready yet", EXTERNAL_WAIT_DELAY_MS);
+    }
+
+    // If a webhook already made the recording ready, it also started the next stage
+    return {
+      continue: result.becameReady || !!job.payload.force,
+      payload: { assetId: result.assetId, playbackId: result.playbackId },
+    };
+  },
+
+  /**
+   * Transcribe, then pick the soundbite and attach subtitles to the Mux asset
+   * Jobs queued by a transcript edit (payload.transcriptVersion) keep the corrected text
+   * and only refresh what's derived from it. So do re-runs on an edited transcript, unless
+   * payload.discardTranscriptEdits asks for fresh provider output
+   */
+  async transcribed(job) {
+    const recording = await getRecording(job.recording_id);
+
+    if (!recording.mux_playback_id) {
+      throw new RetryLaterError("Recording has no playback ID yet", EXTERNAL_WAIT_DELAY_MS);
+    }
+
+    if (job.payload.transcriptVersion) {
+      console.log(`✏️ [RecordingPipeline] Refreshing edited transcript (v${job.payload.transcriptVersion}) for ${recording.id}`);
+    } else if ((recording.transcript_version ?? 0) > 0 && !job.payload.discardTranscriptEdits) {
+      console.log(`✏️ [RecordingPipeline] Keeping reviewer edits (v${recording.transcript_version}) for ${recording.id} - pass discardTranscriptEdits to re-transcribe`);
+    } else {
+      await transcribeRecording(recording.id, recording.mux_playback_id);
+    }
+
+    // A missing soundbite shouldn't cost a transcription retry - it's recomputed on demand
+    try {
+      await extractSoundbite(recording.id);
+    } catch (error) {
+      console.error(`❌ [RecordingPipeline] Soundbite extraction failed for ${recording.id}:`, error);
+    }
+
+    // Same for subtitles - playback works without them
+    try {
+      await attachCaptionsToMux(recording.id);
+    } catch (error) {
+      console.error(`❌ [RecordingPipeline] Attaching subtitles failed for ${recording.id}:`, error);
+    }
+
+    return { continue: true };
+  },
+
+  /** Final answer evaluation against the real transcript, plus typed insight records */
+  async evaluated(job) {
+    const recording = await getRecording(job.recording_id);
+
+    if (recording.transcription_status !== "completed") {
+      throw new PermanentJobError("Recording has no completed transcript - re-run the transcribed stage");
+    }
+
+    const evaluation = await evaluateRecording(recording.id);
+
+    // Insights are for querying later - don't fail the evaluation over them
+    try {
+      await extractRecordingInsights(recording.id);
+    } catch (error) {
+      console.error(`❌ [RecordingPipeline] Insight extraction failed for ${recording.id}:`, error);
+    }
+
+    return {
+      continue: true,
+      payload: evaluation
+        ? { score: evaluation.score, evaluatedBy: evaluation.evaluatedBy, ruleId: evaluation.ruleId }
+        : {},
+    };
+  },
+
+  /** Submit the Shotstack render (only when post-production is enabled or forced) */
+  async rendered(job) {
+    if (!AUTO_POST_PRODUCE && !job.payload.force) {
+      console.log(`⏭️ [RecordingPipeline] Post-production disabled, stopping at evaluated: ${job.recording_id}`);
+      return { continue: false, skipped: true };
+    }
+
+    const result = await processReadyVideo(job.recording_id);
+
+    if (!result.success || !result.renderId) {
+      throw new Error(result.error || "Shotstack render submission failed");
+    }
+
+    return { continue: true, payload: { renderId: result.renderId } };
+  },
+
+  /** Wait for the render to finish and land on Mux */
+  async published(job) {
+    const renderId =
+      job.payload.renderId ||
+      (await getLatestCompletedJob(job.recording_id, "rendered"))?.payload.renderId;
+
+    if (!renderId) {
+      throw new PermanentJobError("No render ID to publish - re-run the rendered stage");
+    }
+
+    const render = await syncRenderStatus(renderId);
+
+    if (!render) {
+      throw new PermanentJobError(`Render ${renderId} is no longer tracked on this recording`);
+    }
+
+    if (render.status === "failed") {
+      throw new PermanentJobError(`Shotstack render failed: ${render.error || "unknown error"}`);
+    }
+
+    if (render.status !== "done") {
+      throw new RetryLaterError(`Render ${render.status}`, EXTERNAL_WAIT_DELAY_MS);
+    }
+
+    return {
+      continue: false,
+      payload: {
+        renderId,
+        url: render.url,
+        muxAssetId: render.muxAssetId,
+        muxPlaybackId: render.muxPlaybackId,
+      },
+    };
+  },
+};
+
+// ==================== WORKER ====================
+
+/**
+ * Advance the recording's pipeline stage (never moves it backwards on re-runs)
+ */
+async function setPipelineStage(recordingId: string, stage: JobStage) {
+  const supabase = getSupabase();
+  const earlierStages = ["uploaded", ...JOB_STAGES.slice(0, JOB_STAGES.indexOf(stage))];
+
+  const { error } = await (supabase
+    .from("recordings") as any)
+    .update({ pipeline_stage: stage, updated_at: new Date().toISOString() })
+    .eq("id", recordingId)
+    .in("pipeline_stage", earlierStages);
+
+  if (error) {
+    console.error("❌ [RecordingPipeline] Failed to update pipeline stage:", error);
+  }
+}
+
+/**
+ * Run a single claimed job and enqueue the next stage on success
+ */
+async function runJob(job: RecordingJob): Promise<boolean> {
+  console.log(`⚙️ [RecordingPipeline] Running ${job.stage} for ${job.recording_id} (attempt ${job.attempts})`);
+
+  try {
+    const result = await stageHandlers[job.stage](job);
+
+    await completeJob(job, result.payload);
+    if (!result.skipped) {
+      await setPipelineStage(job.recording_id, job.stage);
+    }
+
+    const nextStage = getNextStage(job.stage);
+    if (result.continue && nextStage) {
+      const payload = { ...result.payload, force: job.payload.force };
+      if (job.payload.force) {
+        // Forced re-runs carry on through the rest of the pipeline, even past an active
+        // job that may be working from what this stage just replaced
+        await requeueJob(job.recording_id, nextStage, payload);
+      } else {
+        await enqueueJob(job.recording_id, nextStage, { payload });
+      }
+    }
+
+    await requeueIfRequested(job);
+    return true;
+  } catch (error) {
+    await failJob(job, error);
+    await requeueIfRequested(job);
+    return false;
+  }
+}
+
+/**
+ * Run the stage again if that was asked for while the job was running
+ */
+async function requeueIfRequested(job: RecordingJob) {
+  try {
+    const payload = await takeRequeuePayload(job);
+    if (payload && !(await requeueJob(job.recording_id, job.stage, payload))) {
+      console.error(`❌ [RecordingPipeline] Couldn't re-queue ${job.stage} for ${job.recording_id}`);
+    }
+  } catch (error) {
+    console.error(`❌ [RecordingPipeline] Failed to re-queue ${job.stage} for ${job.recording_id}:`, error);
+  }
+}
+
+/**
+ * Process due jobs until none are left (or the batch limit is hit)
+ * Pass a recording ID to only work on that recording's jobs
+ */
+export async function runRecordingJobs(
+  options: { recordingId?: string; maxBatches?: number } = {}
+): Promise<WorkerRunResult> {
+  const result: WorkerRunResult = { processed: 0, succeeded: 0, failed: 0 };
+  const maxBatches = options.maxBatches || WORKER_MAX_BATCHES;
+
+  for (let batch = 0; batch < maxBatches; batch++) {
+    const jobs = await claimJobs(WORKER_BATCH_SIZE, options.recordingId);
+    if (jobs.length === 0) break;
+
+    for (const job of jobs) {
+      const succeeded = await runJob(job);
+      result.processed++;
+      if (succeeded) {
+        result.succeeded++;
+      } else {
+        result.failed++;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Enqueue a stage for a recording and run its jobs right away
+ * Intended to be wrapped in waitUntil() by the route that triggered it - never throws,
+ * anything left unfinished is picked up by the job worker
+ */
+export async function startRecordingStage(
+  recordingId: string,
+  stage: JobStage,
+  options: { payload?: Record<string, any>; delayMs?: number } = {}
+): Promise<RecordingJob | null> {
+  try {
+    const job = await enqueueJob(recordingId, stage, options);
+
+    if (!options.delayMs) {
+      await runRecordingJobs({ recordingId });
+    }
+
+    return job;
+  } catch (error) {
+    console.error(`❌ [RecordingPipeline] Failed to start ${stage} for ${recordingId}:`, error);
+    return null;
+  }
+}
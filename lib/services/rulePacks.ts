@@ -0,0 +1,148 @@
+/**
+ * Campaign Rule Packs Service
+ * Loads a campaign's evaluation settings - its rule_pack overrides merged over the
+ * built-in pack, and its preferred AI evaluator - and saves validated rule edits
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import { EvaluatorProvider, normalizeEvaluatorProvider } from "@/lib/evaluation/answerEvaluator";
+import {
+  DEFAULT_RULE_PACK,
+  mergeRulePacks,
+  RulePack,
+  validateRulePack,
+} from "@/lib/evaluation/rulePack";
+
+// ==================== CONFIGURATION ====================
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// Live evaluation runs on every answer - keep loaded packs briefly
+const RULE_PACK_CACHE_TTL_MS = 60 * 1000;
+const RULE_PACK_CACHE_MAX_ENTRIES = 100;
+
+// ==================== TYPES ====================
+
+interface CampaignEvaluationSettings {
+  pack: RulePack;
+  evaluatorProvider: EvaluatorProvider | null; // null uses the default provider
+}
+
+// ==================== CACHE ====================
+
+// Map preserves insertion order, which gives us simple oldest-first eviction
+const rulePackCache = new Map<string, CampaignEvaluationSettings & { expiresAt: number }>();
+
+function readCache(campaignId: string): CampaignEvaluationSettings | null {
+  const entry = rulePackCache.get(campaignId);
+  if (!entry) {
+    return null;
+  }
+  if (entry.expiresAt < Date.now()) {
+    rulePackCache.delete(campaignId);
+    return null;
+  }
+  return entry;
+}
+
+function writeCache(campaignId: string, settings: CampaignEvaluationSettings) {
+  rulePackCache.delete(campaignId);
+  rulePackCache.set(campaignId, { ...settings, expiresAt: Date.now() + RULE_PACK_CACHE_TTL_MS });
+  if (rulePackCache.size > RULE_PACK_CACHE_MAX_ENTRIES) {
+    const oldestKey = rulePackCache.keys().next().value;
+    if (oldestKey !== undefined) {
+      rulePackCache.delete(oldestKey);
+    }
+  }
+}
+
+// ==================== RULE PACKS ====================
+
+/**
+ * Load a campaign's evaluation settings
+ * A missing campaign or an invalid stored pack falls back to the built-in rules -
+ * evaluation must keep working even if someone saved a bad pack directly in the database
+ */
+async function getCampaignEvaluationSettings(campaignId: string): Promise<CampaignEvaluationSettings> {
+  const cached = readCache(campaignId);
+  if (cached) {
+    return cached;
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+
+  // Type cast to bypass Supabase type inference
+  const { data: campaign, error } = await (supabase
+    .from("campaigns") as any)
+    .select("id, rule_pack, evaluator_provider")
+    .eq("id", campaignId)
+    .single();
+
+  if (error || !campaign) {
+    console.error(`❌ [RulePacks] Could not load campaign ${campaignId}, using built-in rules:`, error);
+    return { pack: DEFAULT_RULE_PACK, evaluatorProvider: null };
+  }
+
+  let pack = DEFAULT_RULE_PACK;
+
+  if (campaign.rule_pack) {
+    try {
+      pack = mergeRulePacks(DEFAULT_RULE_PACK, validateRulePack(campaign.rule_pack));
+    } catch (validationError) {
+      console.error(`❌ [RulePacks] Invalid rule pack for campaign ${campaignId}, using built-in rules:`, validationError);
+    }
+  }
+
+  const settings = { pack, evaluatorProvider: normalizeEvaluatorProvider(campaign.evaluator_provider) };
+  writeCache(campaignId, settings);
+  return settings;
+}
+
+/**
+ * Effective rule pack for a campaign
+ */
+export async function getCampaignRulePack(campaignId: string): Promise<RulePack> {
+  return (await getCampaignEvaluationSettings(campaignId)).pack;
+}
+
+/**
+ * AI evaluator the campaign prefers (null uses the default provider)
+ */
+export async function getCampaignEvaluatorProvider(campaignId: string): Promise<EvaluatorProvider | null> {
+  return (await getCampaignEvaluationSettings(campaignId)).evaluatorProvider;
+}
+
+/**
+ * Validate and save a campaign's rule pack overrides (null clears them)
+ * Returns the effective pack, or null when the campaign doesn't exist
+ * Throws RulePackValidationError when the pack doesn't match the schema
+ */
+export async function saveCampaignRulePack(campaignId: string, value: unknown): Promise<RulePack | null> {
+  const overrides = value === null ? null : validateRulePack(value);
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+
+  // Type cast to bypass Supabase type inference
+  const { data, error } = await (supabase
+    .from("campaigns") as any)
+    .update({
+      rule_pack: overrides,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", campaignId)
+    .select("id, evaluator_provider");
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data || data.length === 0) {
+    return null;
+  }
+
+  const pack = mergeRulePacks(DEFAULT_RULE_PACK, overrides);
+  writeCache(campaignId, { pack, evaluatorProvider: normalizeEvaluatorProvider(data[0].evaluator_provider) });
+
+  console.log(`📋 [RulePacks] Saved ${overrides?.rules.length ?? 0} rule override(s) for campaign ${campaignId}`);
+  return pack;
+}
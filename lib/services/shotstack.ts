@@ -16,8 +16,16 @@ export interface ThemeConfig {
   backgroundColor?: string;
 }
 
+export interface CaptionWord {
+  text: string;
+  start: number; // Seconds on the render timeline
+  end: number;
+}
+
 export interface CaptionConfig {
-  srtUrl: string;
+  srtUrl?: string; // Static captions from an SRT file
+  karaokeLines?: CaptionWord[][]; // Word-by-word captions, rendered as timed HTML clips instead of the SRT
+  highlightColor?: string; // Colour of the word being spoken (karaoke)
   fontFamily?: string;
   fontSize?: number;
   fontColor?: string;
@@ -29,13 +37,52 @@ export interface CaptionConfig {
   offsetY?: number;
 }
 
+export type OutputFormat = '16:9' | '9:16' | '1:1';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['16:9', '9:16', '1:1'];
+
+export function isOutputFormat(value: unknown): value is OutputFormat {
+  return typeof value === 'string' && OUTPUT_FORMATS.includes(value as OutputFormat);
+}
+
 export interface ProduceTestimonialParams {
   videoUrl: string;
   quoteText: string;
   theme: ThemeConfig;
   musicUrl?: string;
   duration?: number;
+  trimStart?: number; // Seconds to skip into the source video (soundbite cuts); duration is the cut length
   captions?: CaptionConfig;
+  callbackUrl?: string; // Shotstack POSTs render status here when the render finishes
+  formats?: OutputFormat[]; // One render per format (default: 16:9 only)
+  focus?: { x: number; y: number }; // Face position in the source (0-1) to keep in frame when cropping
+}
+
+/** One format's render - stored in recordings.format_renders and kept current by callbacks */
+export interface FormatRender {
+  format: OutputFormat;
+  renderId: string | null;          // null when the submission itself failed
+  status: RenderStatusResponse['status'];
+  url?: string | null;
+  error?: string | null;
+  muxAssetId?: string | null;
+  muxPlaybackId?: string | null;
+}
+
+export interface ReelSegment {
+  videoUrl: string;
+  questionText: string;
+  duration: number; // Clip length in seconds
+}
+
+export interface ProduceSessionReelParams {
+  segments: ReelSegment[];
+  theme: ThemeConfig;
+  companyName?: string;
+  brandmarkUrl?: string; // Shown in the corner for the whole reel
+  musicUrl?: string;
+  captions?: CaptionConfig; // Merged SRT with times already offset to the reel timeline
+  callbackUrl?: string;
 }
 
 export interface ShotstackResponse {
@@ -45,6 +92,7 @@ export interface ShotstackResponse {
     id: string;
     status: string;
   };
+  renders?: FormatRender[]; // Every render submitted (response is the first)
 }
 
 // ==================== SHOTSTACK API CLIENT ====================
@@ -54,6 +102,45 @@ const SHOTSTACK_API_URL = 'https://api.shotstack.io/v1';
 const MUX_TOKEN_ID = process.env.MUX_TOKEN_ID;
 const MUX_TOKEN_SECRET = process.env.MUX_TOKEN_SECRET;
 
+// Recordings are captured landscape - vertical and square renders crop the sides
+const SOURCE_ASPECT_RATIO = 16 / 9;
+
+interface FormatLayout {
+  width: number; // Output size at 'hd' resolution
+  height: number;
+  captionScale: number; // Caption font size multiplier
+  captionOffsetY: number; // Extra lift above the bottom edge (clears social app UI on vertical)
+  quoteWidth: number;
+  quoteFontSize: number;
+}
+
+const FORMAT_LAYOUTS: Record<OutputFormat, FormatLayout> = {
+  '16:9': { width: 1280, height: 720, captionScale: 1, captionOffsetY: 0, quoteWidth: 1200, quoteFontSize: 36 },
+  '9:16': { width: 720, height: 1280, captionScale: 1.4, captionOffsetY: 0.12, quoteWidth: 640, quoteFontSize: 40 },
+  '1:1': { width: 720, height: 720, captionScale: 1.2, captionOffsetY: 0.04, quoteWidth: 660, quoteFontSize: 34 },
+};
+
+/**
+ * Horizontal offset that keeps the face in frame when a landscape video
+ * is cropped to fill a narrower output (Shotstack offsets are in viewport widths)
+ */
+function getCropOffsetX(focusX: number, format: OutputFormat): number {
+  const layout = FORMAT_LAYOUTS[format];
+  const widthRatio = SOURCE_ASPECT_RATIO / (layout.width / layout.height);
+
+  if (widthRatio <= 1) {
+    return 0;
+  }
+
+  // Don't pan past the edge of the source video
+  const maxOffset = (widthRatio - 1) / 2;
+  const offset = (0.5 - focusX) * widthRatio;
+  return Math.max(-maxOffset, Math.min(maxOffset, offset));
+}
+
+// Karaoke text is set larger than SRT captions (HTML px vs caption asset size)
+const KARAOKE_FONT_SCALE = 1.5;
+
 // Test video URL for Shotstack renders (using Shotstack stock video until Mux MP4 is available)
 export const TEST_VIDEO_URL = 'https://shotstack-assets.s3.ap-southeast-2.amazonaws.com/footage/beach-overhead.mp4';
 
@@ -62,15 +149,16 @@ export const TEST_VIDEO_URL = 'https://shotstack-assets.s3.ap-southeast-2.amazon
  * Uses inline styles compatible with Shotstack's HTML renderer
  * Note: Shotstack doesn't support @import or external fonts
  */
-function generateFloatingQuoteHTML(quoteText: string, theme: ThemeConfig): string {
+function generateFloatingQuoteHTML(quoteText: string, theme: ThemeConfig, format: OutputFormat = '16:9'): string {
+  const layout = FORMAT_LAYOUTS[format];
   return `<!DOCTYPE html>
 <html>
 <head>
 <style>
 * { margin: 0; padding: 0; box-sizing: border-box; }
 body {
-  width: 1920px;
-  height: 1080px;
+  width: ${layout.width}px;
+  height: ${layout.height}px;
   display: flex;
   align-items: flex-end;
   justify-content: center;
@@ -80,7 +168,7 @@ body {
   padding: 40px 60px;
   margin-bottom: 60px;
   text-align: center;
-  max-width: 1400px;
+  max-width: ${layout.quoteWidth}px;
 }
 .text {
   font-size: 52px;
@@ -97,13 +185,120 @@ body {
 </html>`;
 }
 
+/**
+ * Escape text for use inside Shotstack HTML assets
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function hasCaptions(captions?: CaptionConfig): boolean {
+  return !!(captions?.srtUrl || captions?.karaokeLines?.length);
+}
+
+/**
+ * Convert a hex colour to rgba() for HTML assets
+ */
+function hexToRgba(hex: string, opacity: number): string {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map((c) => c + c).join('') : value;
+  const r = parseInt(full.slice(0, 2), 16);
+  const g = parseInt(full.slice(2, 4), 16);
+  const b = parseInt(full.slice(4, 6), 16);
+  return `rgba(${r}, ${g}, ${b}, ${opacity})`;
+}
+
+/**
+ * Karaoke clips: one HTML clip per word, showing its line with that word highlighted
+ * Each clip lasts until the next word starts so the line never flickers mid-sentence
+ */
+function buildKaraokeClips(captions: CaptionConfig, layout: FormatLayout) {
+  const fontSize = Math.round((captions.fontSize || 24) * layout.captionScale * KARAOKE_FONT_SCALE);
+  const css = `p { margin: 0; display: inline-block; font-family: '${captions.fontFamily || 'Open Sans'}', Arial, Helvetica, sans-serif; font-size: ${fontSize}px; font-weight: 700; line-height: 1.3; text-align: center; color: ${captions.fontColor || '#ffffff'}; background: ${hexToRgba(captions.backgroundColor || '#000000', captions.backgroundOpacity ?? 0.5)}; padding: ${captions.backgroundPadding ?? 10}px ${(captions.backgroundPadding ?? 10) * 2}px; border-radius: ${captions.backgroundBorderRadius ?? 5}px; } .active { color: ${captions.highlightColor || '#FFD54F'}; }`;
+
+  return (captions.karaokeLines || []).flatMap((line) =>
+    line.map((word, index) => {
+      const next = line[index + 1];
+      const html = line
+        .map((w, i) => (i === index ? `<span class="active">${escapeHtml(w.text)}</span>` : escapeHtml(w.text)))
+        .join(' ');
+
+      return {
+        asset: {
+          type: 'html',
+          html: `<p>${html}</p>`,
+          css,
+          width: layout.quoteWidth,
+          height: Math.round(fontSize * 3.2),
+          background: 'transparent',
+        },
+        start: word.start,
+        length: Math.max((next ? next.start : word.end) - word.start, 0.05),
+        position: captions.position || 'bottom',
+        offset: {
+          y: (captions.offsetY ?? 0.08) + layout.captionOffsetY,
+        },
+      };
+    })
+  );
+}
+
+/**
+ * Caption track (empty when there are no captions)
+ * Karaoke lines take precedence over the SRT
+ */
+function buildCaptionTracks(captions: CaptionConfig | undefined, length: number, layout: FormatLayout) {
+  if (captions?.karaokeLines?.length) {
+    return [{ clips: buildKaraokeClips(captions, layout) }];
+  }
+
+  if (!captions?.srtUrl) {
+    return [];
+  }
+
+  return [{
+    clips: [
+      {
+        asset: {
+          type: 'caption',
+          src: captions.srtUrl,
+          font: {
+            family: captions.fontFamily || 'Open Sans',
+            size: Math.round((captions.fontSize || 24) * layout.captionScale),
+            color: captions.fontColor || '#ffffff',
+          },
+          background: {
+            color: captions.backgroundColor || '#000000',
+            opacity: captions.backgroundOpacity ?? 0.5,
+            padding: captions.backgroundPadding ?? 10,
+            borderRadius: captions.backgroundBorderRadius ?? 5,
+          },
+        },
+        start: 0,
+        length,
+        position: captions.position || 'bottom',
+        offset: {
+          y: (captions.offsetY ?? 0.08) + layout.captionOffsetY,
+        },
+      },
+    ],
+  }];
+}
+
 /**
  * Build Shotstack JSON template for video composition
+ * Vertical and square formats crop the video around the focus point
  */
-function buildShotstackTemplate(params: ProduceTestimonialParams) {
-  console.log("🎬 Building Shotstack template with captions support");
+function buildShotstackTemplate(params: ProduceTestimonialParams, format: OutputFormat = '16:9') {
+  console.log(`🎬 Building Shotstack template with captions support (${format})`);
 
-  const { videoUrl, quoteText, theme, musicUrl, duration = 30, captions } = params;
+  const { videoUrl, quoteText, theme, musicUrl, duration = 30, trimStart, captions, callbackUrl, focus } = params;
+  const layout = FORMAT_LAYOUTS[format];
+  const cropOffsetX = format === '16:9' ? 0 : getCropOffsetX(focus?.x ?? 0.5, format);
 
   // Determine background asset based on theme
   const backgroundAsset = theme.backgroundType === 'image' && theme.backgroundImageUrl
@@ -132,51 +327,25 @@ function buildShotstackTemplate(params: ProduceTestimonialParams) {
 
       // ========== VIDEO TRACKS (Track 0 = Top Layer, higher tracks = lower layers) ==========
       tracks: [
-        // TRACK 0 (TOP): Captions - only if SRT URL provided
-        ...(captions?.srtUrl ? [{
-          clips: [
-            {
-              asset: {
-                type: 'caption',
-                src: captions.srtUrl,
-                font: {
-                  family: captions.fontFamily || 'Open Sans',
-                  size: captions.fontSize || 24,
-                  color: captions.fontColor || '#ffffff',
-                },
-                background: {
-                  color: captions.backgroundColor || '#000000',
-                  opacity: captions.backgroundOpacity ?? 0.5,
-                  padding: captions.backgroundPadding ?? 10,
-                  borderRadius: captions.backgroundBorderRadius ?? 5,
-                },
-              },
-              start: 0,
-              length: duration,
-              position: captions.position || 'bottom',
-              offset: {
-                y: captions.offsetY ?? 0.08,
-              },
-            },
-          ],
-        }] : []),
+        // TRACK 0 (TOP): Captions - static SRT or word-by-word karaoke
+        ...buildCaptionTracks(captions, duration, layout),
         // TRACK 1: Quote Text Overlay (only if no captions, to avoid overlap)
-        ...(!captions?.srtUrl ? [{
+        ...(!hasCaptions(captions) ? [{
           clips: [
             {
               asset: {
                 type: 'html',
                 html: `<p>${quoteText}</p>`,
-                css: 'p { margin: 0; font-size: 36px; color: white; text-align: center; font-weight: bold; }',
-                width: 1200,
-                height: 120,
+                css: `p { margin: 0; font-size: ${layout.quoteFontSize}px; color: white; text-align: center; font-weight: bold; }`,
+                width: layout.quoteWidth,
+                height: format === '9:16' ? 240 : 120,
                 background: 'transparent',
               },
               start: 0,
               length: duration,
               position: 'bottom',
               offset: {
-                y: 0.05,
+                y: 0.05 + layout.captionOffsetY,
               },
             },
           ],
@@ -189,9 +358,15 @@ function buildShotstackTemplate(params: ProduceTestimonialParams) {
                 type: 'video',
                 src: videoUrl,
                 volume: 1.0,
+                ...(trimStart ? { trim: trimStart } : {}),
               },
               start: 0,
               length: duration,
+              // Fill narrower frames, panned to keep the face in shot
+              ...(format !== '16:9' ? {
+                fit: 'crop',
+                offset: { x: cropOffsetX, y: 0 },
+              } : {}),
             },
           ],
         },
@@ -202,7 +377,7 @@ function buildShotstackTemplate(params: ProduceTestimonialParams) {
     output: {
       format: 'mp4',
       resolution: 'hd',
-      aspectRatio: '16:9',
+      aspectRatio: format,
       fps: 30,
       scaleTo: 'hd',
       quality: 'high',
@@ -216,6 +391,9 @@ function buildShotstackTemplate(params: ProduceTestimonialParams) {
         },
       ],
     },
+
+    // ========== RENDER CALLBACK ==========
+    ...(callbackUrl ? { callback: callbackUrl } : {}),
   };
 }
 
@@ -235,34 +413,44 @@ export async function produceTestimonial(
     console.log('🔍 DEBUG - Quote text type:', typeof params.quoteText);
     console.log('🔍 DEBUG - Quote text length:', params.quoteText?.length);
 
-    const template = buildShotstackTemplate(params);
-
-    console.log('🚀 SENDING CANARY PAYLOAD AT', new Date().toISOString());
-    console.log('📹 Submitting Shotstack render job...');
-    console.log('🐤 CANARY TEMPLATE:', JSON.stringify(template, null, 2));
-
-    const response = await fetch(`${SHOTSTACK_API_URL}/render`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': SHOTSTACK_API_KEY,
-      },
-      body: JSON.stringify(template),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(`Shotstack API error: ${JSON.stringify(errorData)}`);
+    const formats = params.formats?.length ? params.formats : ['16:9' as OutputFormat];
+    const renders: FormatRender[] = [];
+    let first: ShotstackResponse | null = null;
+
+    // One render per format - a failed format doesn't cancel the others
+    for (const format of formats) {
+      try {
+        const template = buildShotstackTemplate(params, format);
+
+        console.log('🚀 SENDING CANARY PAYLOAD AT', new Date().toISOString());
+        console.log('🐤 CANARY TEMPLATE:', JSON.stringify(template, null, 2));
+
+        const result = await submitRender(template);
+        renders.push({ format, renderId: result.response!.id, status: 'queued' });
+        first = first || result;
+      } catch (error) {
+        if (formats.length === 1) throw error;
+        console.error(`❌ Shotstack ${format} render failed:`, error);
+        // Recorded so the failure shows up and the recording can be retried
+        renders.push({
+          format,
+          renderId: null,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Render submission failed',
+        });
+      }
     }
 
-    const data = await response.json();
-
-    console.log('✅ Shotstack render job submitted:', data.response.id);
+    if (!first) {
+      throw new Error('All format renders failed');
+    }
 
     return {
-      success: true,
-      message: 'Video production started',
-      response: data.response,
+      ...first,
+      message: renders.some((render) => render.status === 'failed')
+        ? `Video production started for ${renders.filter((render) => render.renderId).map((render) => render.format).join(', ')} (some formats failed)`
+        : first.message,
+      renders,
     };
   } catch (error) {
     console.error('❌ Shotstack error:', error);
@@ -273,6 +461,196 @@ export async function produceTestimonial(
   }
 }
 
+/**
+ * POST a template to the Shotstack render endpoint
+ */
+async function submitRender(template: object): Promise<ShotstackResponse> {
+  if (!SHOTSTACK_API_KEY) {
+    throw new Error('SHOTSTACK_API_KEY is not configured');
+  }
+
+  console.log('📹 Submitting Shotstack render job...');
+
+  const response = await fetch(`${SHOTSTACK_API_URL}/render`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': SHOTSTACK_API_KEY,
+    },
+    body: JSON.stringify(template),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(`Shotstack API error: ${JSON.stringify(errorData)}`);
+  }
+
+  const data = await response.json();
+
+  console.log('✅ Shotstack render job submitted:', data.response.id);
+
+  return {
+    success: true,
+    message: 'Video production started',
+    response: data.response,
+  };
+}
+
+// ==================== SESSION HIGHLIGHT REEL ====================
+
+// Length of the question title card shown before each answer (seconds)
+export const REEL_TITLE_CARD_DURATION = 3;
+
+/**
+ * Start time of each answer clip on the reel timeline
+ * Each clip follows its title card; captions must be offset by the same amounts
+ */
+export function getReelClipStarts(segments: ReelSegment[]): number[] {
+  const starts: number[] = [];
+  let cursor = 0;
+
+  for (const segment of segments) {
+    cursor += REEL_TITLE_CARD_DURATION;
+    starts.push(cursor);
+    cursor += segment.duration;
+  }
+
+  return starts;
+}
+
+/**
+ * Branded title card showing the question text
+ */
+function generateTitleCardHTML(questionText: string, companyName?: string): string {
+  return `<div class="card">${companyName ? `<p class="company">${escapeHtml(companyName)}</p>` : ''}<p class="question">${escapeHtml(questionText)}</p></div>`;
+}
+
+function generateTitleCardCSS(theme: ThemeConfig): string {
+  return `.card { width: 1920px; height: 1080px; display: flex; flex-direction: column; align-items: center; justify-content: center; background: ${theme.backgroundColor || '#1a1a2e'}; font-family: ${theme.fontFamily}, Arial, Helvetica, sans-serif; }
+.company { margin: 0 0 24px; font-size: 28px; font-weight: 600; letter-spacing: 4px; text-transform: uppercase; color: ${theme.secondaryColor}; }
+.question { margin: 0; max-width: 1400px; font-size: 64px; font-weight: 700; line-height: 1.3; text-align: center; color: ${theme.primaryColor}; }`;
+}
+
+/**
+ * Build Shotstack JSON template for a multi-answer session reel
+ * Timeline: [title card → answer] per segment, brandmark and captions across the whole reel
+ */
+function buildSessionReelTemplate(params: ProduceSessionReelParams) {
+  const { segments, theme, companyName, brandmarkUrl, musicUrl, captions, callbackUrl } = params;
+
+  const clipStarts = getReelClipStarts(segments);
+  const totalDuration = segments.length > 0
+    ? clipStarts[clipStarts.length - 1] + segments[segments.length - 1].duration
+    : 0;
+
+  const titleCardClips = segments.map((segment, index) => ({
+    asset: {
+      type: 'html',
+      html: generateTitleCardHTML(segment.questionText, companyName),
+      css: generateTitleCardCSS(theme),
+      width: 1920,
+      height: 1080,
+    },
+    start: clipStarts[index] - REEL_TITLE_CARD_DURATION,
+    length: REEL_TITLE_CARD_DURATION,
+    transition: { in: 'fade', out: 'fade' },
+  }));
+
+  const answerClips = segments.map((segment, index) => ({
+    asset: {
+      type: 'video',
+      src: segment.videoUrl,
+      volume: 1.0,
+    },
+    start: clipStarts[index],
+    length: segment.duration,
+    transition: { in: 'fade' },
+  }));
+
+  return {
+    timeline: {
+      // ========== AUDIO TRACK (Shared Background Music) ==========
+      soundtrack: musicUrl ? {
+        src: musicUrl,
+        effect: 'fadeInFadeOut',
+        volume: 0.18,
+      } : undefined,
+
+      // ========== VIDEO TRACKS (Track 0 = Top Layer) ==========
+      tracks: [
+        // TRACK 0 (TOP): Merged captions across all answers
+        ...buildCaptionTracks(captions, totalDuration, FORMAT_LAYOUTS['16:9']),
+        // TRACK 1: Company brandmark (top right, whole reel)
+        ...(brandmarkUrl ? [{
+          clips: [
+            {
+              asset: {
+                type: 'image',
+                src: brandmarkUrl,
+              },
+              start: 0,
+              length: totalDuration,
+              position: 'topRight',
+              offset: { x: -0.03, y: -0.04 },
+              scale: 0.12,
+              opacity: 0.9,
+            },
+          ],
+        }] : []),
+        // TRACK 2: Question title cards
+        { clips: titleCardClips },
+        // TRACK 3 (BOTTOM): Answer videos
+        { clips: answerClips },
+      ],
+    },
+
+    // ========== OUTPUT CONFIGURATION ==========
+    output: {
+      format: 'mp4',
+      resolution: 'hd',
+      aspectRatio: '16:9',
+      fps: 30,
+      scaleTo: 'hd',
+      quality: 'high',
+      destinations: [
+        {
+          provider: 'mux',
+          options: {
+            playbackPolicy: ['public'],
+          },
+        },
+      ],
+    },
+
+    // ========== RENDER CALLBACK ==========
+    ...(callbackUrl ? { callback: callbackUrl } : {}),
+  };
+}
+
+/**
+ * Submit a session highlight reel render to Shotstack
+ */
+export async function produceReel(
+  params: ProduceSessionReelParams
+): Promise<ShotstackResponse> {
+  try {
+    if (params.segments.length === 0) {
+      throw new Error('A reel needs at least one segment');
+    }
+
+    console.log(`🎞️ Building session reel with ${params.segments.length} segment(s)`);
+
+    const template = buildSessionReelTemplate(params);
+    return await submitRender(template);
+  } catch (error) {
+    console.error('❌ Shotstack reel error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
 export interface RenderStatusResponse {
   id: string;
   status: 'queued' | 'fetching' | 'rendering' | 'saving' | 'done' | 'failed';
@@ -0,0 +1,234 @@
+/**
+ * Soundbite Extraction Service
+ * Picks the strongest self-contained 15-30 second span from an answer
+ * Maps rules engine value matches (metrics, quotes, pain points...) back to
+ * transcript word timings and stores the clip in/out points on the recording
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import { findValueMatches, ValueMatch } from "@/lib/evaluation/rulesEngine";
+import {
+  findWordAt,
+  getWordOffsets,
+  toTranscription,
+  Transcription,
+  TranscriptionWord,
+} from "@/lib/transcription/utils";
+
+// ==================== CONFIGURATION ====================
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// Soundbite length bounds (seconds)
+const MIN_SOUNDBITE_SECONDS = 15;
+const MAX_SOUNDBITE_SECONDS = 30;
+
+// Preferred length when scores tie
+const TARGET_SOUNDBITE_SECONDS = 20;
+
+// A pause this long ends a sentence even without punctuation
+const SENTENCE_PAUSE_SECONDS = 1.5;
+
+// Breathing room around the first and last word
+const LEAD_IN_SECONDS = 0.25;
+const TAIL_OUT_SECONDS = 0.4;
+
+// How much each kind of value is worth in a soundbite
+const MATCH_WEIGHTS: Record<ValueMatch["kind"], number> = {
+  metric: 3,
+  quote: 2,
+  pain: 2,
+  feature: 1,
+  title: 0.5,
+  industry: 0.5,
+};
+
+// ==================== TYPES ====================
+
+export interface Soundbite {
+  start: number; // Clip in point (seconds)
+  end: number; // Clip out point (seconds)
+  text: string;
+  score: number;
+  matches: ValueMatch[];
+}
+
+interface Sentence {
+  firstWord: number;
+  lastWord: number;
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Split words into sentences on end punctuation or long pauses
+ */
+function splitSentences(words: TranscriptionWord[]): Sentence[] {
+  const sentences: Sentence[] = [];
+  let firstWord = 0;
+
+  for (let i = 0; i < words.length; i++) {
+    const isLast = i === words.length - 1;
+    const endsSentence = /[.!?]["']?$/.test(words[i].text);
+    const pauseAfter = !isLast && words[i + 1].start - words[i].end > SENTENCE_PAUSE_SECONDS;
+
+    if (isLast || endsSentence || pauseAfter) {
+      sentences.push({ firstWord, lastWord: i });
+      firstWord = i + 1;
+    }
+  }
+
+  return sentences;
+}
+
+/**
+ * Word index range covered by each value match
+ */
+function mapMatchesToWords(
+  words: TranscriptionWord[],
+  matches: ValueMatch[]
+): Array<{ match: ValueMatch; firstWord: number; lastWord: number }> {
+  const offsets = getWordOffsets(words);
+
+  return matches.map((match) => ({
+    match,
+    firstWord: findWordAt(offsets, match.index),
+    lastWord: findWordAt(offsets, match.index + match.text.length - 1),
+  }));
+}
+
+// ==================== EXTRACTION ====================
+
+/**
+ * Find the best soundbite in a transcription
+ * Candidates are runs of whole sentences between the length bounds,
+ * scored by the testimonial values they contain
+ * Returns null when there are no word timings
+ */
+export function findSoundbite(transcription: Transcription): Soundbite | null {
+  const words = transcription?.words;
+
+  if (!words || words.length === 0) {
+    return null;
+  }
+
+  const transcript = words.map((word) => word.text).join(" ");
+  const located = mapMatchesToWords(words, findValueMatches(transcript));
+  const sentences = splitSentences(words);
+
+  const spanDuration = (firstWord: number, lastWord: number) =>
+    words[lastWord].end - words[firstWord].start;
+
+  const scoreSpan = (firstWord: number, lastWord: number) => {
+    const inside = located.filter(
+      (entry) => entry.firstWord >= firstWord && entry.lastWord <= lastWord
+    );
+    const kinds = new Set(inside.map((entry) => entry.match.kind));
+    const score = inside.reduce((total, entry) => total + MATCH_WEIGHTS[entry.match.kind], 0) + kinds.size * 0.5;
+    return { score, matches: inside.map((entry) => entry.match) };
+  };
+
+  let best: { firstWord: number; lastWord: number; score: number; matches: ValueMatch[] } | null = null;
+
+  const consider = (firstWord: number, lastWord: number) => {
+    const { score, matches } = scoreSpan(firstWord, lastWord);
+    const distance = Math.abs(spanDuration(firstWord, lastWord) - TARGET_SOUNDBITE_SECONDS);
+    const bestDistance = best
+      ? Math.abs(spanDuration(best.firstWord, best.lastWord) - TARGET_SOUNDBITE_SECONDS)
+      : Infinity;
+
+    if (!best || score > best.score || (score === best.score && distance < bestDistance)) {
+      best = { firstWord, lastWord, score, matches };
+    }
+  };
+
+  if (spanDuration(0, words.length - 1) <= MIN_SOUNDBITE_SECONDS) {
+    // Short answer - the whole thing is the soundbite
+    consider(0, words.length - 1);
+  } else {
+    for (let i = 0; i < sentences.length; i++) {
+      for (let j = i; j < sentences.length; j++) {
+        const duration = spanDuration(sentences[i].firstWord, sentences[j].lastWord);
+        if (duration > MAX_SOUNDBITE_SECONDS) break;
+        if (duration >= MIN_SOUNDBITE_SECONDS) {
+          consider(sentences[i].firstWord, sentences[j].lastWord);
+        }
+      }
+    }
+
+    // No sentence run fits (very long sentences) - cut at word boundaries instead
+    if (!best) {
+      for (let i = 0; i < words.length; i++) {
+        let j = i;
+        while (j + 1 < words.length && spanDuration(i, j + 1) <= MAX_SOUNDBITE_SECONDS) {
+          j++;
+        }
+        consider(i, j);
+        if (j === words.length - 1) break;
+      }
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+
+  const { firstWord, lastWord, score, matches } = best;
+  const mediaDuration = transcription.duration;
+  const end = words[lastWord].end + TAIL_OUT_SECONDS;
+
+  return {
+    start: Math.max(0, words[firstWord].start - LEAD_IN_SECONDS),
+    end: mediaDuration ? Math.min(end, mediaDuration) : end,
+    text: words.slice(firstWord, lastWord + 1).map((word) => word.text).join(" "),
+    score,
+    matches,
+  };
+}
+
+/**
+ * Find and store the soundbite for a transcribed recording
+ * Returns null when the recording has no word timings
+ */
+export async function extractSoundbite(recordingId: string): Promise<Soundbite | null> {
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+
+  // Type cast to bypass Supabase type inference
+  const { data: recording, error } = await (supabase
+    .from("recordings") as any)
+    .select("id, transcription_data")
+    .eq("id", recordingId)
+    .single();
+
+  if (error || !recording) {
+    throw new Error(`Recording not found: ${recordingId}`);
+  }
+
+  const transcription = toTranscription(recording.transcription_data);
+  const soundbite = transcription ? findSoundbite(transcription) : null;
+
+  if (!soundbite) {
+    console.log(`⚠️ [Soundbites] No word timings for recording ${recordingId}, skipping`);
+    return null;
+  }
+
+  const { error: updateError } = await (supabase
+    .from("recordings") as any)
+    .update({
+      soundbite_start_seconds: soundbite.start,
+      soundbite_end_seconds: soundbite.end,
+      soundbite_text: soundbite.text,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", recordingId);
+
+  if (updateError) {
+    throw updateError;
+  }
+
+  console.log(
+    `✂️ [Soundbites] Recording ${recordingId}: ${soundbite.start.toFixed(2)}s-${soundbite.end.toFixed(2)}s (score ${soundbite.score})`
+  );
+  return soundbite;
+}
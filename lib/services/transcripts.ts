@@ -0,0 +1,244 @@
+/**
+ * Transcript Editing Service
+ * Word-level corrections to provider transcripts, versioned in transcript_revisions
+ * Timestamps are kept, so captions, subtitles tracks and renders pick up the fixed text
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import {
+  Transcription,
+  WordCorrection,
+  applyWordCorrections,
+  toTranscription,
+} from "@/lib/transcription/utils";
+import {
+  EditableTranscript,
+  TranscriptRevision,
+  TranscriptWord,
+} from "@/lib/types/transcript";
+import { requeueJob } from "./jobQueue";
+
+// ==================== CONFIGURATION ====================
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// Postgres unique_violation - the revision for this version already exists
+const UNIQUE_VIOLATION = "23505";
+
+// ==================== TYPES ====================
+
+/**
+ * Thrown when the transcript changed since the editor loaded it
+ */
+export class TranscriptConflictError extends Error {
+  constructor(public currentVersion: number) {
+    super(`Transcript was edited by someone else (now at version ${currentVersion})`);
+    this.name = "TranscriptConflictError";
+  }
+}
+
+function getSupabase() {
+  return createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+}
+
+function toEditableWords(transcription: Transcription): TranscriptWord[] {
+  return transcription.words.map((word, index) => ({
+    index,
+    text: word.text,
+    start: word.start,
+    end: word.end,
+    confidence: word.confidence,
+  }));
+}
+
+// ==================== READ ====================
+
+/**
+ * Current transcript as an editable word list
+ * Returns null when the recording has no word timings
+ */
+export async function getEditableTranscript(recordingId: string): Promise<EditableTranscript | null> {
+  const supabase = getSupabase();
+
+  // Type cast to bypass Supabase type inference
+  const { data: recording, error } = await (supabase
+    .from("recordings") as any)
+    .select("id, transcription_data, transcript_version")
+    .eq("id", recordingId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  const transcription = toTranscription(recording?.transcription_data);
+  if (!transcription) {
+    return null;
+  }
+
+  return {
+    recordingId,
+    version: recording.transcript_version ?? 0,
+    words: toEditableWords(transcription),
+  };
+}
+
+/**
+ * Edit history, newest first
+ */
+export async function listTranscriptRevisions(recordingId: string): Promise<TranscriptRevision[]> {
+  const supabase = getSupabase();
+
+  const { data, error } = await (supabase
+    .from("transcript_revisions") as any)
+    .select("version, corrections, transcription, edited_by, created_at")
+    .eq("recording_id", recordingId)
+    .order("version", { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map((row: any) => ({
+    version: row.version,
+    corrections: row.corrections,
+    transcription: row.transcription,
+    editedBy: row.edited_by,
+    createdAt: row.created_at,
+  }));
+}
+
+// ==================== WRITE ====================
+
+/**
+ * Apply corrections on top of baseVersion and save them as the next version
+ * Throws TranscriptConflictError if someone saved in between
+ */
+export async function saveTranscriptCorrections(
+  recordingId: string,
+  baseVersion: number,
+  corrections: WordCorrection[],
+  editedBy?: string
+): Promise<EditableTranscript> {
+  const supabase = getSupabase();
+
+  const { data: recording, error } = await (supabase
+    .from("recordings") as any)
+    .select("id, transcription, transcription_data, transcript_version")
+    .eq("id", recordingId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  const original = toTranscription(recording?.transcription_data);
+  if (!original) {
+    throw new Error(`Recording has no transcript to edit: ${recordingId}`);
+  }
+
+  const currentVersion: number = recording.transcript_version ?? 0;
+  if (currentVersion !== baseVersion) {
+    throw new TranscriptConflictError(currentVersion);
+  }
+
+  // Keep the untouched provider output as version 0 before the first edit
+  if (currentVersion === 0) {
+    const { error: originalError } = await (supabase
+      .from("transcript_revisions") as any)
+      .upsert(
+        {
+          recording_id: recordingId,
+          version: 0,
+          transcription: recording.transcription,
+          transcription_data: recording.transcription_data,
+          edited_by: original.provider,
+        },
+        { onConflict: "recording_id,version", ignoreDuplicates: true }
+      );
+
+    if (originalError) {
+      throw originalError;
+    }
+  }
+
+  const corrected = applyWordCorrections(original, corrections);
+  const transcription = corrected.text;
+  const nextVersion = currentVersion + 1;
+
+  // Revision first - (recording_id, version) is unique, so a concurrent save of the same
+  // version fails here, and a saved version always has its history row
+  const { error: revisionError } = await (supabase
+    .from("transcript_revisions") as any)
+    .insert({
+      recording_id: recordingId,
+      version: nextVersion,
+      corrections,
+      transcription,
+      transcription_data: corrected,
+      edited_by: editedBy || null,
+    });
+
+  if (revisionError) {
+    if (revisionError.code === UNIQUE_VIOLATION) {
+      throw new TranscriptConflictError(nextVersion);
+    }
+    throw revisionError;
+  }
+
+  // Only advance if nobody else saved since we read the row
+  const { data: updated, error: updateError } = await (supabase
+    .from("recordings") as any)
+    .update({
+      transcription,
+      transcription_data: corrected,
+      transcript_version: nextVersion,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", recordingId)
+    .eq("transcript_version", currentVersion)
+    .select("id");
+
+  if (updateError || !updated || updated.length === 0) {
+    // Don't leave history for a version that was never saved
+    const { error: cleanupError } = await (supabase
+      .from("transcript_revisions") as any)
+      .delete()
+      .eq("recording_id", recordingId)
+      .eq("version", nextVersion);
+
+    if (cleanupError) {
+      console.error("❌ [Transcripts] Failed to remove unsaved revision:", cleanupError);
+    }
+
+    if (updateError) {
+      throw updateError;
+    }
+    throw new TranscriptConflictError(nextVersion);
+  }
+
+  console.log(`✏️ [Transcripts] Recording ${recordingId} transcript saved as version ${nextVersion} (${corrections.length} corrections)`);
+
+  // Downstream copies (subtitles track, soundbite, evaluation, insights) are refreshed by a
+  // forced transcribed job that keeps the corrected text - SRT for renders is rebuilt at render time.
+  // A refresh already running for an older version runs again once it finishes
+  try {
+    const queued = await requeueJob(recordingId, "transcribed", {
+      force: true,
+      transcriptVersion: nextVersion,
+    });
+
+    if (!queued) {
+      console.error(`❌ [Transcripts] Couldn't queue refresh for ${recordingId} v${nextVersion}`);
+    }
+  } catch (error) {
+    console.error(`❌ [Transcripts] Failed to queue refresh for ${recordingId}:`, error);
+  }
+
+  return {
+    recordingId,
+    version: nextVersion,
+    words: toEditableWords(corrected),
+  };
+}
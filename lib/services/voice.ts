@@ -3,39 +3,30 @@
  * Client-side service for Text-to-Speech functionality
  */
 
+export interface SpeakOptions {
+  sessionId: string; // Interview in progress - the server speaks in its campaign's voice
+}
+
 export class VoiceService {
   private audio: HTMLAudioElement | null = null;
   private isPlaying = false;
+  private resolveCurrent: (() => void) | null = null;
 
   /**
    * Speak text using ElevenLabs TTS
+   * Audio is streamed from /api/elevenlabs/speak so playback starts before synthesis finishes
    */
-  async speak(text: string): Promise<void> {
+  async speak(text: string, options: SpeakOptions): Promise<void> {
     try {
       // Stop any currently playing audio
       this.stop();
 
       console.log(`🎙️ Speaking: "${text.substring(0, 50)}..."`);
 
-      // Call the TTS API endpoint
-      const response = await fetch('/api/elevenlabs/speak', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ text }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`TTS API error: ${response.status}`);
-      }
+      // Point the audio element at the TTS endpoint (GET) so the browser streams it
+      const params = new URLSearchParams({ text, sessionId: options.sessionId });
 
-      // Get audio blob
-      const audioBlob = await response.blob();
-      const audioUrl = URL.createObjectURL(audioBlob);
-
-      // Create and play audio element
-      this.audio = new Audio(audioUrl);
+      this.audio = new Audio(`/api/elevenlabs/speak?${params.toString()}`);
       this.isPlaying = true;
 
       // Return promise that resolves when audio finishes
@@ -45,16 +36,19 @@ export class VoiceService {
           return;
         }
 
+        // Let stop() settle the promise so callers waiting on speech can continue
+        this.resolveCurrent = resolve;
+
         this.audio.onended = () => {
           this.isPlaying = false;
-          URL.revokeObjectURL(audioUrl);
+          this.resolveCurrent = null;
           resolve();
         };
 
-        this.audio.onerror = (error) => {
+        this.audio.onerror = () => {
           this.isPlaying = false;
-          URL.revokeObjectURL(audioUrl);
-          reject(error);
+          this.resolveCurrent = null;
+          reject(new Error('TTS audio failed to load'));
         };
 
         this.audio.play().catch(reject);
@@ -76,6 +70,11 @@ export class VoiceService {
       this.audio = null;
       this.isPlaying = false;
     }
+    if (this.resolveCurrent) {
+      const resolve = this.resolveCurrent;
+      this.resolveCurrent = null;
+      resolve();
+    }
   }
 
   /**
@@ -80,6 +80,12 @@ export interface Database {
           name: string;
           description: string | null;
           questions: any; // JSONB
+          voice_id: string | null;
+          vocabulary: string[];
+          language: string;
+          caption_languages: string[];
+          rule_pack: any | null; // JSONB
+          evaluator_provider: "anthropic" | "gemini" | null;
           is_active: boolean;
           created_at: string;
           updated_at: string;
@@ -90,6 +96,12 @@ export interface Database {
           name: string;
           description?: string | null;
           questions?: any;
+          voice_id?: string | null;
+          vocabulary?: string[];
+          language?: string;
+          caption_languages?: string[];
+          rule_pack?: any | null;
+          evaluator_provider?: "anthropic" | "gemini" | null;
           is_active?: boolean;
           created_at?: string;
           updated_at?: string;
@@ -100,6 +112,12 @@ export interface Database {
           name?: string;
           description?: string | null;
           questions?: any;
+          voice_id?: string | null;
+          vocabulary?: string[];
+          language?: string;
+          caption_languages?: string[];
+          rule_pack?: any | null;
+          evaluator_provider?: "anthropic" | "gemini" | null;
           is_active?: boolean;
           created_at?: string;
           updated_at?: string;
@@ -117,7 +135,15 @@ export interface Database {
           current_question_index: number;
           started_at: string | null;
           completed_at: string | null;
+          consent_given_at: string | null;
           expires_at: string | null;
+          reel_render_id: string | null;
+          reel_render_status: "queued" | "fetching" | "rendering" | "saving" | "done" | "failed" | null;
+          reel_render_url: string | null;
+          reel_render_error: string | null;
+          reel_mux_asset_id: string | null;
+          reel_mux_playback_id: string | null;
+          reel_render_updated_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -132,7 +158,15 @@ export interface Database {
           current_question_index?: number;
           started_at?: string | null;
           completed_at?: string | null;
+          consent_given_at?: string | null;
           expires_at?: string | null;
+          reel_render_id?: string | null;
+          reel_render_status?: "queued" | "fetching" | "rendering" | "saving" | "done" | "failed" | null;
+          reel_render_url?: string | null;
+          reel_render_error?: string | null;
+          reel_mux_asset_id?: string | null;
+          reel_mux_playback_id?: string | null;
+          reel_render_updated_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -147,7 +181,15 @@ export interface Database {
           current_question_index?: number;
           started_at?: string | null;
           completed_at?: string | null;
+          consent_given_at?: string | null;
           expires_at?: string | null;
+          reel_render_id?: string | null;
+          reel_render_status?: "queued" | "fetching" | "rendering" | "saving" | "done" | "failed" | null;
+          reel_render_url?: string | null;
+          reel_render_error?: string | null;
+          reel_mux_asset_id?: string | null;
+          reel_mux_playback_id?: string | null;
+          reel_render_updated_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -159,12 +201,47 @@ export interface Database {
           question_id: string;
           question_index: number;
           mux_asset_id: string | null;
+          mux_upload_id: string | null;
           mux_playback_id: string | null;
           duration_seconds: number | null;
           transcription: string | null;
           transcription_status: "pending" | "processing" | "completed" | "failed";
           video_status: "processing" | "ready" | "failed";
           thumbnail_url: string | null;
+          pipeline_stage: "uploaded" | "asset_ready" | "transcribed" | "evaluated" | "rendered" | "published";
+          shotstack_render_id: string | null;
+          render_status: "queued" | "fetching" | "rendering" | "saving" | "done" | "failed" | null;
+          render_url: string | null;
+          render_error: string | null;
+          final_mux_asset_id: string | null;
+          final_mux_playback_id: string | null;
+          render_updated_at: string | null;
+          soundbite_start_seconds: number | null;
+          soundbite_end_seconds: number | null;
+          soundbite_text: string | null;
+          framing_x: number | null;
+          framing_y: number | null;
+          format_renders: Array<{
+            format: "16:9" | "9:16" | "1:1";
+            renderId: string | null;
+            status: "queued" | "fetching" | "rendering" | "saving" | "done" | "failed";
+            url?: string | null;
+            error?: string | null;
+            muxAssetId?: string | null;
+            muxPlaybackId?: string | null;
+          }>;
+          mux_text_track_id: string | null;
+          captions_language: string | null;
+          transcript_version: number;
+          evaluation_score: number | null;
+          evaluation_is_complete: boolean | null;
+          evaluation_follow_up: string | null;
+          evaluation_extracted_value: string | null;
+          evaluation_values: Array<{ kind: string; text: string }>;
+          evaluation_rule_id: string | null;
+          evaluation_provider: "anthropic" | "gemini" | null;
+          evaluated_by: "rules" | "ai" | "error" | null;
+          evaluated_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -174,12 +251,47 @@ export interface Database {
           question_id: string;
           question_index: number;
           mux_asset_id?: string | null;
+          mux_upload_id?: string | null;
           mux_playback_id?: string | null;
           duration_seconds?: number | null;
           transcription?: string | null;
           transcription_status?: "pending" | "processing" | "completed" | "failed";
           video_status?: "processing" | "ready" | "failed";
           thumbnail_url?: string | null;
+          pipeline_stage?: "uploaded" | "asset_ready" | "transcribed" | "evaluated" | "rendered" | "published";
+          shotstack_render_id?: string | null;
+          render_status?: "queued" | "fetching" | "rendering" | "saving" | "done" | "failed" | null;
+          render_url?: string | null;
+          render_error?: string | null;
+          final_mux_asset_id?: string | null;
+          final_mux_playback_id?: string | null;
+          render_updated_at?: string | null;
+          soundbite_start_seconds?: number | null;
+          soundbite_end_seconds?: number | null;
+          soundbite_text?: string | null;
+          framing_x?: number | null;
+          framing_y?: number | null;
+          format_renders?: Array<{
+            format: "16:9" | "9:16" | "1:1";
+            renderId: string | null;
+            status: "queued" | "fetching" | "rendering" | "saving" | "done" | "failed";
+            url?: string | null;
+            error?: string | null;
+            muxAssetId?: string | null;
+            muxPlaybackId?: string | null;
+          }>;
+          mux_text_track_id?: string | null;
+          captions_language?: string | null;
+          transcript_version?: number;
+          evaluation_score?: number | null;
+          evaluation_is_complete?: boolean | null;
+          evaluation_follow_up?: string | null;
+          evaluation_extracted_value?: string | null;
+          evaluation_values?: Array<{ kind: string; text: string }>;
+          evaluation_rule_id?: string | null;
+          evaluation_provider?: "anthropic" | "gemini" | null;
+          evaluated_by?: "rules" | "ai" | "error" | null;
+          evaluated_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -189,16 +301,247 @@ export interface Database {
           question_id?: string;
           question_index?: number;
           mux_asset_id?: string | null;
+          mux_upload_id?: string | null;
           mux_playback_id?: string | null;
           duration_seconds?: number | null;
           transcription?: string | null;
           transcription_status?: "pending" | "processing" | "completed" | "failed";
           video_status?: "processing" | "ready" | "failed";
           thumbnail_url?: string | null;
+          pipeline_stage?: "uploaded" | "asset_ready" | "transcribed" | "evaluated" | "rendered" | "published";
+          shotstack_render_id?: string | null;
+          render_status?: "queued" | "fetching" | "rendering" | "saving" | "done" | "failed" | null;
+          render_url?: string | null;
+          render_error?: string | null;
+          final_mux_asset_id?: string | null;
+          final_mux_playback_id?: string | null;
+          render_updated_at?: string | null;
+          soundbite_start_seconds?: number | null;
+          soundbite_end_seconds?: number | null;
+          soundbite_text?: string | null;
+          framing_x?: number | null;
+          framing_y?: number | null;
+          format_renders?: Array<{
+            format: "16:9" | "9:16" | "1:1";
+            renderId: string | null;
+            status: "queued" | "fetching" | "rendering" | "saving" | "done" | "failed";
+            url?: string | null;
+            error?: string | null;
+            muxAssetId?: string | null;
+            muxPlaybackId?: string | null;
+          }>;
+          mux_text_track_id?: string | null;
+          captions_language?: string | null;
+          transcript_version?: number;
+          evaluation_score?: number | null;
+          evaluation_is_complete?: boolean | null;
+          evaluation_follow_up?: string | null;
+          evaluation_extracted_value?: string | null;
+          evaluation_values?: Array<{ kind: string; text: string }>;
+          evaluation_rule_id?: string | null;
+          evaluation_provider?: "anthropic" | "gemini" | null;
+          evaluated_by?: "rules" | "ai" | "error" | null;
+          evaluated_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
       };
+      mux_webhook_events: {
+        Row: {
+          id: string;
+          type: string;
+          object_id: string | null;
+          status: "processing" | "processed" | "failed";
+          payload: any; // JSONB
+          error: string | null;
+          received_at: string;
+          claimed_at: string;
+          processed_at: string | null;
+        };
+        Insert: {
+          id: string;
+          type: string;
+          object_id?: string | null;
+          status?: "processing" | "processed" | "failed";
+          payload: any;
+          error?: string | null;
+          received_at?: string;
+          claimed_at?: string;
+          processed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          type?: string;
+          object_id?: string | null;
+          status?: "processing" | "processed" | "failed";
+          payload?: any;
+          error?: string | null;
+          received_at?: string;
+          claimed_at?: string;
+          processed_at?: string | null;
+        };
+      };
+      recording_jobs: {
+        Row: {
+          id: string;
+          recording_id: string;
+          stage: "asset_ready" | "transcribed" | "evaluated" | "rendered" | "published";
+          status: "pending" | "running" | "completed" | "dead";
+          attempts: number;
+          max_attempts: number;
+          payload: any; // JSONB
+          requeue_payload: any | null; // JSONB - run again with this once the job finishes
+          last_error: string | null;
+          run_after: string;
+          locked_at: string | null;
+          completed_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          recording_id: string;
+          stage: "asset_ready" | "transcribed" | "evaluated" | "rendered" | "published";
+          status?: "pending" | "running" | "completed" | "dead";
+          attempts?: number;
+          max_attempts?: number;
+          payload?: any;
+          requeue_payload?: any | null;
+          last_error?: string | null;
+          run_after?: string;
+          locked_at?: string | null;
+          completed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          recording_id?: string;
+          stage?: "asset_ready" | "transcribed" | "evaluated" | "rendered" | "published";
+          status?: "pending" | "running" | "completed" | "dead";
+          attempts?: number;
+          max_attempts?: number;
+          payload?: any;
+          requeue_payload?: any | null;
+          last_error?: string | null;
+          run_after?: string;
+          locked_at?: string | null;
+          completed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      transcript_revisions: {
+        Row: {
+          id: string;
+          recording_id: string;
+          version: number;
+          corrections: Array<{ index: number; text: string }>;
+          transcription: string | null;
+          transcription_data: any;
+          edited_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          recording_id: string;
+          version: number;
+          corrections?: Array<{ index: number; text: string }>;
+          transcription?: string | null;
+          transcription_data: any;
+          edited_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          recording_id?: string;
+          version?: number;
+          corrections?: Array<{ index: number; text: string }>;
+          transcription?: string | null;
+          transcription_data?: any;
+          edited_by?: string | null;
+          created_at?: string;
+        };
+      };
+      caption_translations: {
+        Row: {
+          id: string;
+          recording_id: string;
+          language: string;
+          transcript_version: number;
+          cues: Array<{ start: number; end: number; text: string }>;
+          mux_text_track_id: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          recording_id: string;
+          language: string;
+          transcript_version?: number;
+          cues: Array<{ start: number; end: number; text: string }>;
+          mux_text_track_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          recording_id?: string;
+          language?: string;
+          transcript_version?: number;
+          cues?: Array<{ start: number; end: number; text: string }>;
+          mux_text_track_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      testimonial_insights: {
+        Row: {
+          id: string;
+          recording_id: string;
+          session_id: string | null;
+          campaign_id: string | null;
+          kind: "metric" | "pain" | "feature" | "competitor" | "nps" | "title" | "industry";
+          text: string;
+          value: number | null;
+          unit: string | null;
+          context: string | null;
+          start_seconds: number | null;
+          end_seconds: number | null;
+          transcript_version: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          recording_id: string;
+          session_id?: string | null;
+          campaign_id?: string | null;
+          kind: "metric" | "pain" | "feature" | "competitor" | "nps" | "title" | "industry";
+          text: string;
+          value?: number | null;
+          unit?: string | null;
+          context?: string | null;
+          start_seconds?: number | null;
+          end_seconds?: number | null;
+          transcript_version?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          recording_id?: string;
+          session_id?: string | null;
+          campaign_id?: string | null;
+          kind?: "metric" | "pain" | "feature" | "competitor" | "nps" | "title" | "industry";
+          text?: string;
+          value?: number | null;
+          unit?: string | null;
+          context?: string | null;
+          start_seconds?: number | null;
+          end_seconds?: number | null;
+          transcript_version?: number;
+          created_at?: string;
+        };
+      };
       users: {
         Row: {
           id: string;
@@ -0,0 +1,180 @@
+/**
+ * Transcription Client
+ * Server-side only - transcribes recordings through a pluggable provider
+ * Deepgram by default, or a local Whisper-compatible HTTP server when TRANSCRIPTION_PROVIDER=local
+ */
+
+import { transcribeFromUrl } from "@/lib/deepgram/client";
+import { fromDeepgramResult, DeepgramResult } from "@/lib/deepgram/utils";
+import { getBaseLanguage, getLanguageName, SUPPORTED_LANGUAGES } from "@/lib/i18n/languages";
+import { buildTranscription, Transcription, TranscriptionWord } from "@/lib/transcription/utils";
+
+// ==================== CONFIGURATION ====================
+
+// Any server exposing the OpenAI transcription API (faster-whisper-server, whisper.cpp, LocalAI...)
+const LOCAL_TRANSCRIPTION_URL = process.env.LOCAL_TRANSCRIPTION_URL || "http://localhost:8000";
+
+const LOCAL_TRANSCRIPTION_MODEL = process.env.LOCAL_TRANSCRIPTION_MODEL || "whisper-1";
+
+// ==================== TYPES ====================
+
+export interface TranscriptionOptions {
+  /** Campaign vocabulary - product, feature and competitor names to boost */
+  vocabulary?: string[];
+  /** Spoken language code, or 'auto' to let the provider detect it (default: English) */
+  language?: string;
+}
+
+export interface TranscriptionProvider {
+  name: "deepgram" | "local";
+  transcribeUrl(audioUrl: string, options: TranscriptionOptions): Promise<Transcription>;
+}
+
+// Subset of the OpenAI verbose_json transcription response
+interface WhisperResponse {
+  text?: string;
+  language?: string;
+  duration?: number;
+  words?: Array<{ word: string; start: number; end: number; probability?: number }>;
+  segments?: Array<{ text: string; start: number; end: number }>;
+}
+
+// ==================== PROVIDERS ====================
+
+/**
+ * Deepgram prerecorded transcription
+ */
+const deepgramProvider: TranscriptionProvider = {
+  name: "deepgram",
+  async transcribeUrl(audioUrl, options) {
+    const { fullResult } = await transcribeFromUrl(audioUrl, options);
+    return fromDeepgramResult(fullResult as DeepgramResult);
+  },
+};
+
+/**
+ * Local Whisper-compatible server for development and offline pipeline runs
+ * Downloads the audio and posts it to /v1/audio/transcriptions with word timestamps
+ */
+const localProvider: TranscriptionProvider = {
+  name: "local",
+  async transcribeUrl(audioUrl, options) {
+    console.log("🎤 Local transcription: Starting transcription from URL:", audioUrl);
+
+    const audioResponse = await fetch(audioUrl);
+    if (!audioResponse.ok) {
+      throw new Error(`Failed to download audio: ${audioResponse.status}`);
+    }
+
+    const form = new FormData();
+    form.append("file", await audioResponse.blob(), "audio.m4a");
+    form.append("model", LOCAL_TRANSCRIPTION_MODEL);
+    form.append("response_format", "verbose_json");
+    form.append("timestamp_granularities[]", "word");
+    form.append("timestamp_granularities[]", "segment");
+
+    if (options.language && options.language !== "auto") {
+      form.append("language", getBaseLanguage(options.language));
+    }
+
+    // Whisper has no keyword boosting - a prompt with the names steers spelling
+    if (options.vocabulary?.length) {
+      form.append("prompt", options.vocabulary.join(", "));
+    }
+
+    const response = await fetch(`${LOCAL_TRANSCRIPTION_URL}/v1/audio/transcriptions`, {
+      method: "POST",
+      body: form,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "");
+      throw new Error(`Local transcription error: ${response.status} ${errorText}`);
+    }
+
+    const result = (await response.json()) as WhisperResponse;
+    const transcription = fromWhisperResponse(result);
+
+    console.log("✅ Local transcription: Transcription successful, length:", transcription.text.length, "chars");
+
+    return transcription;
+  },
+};
+
+/**
+ * Convert a Whisper verbose_json response to the provider-neutral Transcription
+ */
+function fromWhisperResponse(result: WhisperResponse): Transcription {
+  const words: TranscriptionWord[] = (result.words || [])
+    .map((word) => ({
+      text: word.word.trim(),
+      start: word.start,
+      end: word.end,
+      confidence: word.probability ?? 1,
+    }))
+    .filter((word) => word.text.length > 0);
+
+  const sentences = (result.segments || []).map((segment) => ({
+    text: segment.text.trim(),
+    start: segment.start,
+    end: segment.end,
+  }));
+
+  return buildTranscription(words, {
+    provider: "local",
+    text: (result.text || "").trim(),
+    language: toLanguageCode(result.language),
+    duration: result.duration ?? null,
+    paragraphs: sentences.length > 0
+      ? [{ sentences, start: sentences[0].start, end: sentences[sentences.length - 1].end }]
+      : [],
+  });
+}
+
+/**
+ * Whisper servers report either a code ("es") or an English name ("spanish")
+ */
+function toLanguageCode(language?: string): string | null {
+  if (!language) {
+    return null;
+  }
+
+  const match = SUPPORTED_LANGUAGES.find(
+    (code) => getLanguageName(code).toLowerCase() === language.toLowerCase()
+  );
+
+  return match || getBaseLanguage(language);
+}
+
+/**
+ * Pick the transcription provider
+ * Deepgram unless TRANSCRIPTION_PROVIDER=local opts into the local server - a missing
+ * Deepgram key is a configuration error, not a reason to send audio somewhere else
+ */
+export function getTranscriptionProvider(): TranscriptionProvider {
+  if (process.env.TRANSCRIPTION_PROVIDER === "local") {
+    return localProvider;
+  }
+
+  if (!process.env.DEEPGRAM_API_KEY) {
+    throw new Error(
+      "Transcription is not configured: set DEEPGRAM_API_KEY, or TRANSCRIPTION_PROVIDER=local to use LOCAL_TRANSCRIPTION_URL"
+    );
+  }
+
+  return deepgramProvider;
+}
+
+// ==================== PUBLIC API ====================
+
+/**
+ * Transcribe audio from a URL with the configured provider
+ */
+export async function transcribe(
+  audioUrl: string,
+  options: TranscriptionOptions = {}
+): Promise<Transcription> {
+  const provider = getTranscriptionProvider();
+  console.log(`🎤 Transcribing with ${provider.name}`);
+  return provider.transcribeUrl(audioUrl, options);
+}
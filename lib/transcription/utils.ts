@@ -0,0 +1,537 @@
+/**
+ * Transcription Utilities
+ * Normalized word-timed transcript shared by every transcription provider,
+ * plus caption builders (SRT, WebVTT, JSON, text) and transcript editing helpers
+ */
+
+import { DeepgramResult, fromDeepgramResult, isDeepgramResult } from "@/lib/deepgram/utils";
+
+// ==================== TYPES ====================
+
+export interface TranscriptionWord {
+  text: string; // As displayed - punctuation and casing included
+  start: number;
+  end: number;
+  confidence: number;
+}
+
+export interface TranscriptionSentence {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface TranscriptionParagraph {
+  sentences: TranscriptionSentence[];
+  start: number;
+  end: number;
+}
+
+/**
+ * Provider-neutral transcription result, stored in recordings.transcription_data
+ */
+export interface Transcription {
+  version: 1;
+  provider: string; // "deepgram", "local", ...
+  text: string;
+  confidence: number;
+  language: string | null;
+  duration: number | null; // Seconds of audio
+  words: TranscriptionWord[];
+  paragraphs: TranscriptionParagraph[];
+}
+
+/** Normalized caption cue - shared shape for our JSON caption export */
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+  words: Array<{ text: string; start: number; end: number; confidence: number }>;
+}
+
+export interface CaptionDocument {
+  version: 1;
+  language: string | null;
+  duration: number | null;
+  cues: CaptionCue[];
+}
+
+export interface VttOptions {
+  maxWordsPerLine?: number;
+  maxCharsPerLine?: number;
+  maxDuration?: number;
+  maxGap?: number;
+  /** WebVTT cue settings, e.g. { line: '85%', align: 'center' } */
+  cueSettings?: {
+    line?: string;
+    position?: string;
+    size?: string;
+    align?: 'start' | 'center' | 'end' | 'left' | 'right';
+  };
+}
+
+/** A timed caption line without word timings (e.g. a translated caption) */
+export interface CaptionLine {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** Replacement text for one word, by index in the word list ("" removes the word) */
+export interface WordCorrection {
+  index: number;
+  text: string;
+}
+
+interface SrtCue {
+  index: number;
+  startTime: string;
+  endTime: string;
+  text: string;
+}
+
+// ==================== NORMALIZATION ====================
+
+/**
+ * Read stored transcription_data as a Transcription
+ * Rows transcribed before providers were pluggable hold raw Deepgram results
+ * Returns null when there's nothing usable
+ */
+export function toTranscription(data: unknown): Transcription | null {
+  if (!data || typeof data !== 'object') {
+    return null;
+  }
+
+  const candidate = data as Partial<Transcription>;
+  if (candidate.version === 1 && Array.isArray(candidate.words)) {
+    return candidate as Transcription;
+  }
+
+  if (isDeepgramResult(data)) {
+    return fromDeepgramResult(data as DeepgramResult);
+  }
+
+  return null;
+}
+
+/**
+ * Build a Transcription from words alone (paragraphs from sentence punctuation)
+ */
+export function buildTranscription(
+  words: TranscriptionWord[],
+  fields: Partial<Omit<Transcription, 'version' | 'words'>> = {}
+): Transcription {
+  return {
+    version: 1,
+    provider: fields.provider || 'unknown',
+    text: fields.text ?? words.map((word) => word.text).join(' '),
+    confidence: fields.confidence ?? averageConfidence(words),
+    language: fields.language ?? null,
+    duration: fields.duration ?? null,
+    words,
+    paragraphs: fields.paragraphs ?? [],
+  };
+}
+
+function averageConfidence(words: TranscriptionWord[]): number {
+  if (words.length === 0) return 0;
+  return words.reduce((total, word) => total + word.confidence, 0) / words.length;
+}
+
+// ==================== WORD POSITIONS ====================
+
+/**
+ * Character offset where each word starts in the words joined by single spaces
+ * Used to map text matches back to word timings
+ */
+export function getWordOffsets(words: TranscriptionWord[]): number[] {
+  const offsets: number[] = [];
+  let cursor = 0;
+  for (const word of words) {
+    offsets.push(cursor);
+    cursor += word.text.length + 1;
+  }
+  return offsets;
+}
+
+/**
+ * Index of the word containing a character offset (see getWordOffsets)
+ */
+export function findWordAt(offsets: number[], charIndex: number): number {
+  let index = 0;
+  while (index < offsets.length - 1 && offsets[index + 1] <= charIndex) {
+    index++;
+  }
+  return index;
+}
+
+// ==================== CAPTIONS ====================
+
+/**
+ * Format seconds to SRT timestamp format (HH:MM:SS,mmm)
+ */
+function formatSrtTime(seconds: number): string {
+  // Work in whole milliseconds so rounding can't produce ",1000"
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const milliseconds = totalMs % 1000;
+
+  return `${hours.toString().padStart(2, '0')}:${minutes
+    .toString()
+    .padStart(2, '0')}:${secs.toString().padStart(2, '0')},${milliseconds
+    .toString()
+    .padStart(3, '0')}`;
+}
+
+/**
+ * Format seconds to WebVTT timestamp format (HH:MM:SS.mmm)
+ */
+function formatVttTime(seconds: number): string {
+  // Work in whole milliseconds so rounding can't produce ".1000"
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const milliseconds = totalMs % 1000;
+
+  return `${hours.toString().padStart(2, '0')}:${minutes
+    .toString()
+    .padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${milliseconds
+    .toString()
+    .padStart(3, '0')}`;
+}
+
+/**
+ * Group words into caption lines
+ * Breaks on word/character/duration limits, sentence-ending punctuation,
+ * and pauses longer than maxGap
+ */
+export function groupWordsIntoLines(
+  words: TranscriptionWord[],
+  maxWordsPerLine: number = 8,
+  maxCharsPerLine: number = 42,
+  maxDuration: number = 4,
+  maxGap: number = Infinity
+): TranscriptionWord[][] {
+  const lines: TranscriptionWord[][] = [];
+  let currentWords: TranscriptionWord[] = [];
+  let currentText = '';
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    const potentialText = currentText ? `${currentText} ${word.text}` : word.text;
+
+    // Check if we should start a new line
+    const wordCount = currentWords.length + 1;
+    const charCount = potentialText.length;
+    const duration = currentWords.length > 0
+      ? word.end - currentWords[0].start
+      : 0;
+
+    const gap = currentWords.length > 0
+      ? word.start - currentWords[currentWords.length - 1].end
+      : 0;
+
+    const shouldBreak =
+      wordCount > maxWordsPerLine ||
+      charCount > maxCharsPerLine ||
+      duration > maxDuration ||
+      gap > maxGap ||
+      // Break on sentence-ending punctuation
+      (currentText && /[.!?]$/.test(currentText));
+
+    if (shouldBreak && currentWords.length > 0) {
+      // Save current line and start a new one with this word
+      lines.push(currentWords);
+      currentWords = [word];
+      currentText = word.text;
+    } else {
+      // Add to current line
+      currentWords.push(word);
+      currentText = potentialText;
+    }
+  }
+
+  // Don't forget the last line
+  if (currentWords.length > 0) {
+    lines.push(currentWords);
+  }
+
+  return lines;
+}
+
+function lineText(line: TranscriptionWord[]): string {
+  return line.map((word) => word.text).join(' ');
+}
+
+/**
+ * Convert a transcription to SRT subtitle format
+ * Groups words into readable lines (roughly 10 words or 40 chars per line)
+ *
+ * @param transcription - Normalized transcription with word timings
+ * @param maxWordsPerLine - Maximum words per subtitle line (default: 8)
+ * @param maxCharsPerLine - Maximum characters per subtitle line (default: 42)
+ * @param maxDuration - Maximum duration per subtitle in seconds (default: 4)
+ * @param maxGap - Break the subtitle when words are further apart than this in seconds (default: no limit)
+ * @returns SRT formatted string
+ */
+export function jsonToSrt(
+  transcription: Transcription,
+  maxWordsPerLine: number = 8,
+  maxCharsPerLine: number = 42,
+  maxDuration: number = 4,
+  maxGap: number = Infinity
+): string {
+  const words = transcription?.words;
+
+  if (!words || words.length === 0) {
+    console.warn('No words found in transcription');
+    return '';
+  }
+
+  const lines = groupWordsIntoLines(words, maxWordsPerLine, maxCharsPerLine, maxDuration, maxGap);
+
+  const cues: SrtCue[] = lines.map((line, index) => ({
+    index: index + 1,
+    startTime: formatSrtTime(line[0].start),
+    endTime: formatSrtTime(line[line.length - 1].end),
+    text: lineText(line),
+  }));
+
+  // Generate SRT string
+  const srtLines = cues.map((cue) => {
+    return `${cue.index}\n${cue.startTime} --> ${cue.endTime}\n${cue.text}\n`;
+  });
+
+  return srtLines.join('\n');
+}
+
+/**
+ * Convert a transcription to WebVTT (used for Mux text tracks and the captions API)
+ * Uses the same line grouping as jsonToSrt, with optional cue settings on every cue
+ */
+export function jsonToVtt(transcription: Transcription, options: VttOptions = {}): string {
+  const settings = Object.entries(options.cueSettings || {})
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}:${value}`)
+    .join(' ');
+
+  const cues = groupWordsIntoLines(
+    transcription?.words || [],
+    options.maxWordsPerLine,
+    options.maxCharsPerLine,
+    options.maxDuration,
+    options.maxGap
+  ).map((line) => {
+    const timing = `${formatVttTime(line[0].start)} --> ${formatVttTime(line[line.length - 1].end)}`;
+    return `${settings ? `${timing} ${settings}` : timing}\n${lineText(line)}\n`;
+  });
+
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+/**
+ * Convert a transcription to our JSON caption format
+ * Keeps word timings so clients can build their own highlighting
+ */
+export function jsonToCaptionDocument(transcription: Transcription): CaptionDocument {
+  const cues = groupWordsIntoLines(transcription?.words || []).map((line) => ({
+    start: line[0].start,
+    end: line[line.length - 1].end,
+    text: lineText(line),
+    words: line.map((word) => ({
+      text: word.text,
+      start: word.start,
+      end: word.end,
+      confidence: word.confidence,
+    })),
+  }));
+
+  return {
+    version: 1,
+    language: transcription?.language || null,
+    duration: getTranscriptDuration(transcription),
+    cues,
+  };
+}
+
+/**
+ * Plain-text transcript split into paragraphs (no speaker labels or timings)
+ * Uses paragraphs when the provider returned them, otherwise the flat transcript
+ */
+export function jsonToText(transcription: Transcription): string {
+  const paragraphs = transcription?.paragraphs;
+
+  if (paragraphs && paragraphs.length > 0) {
+    return paragraphs
+      .map((paragraph) => paragraph.sentences.map((sentence) => sentence.text).join(' '))
+      .join('\n\n');
+  }
+
+  return transcription?.text || lineText(transcription?.words || []);
+}
+
+/**
+ * Caption lines from a transcription, grouped the same way as jsonToSrt/jsonToVtt
+ */
+export function jsonToCaptionLines(transcription: Transcription): CaptionLine[] {
+  return groupWordsIntoLines(transcription?.words || []).map((line) => ({
+    start: line[0].start,
+    end: line[line.length - 1].end,
+    text: lineText(line),
+  }));
+}
+
+/**
+ * Caption lines to SRT
+ */
+export function captionLinesToSrt(lines: CaptionLine[]): string {
+  return lines
+    .map((line, index) => `${index + 1}\n${formatSrtTime(line.start)} --> ${formatSrtTime(line.end)}\n${line.text}\n`)
+    .join('\n');
+}
+
+/**
+ * Caption lines to WebVTT
+ */
+export function captionLinesToVtt(lines: CaptionLine[]): string {
+  const cues = lines.map(
+    (line) => `${formatVttTime(line.start)} --> ${formatVttTime(line.end)}\n${line.text}\n`
+  );
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+// ==================== EDITING ====================
+
+/**
+ * Apply word corrections while keeping each word's timestamps
+ * Rebuilds the flat transcript and paragraph sentences from the corrected words
+ */
+export function applyWordCorrections(
+  transcription: Transcription,
+  corrections: WordCorrection[]
+): Transcription {
+  const replacements = new Map(corrections.map((correction) => [correction.index, correction.text.trim()]));
+
+  const words = transcription.words.flatMap((word, index) => {
+    if (!replacements.has(index)) return [word];
+    const text = replacements.get(index)!;
+    if (!text) return [];
+    return [{ ...word, text }];
+  });
+
+  const wordsBetween = (start: number, end: number) =>
+    lineText(words.filter((word) => word.start >= start && word.start < end + 0.001));
+
+  const paragraphs = transcription.paragraphs.map((paragraph) => ({
+    ...paragraph,
+    sentences: paragraph.sentences.map((sentence) => ({
+      ...sentence,
+      text: wordsBetween(sentence.start, sentence.end),
+    })),
+  }));
+
+  return {
+    ...transcription,
+    text: lineText(words),
+    words,
+    paragraphs,
+  };
+}
+
+// ==================== TIMING ====================
+
+/**
+ * Length of the transcribed audio in seconds
+ * Uses the provider's duration, falling back to the end of the last word
+ */
+export function getTranscriptDuration(transcription: Transcription): number | null {
+  if (transcription?.duration) {
+    return transcription.duration;
+  }
+
+  const words = transcription?.words;
+  return words && words.length > 0 ? words[words.length - 1].end : null;
+}
+
+/**
+ * Merge several transcriptions into one, shifting each by its offset in seconds
+ * Used to caption videos stitched from multiple recordings
+ */
+export function mergeTranscriptions(
+  segments: Array<{ transcription: Transcription | null; offset: number }>
+): Transcription {
+  const words: TranscriptionWord[] = [];
+  const texts: string[] = [];
+  const providers = new Set<string>();
+  const languages = new Set<string>();
+
+  for (const { transcription, offset } of segments) {
+    if (!transcription) continue;
+
+    for (const word of transcription.words) {
+      words.push({ ...word, start: word.start + offset, end: word.end + offset });
+    }
+
+    if (transcription.text) {
+      texts.push(transcription.text);
+    }
+    providers.add(transcription.provider);
+    if (transcription.language) {
+      languages.add(transcription.language);
+    }
+  }
+
+  return buildTranscription(words, {
+    provider: Array.from(providers).join('+') || 'unknown',
+    text: texts.join(' '),
+    language: languages.size === 1 ? Array.from(languages)[0] : null,
+  });
+}
+
+/**
+ * Keep only the words between start and end (seconds), shifted so the span starts at 0
+ * Used to caption clips trimmed out of a longer recording
+ */
+export function trimTranscription(
+  transcription: Transcription,
+  start: number,
+  end: number
+): Transcription {
+  const words = transcription.words.filter(
+    (word) => word.start >= start && word.end <= end
+  );
+
+  return mergeTranscriptions([
+    {
+      transcription: buildTranscription(words, {
+        provider: transcription.provider,
+        language: transcription.language,
+      }),
+      offset: -start,
+    },
+  ]);
+}
+
+/**
+ * Parse SRT string back to cue array (for debugging/verification)
+ */
+export function parseSrt(srtContent: string): SrtCue[] {
+  const cues: SrtCue[] = [];
+  const blocks = srtContent.trim().split('\n\n');
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    if (lines.length >= 3) {
+      const index = parseInt(lines[0], 10);
+      const [startTime, endTime] = lines[1].split(' --> ');
+      const text = lines.slice(2).join('\n');
+
+      cues.push({ index, startTime, endTime, text });
+    }
+  }
+
+  return cues;
+}
@@ -3,10 +3,13 @@
  * Defines the structure for dynamic interview sessions with customizable questions
  */
 
+import { InterviewLanguage } from "@/lib/i18n/languages";
+
 export interface Question {
   id: string;
   text: string;
   intent?: string; // Optional context/guidance for the question
+  ruleId?: string; // Evaluation rule from the campaign's rule pack
 }
 
 export interface BrandCustomization {
@@ -22,9 +25,12 @@ export interface BrandCustomization {
 
 export interface InterviewSession {
   session_id: string;
+  campaign_id?: string; // Loads the campaign's rule pack during live evaluation
   company_name: string;
   company_logo?: string; // Optional company logo URL
   questions: Question[]; // Dynamic array of questions selected for this campaign
+  vocabulary?: string[]; // Campaign product, feature and competitor names
+  language?: InterviewLanguage; // Resolved interview language (defaults to English)
   created_at: string; // ISO timestamp
   brand_customization?: BrandCustomization; // Optional brand customization
 }
@@ -43,6 +49,13 @@ export interface InterviewState {
   hasConsent: boolean; // Whether user has given recording consent
 }
 
+export interface SessionResumeState {
+  status: "pending" | "in_progress" | "completed" | "expired";
+  currentQuestionIndex: number; // Last index synced to the server
+  hasConsent: boolean; // Whether consent was stored on a previous visit
+  answeredQuestionIds: string[]; // Questions with at least one recording
+}
+
 export interface InterviewContextType {
   state: InterviewState;
   startRecording: () => void;
@@ -60,3 +73,31 @@ export interface InterviewContextType {
     max: number;
   };
 }
+
+/** Where the respondent's face sat in the frame (0-1), used to reframe vertical and square renders */
+export interface FramingHint {
+  x: number;
+  y: number;
+}
+
+export interface PendingUpload {
+  id: string;
+  questionId: string;
+  questionIndex: number;
+  questionText: string;
+  attempts: number;
+  lastError?: string;
+  keptInMemory?: boolean; // Couldn't be saved on the device - lost if the page closes first
+}
+
+export interface UploadQueueContextType {
+  pendingUploads: PendingUpload[]; // Answers saved locally but not yet uploaded
+  isUploading: boolean; // Whether an upload is in progress
+  uploadProgress: number; // Progress of the current upload (0-100)
+  storageError: string | null; // Why the last answer couldn't be queued at all
+  enqueueUpload: (
+    blob: Blob,
+    question: { id: string; text: string; index: number },
+    framing?: FramingHint | null
+  ) => Promise<void>; // Save a finished recording and upload when online
+}
@@ -0,0 +1,31 @@
+/**
+ * Transcript Editing Type Definitions
+ * Shared by the transcript API and the TranscriptEditor component
+ */
+
+export interface TranscriptWord {
+  index: number; // Position in the transcript word list
+  text: string;
+  start: number; // Seconds
+  end: number;
+  confidence: number;
+}
+
+export interface TranscriptCorrection {
+  index: number;
+  text: string; // Replacement text ("" removes the word)
+}
+
+export interface EditableTranscript {
+  recordingId: string;
+  version: number;
+  words: TranscriptWord[];
+}
+
+export interface TranscriptRevision {
+  version: number;
+  corrections: TranscriptCorrection[];
+  transcription: string | null;
+  editedBy: string | null;
+  createdAt: string;
+}
@@ -0,0 +1,188 @@
+/**
+ * Mock Model Server
+ * Local stand-in for the Anthropic Messages API and Gemini's streamGenerateContent, so
+ * the answer evaluators can be run and tested without API keys. Streams the evaluation
+ * (a record_evaluation tool call for Claude, JSON text for Gemini) in small chunks
+ *
+ * Run with: npx tsx scripts/mock-model-server.ts [--port 4010]
+ * Then set ANTHROPIC_BASE_URL and/or GEMINI_BASE_URL=http://localhost:4010 in .env.local
+ */
+
+import { createServer, IncomingMessage, Server } from "http";
+import type { AddressInfo } from "net";
+import type { EvaluatorProvider } from "../lib/evaluation/answerEvaluator";
+
+// ==================== TYPES ====================
+
+export interface MockEvaluation {
+  isComplete: boolean;
+  followUp: string | null;
+  confidence: number;
+  extractedValue: string | null;
+}
+
+/**
+ * What the mock model does with a request
+ * Return an evaluation to stream, { status } to fail the request, or
+ * { rawInput } to stream tool input that isn't a valid evaluation
+ */
+export type MockResponse = MockEvaluation | { status: number } | { rawInput: string };
+
+export interface MockModelServerOptions {
+  port?: number;                          // 0 picks a free port
+  handler?: (body: any, provider: EvaluatorProvider) => MockResponse;
+  firstTokenDelayMs?: number;             // Delay before the tool input starts streaming
+  chunkDelayMs?: number;                  // Delay between tool input chunks
+}
+
+export interface MockModelServer {
+  url: string;
+  requests: any[];                        // Request bodies received, oldest first
+  close: () => Promise<void>;
+}
+
+// ==================== DEFAULT MODEL ====================
+
+/**
+ * Approves answers with a number in them, asks for one otherwise
+ */
+function defaultHandler(body: any): MockResponse {
+  const message = String(body?.messages?.[0]?.content || body?.contents?.[0]?.parts?.[0]?.text || "");
+  const answer = message.match(/CUSTOMER'S ANSWER \(transcribed\): "([\s\S]*?)"\n/)?.[1] || "";
+  const number = answer.match(/\d+(?:\.\d+)?%?/)?.[0];
+
+  return number
+    ? { isComplete: true, followUp: null, confidence: 90, extractedValue: number }
+    : { isComplete: false, followUp: "Could you put a rough number on that?", confidence: 40, extractedValue: null };
+}
+
+// ==================== SERVER ====================
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = "";
+    request.on("data", (chunk) => (data += chunk));
+    request.on("end", () => resolve(data));
+    request.on("error", reject);
+  });
+}
+
+/**
+ * Split JSON into small pieces, the way the real API streams tool input
+ */
+function chunkJson(json: string, size: number = 8): string[] {
+  const chunks: string[] = [];
+  for (let i = 0; i < json.length; i += size) {
+    chunks.push(json.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Start the mock server
+ * Options are read on every request, so tests can change the handler or delays between calls
+ */
+export async function startMockModelServer(options: MockModelServerOptions = {}): Promise<MockModelServer> {
+  const requests: any[] = [];
+
+  const server: Server = createServer(async (request, response) => {
+    const provider: EvaluatorProvider | null = request.url?.startsWith("/v1/messages")
+      ? "anthropic"
+      : request.url?.includes(":streamGenerateContent")
+        ? "gemini"
+        : null;
+
+    if (request.method !== "POST" || !provider) {
+      response.writeHead(404, { "Content-Type": "application/json" });
+      response.end(JSON.stringify({ error: { message: "Not found" } }));
+      return;
+    }
+
+    const body = JSON.parse(await readBody(request));
+    requests.push(body);
+
+    const result = (options.handler || defaultHandler)(body, provider);
+    if ("status" in result) {
+      response.writeHead(result.status, { "Content-Type": "application/json" });
+      response.end(JSON.stringify({ type: "error", error: { type: "api_error", message: "Mock failure" } }));
+      return;
+    }
+
+    const input = "rawInput" in result ? result.rawInput : JSON.stringify(result);
+    const send = (data: Record<string, unknown>, event?: string) => {
+      if (!response.destroyed) {
+        response.write(`${event ? `event: ${event}\n` : ""}data: ${JSON.stringify(data)}\n\n`);
+      }
+    };
+
+    response.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" });
+
+    if (provider === "gemini") {
+      await sleep(options.firstTokenDelayMs ?? 0);
+      for (const chunk of chunkJson(input)) {
+        send({ candidates: [{ index: 0, content: { role: "model", parts: [{ text: chunk }] } }] });
+        await sleep(options.chunkDelayMs ?? 0);
+      }
+      send({ candidates: [{ index: 0, content: { role: "model", parts: [{ text: "" }] }, finishReason: "STOP" }] });
+      response.end();
+      return;
+    }
+
+    const sendEvent = (event: string, data: Record<string, unknown>) => send({ type: event, ...data }, event);
+    const toolName = body.tool_choice?.name || body.tools?.[0]?.name || "record_evaluation";
+
+    sendEvent("message_start", {
+      message: {
+        id: `msg_mock_${requests.length}`,
+        type: "message",
+        role: "assistant",
+        model: body.model,
+        content: [],
+        stop_reason: null,
+        stop_sequence: null,
+        usage: { input_tokens: 0, output_tokens: 0 },
+      },
+    });
+    sendEvent("content_block_start", {
+      index: 0,
+      content_block: { type: "tool_use", id: `toolu_mock_${requests.length}`, name: toolName, input: {} },
+    });
+
+    await sleep(options.firstTokenDelayMs ?? 0);
+    for (const chunk of chunkJson(input)) {
+      sendEvent("content_block_delta", { index: 0, delta: { type: "input_json_delta", partial_json: chunk } });
+      await sleep(options.chunkDelayMs ?? 0);
+    }
+
+    sendEvent("content_block_stop", { index: 0 });
+    sendEvent("message_delta", { delta: { stop_reason: "tool_use", stop_sequence: null }, usage: { output_tokens: 0 } });
+    sendEvent("message_stop", {});
+    response.end();
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+// Run standalone: npx tsx scripts/mock-model-server.ts
+if (require.main === module) {
+  const portIndex = process.argv.indexOf("--port");
+  const port = portIndex === -1 ? 4010 : Number(process.argv[portIndex + 1]);
+
+  startMockModelServer({ port, chunkDelayMs: 30 }).then((server) => {
+    console.log(`🧪 Mock model server listening on ${server.url}`);
+    console.log(`   Set ANTHROPIC_BASE_URL and/or GEMINI_BASE_URL=${server.url} to use it`);
+  });
+}
@@ -0,0 +1,158 @@
+/**
+ * AI Evaluator Test
+ * Runs the answer evaluator's Claude and Gemini providers against the local mock model
+ * server - structured output, streamed follow-ups, provider selection and failover, the
+ * latency budget and error handling - and exits non-zero when any scenario fails
+ *
+ * Run with: npx tsx scripts/test-ai-evaluator.ts
+ */
+
+import { startMockModelServer, MockModelServerOptions } from "./mock-model-server";
+
+const QUESTION = "What results have you seen since switching?";
+
+async function main() {
+  console.log("=".repeat(60));
+  console.log("🧪 AI EVALUATOR TEST");
+  console.log("=".repeat(60));
+
+  const failures: string[] = [];
+  const check = (scenario: string, passed: boolean, detail: string) => {
+    console.log(`${passed ? "✅" : "❌"} ${scenario}${passed ? "" : `: ${detail}`}`);
+    if (!passed) failures.push(scenario);
+  };
+
+  // The clients read their settings once, so every scenario shares one server and
+  // changes what the mock model does
+  const mock: MockModelServerOptions = {};
+  const server = await startMockModelServer(mock);
+  process.env.ANTHROPIC_BASE_URL = server.url;
+  process.env.ANTHROPIC_API_KEY = "mock-key";
+  process.env.GEMINI_BASE_URL = server.url;
+  process.env.GEMINI_API_KEY = "mock-key";
+  delete process.env.EVALUATOR_PROVIDER;
+
+  const { evaluateAnswer } = await import("../lib/evaluation/answerEvaluator");
+
+  // Keep the report readable
+  const warn = console.warn;
+  const error = console.error;
+  console.warn = () => {};
+  console.error = () => {};
+
+  try {
+    // Complete answer - structured output comes back as-is
+    mock.handler = () => ({ isComplete: true, followUp: null, confidence: 92, extractedValue: "40%" });
+    const complete = await evaluateAnswer(QUESTION, "We cut onboarding time by 40% in the first month");
+    check(
+      "complete answer",
+      complete?.isComplete === true &&
+        complete.extractedValue === "40%" &&
+        complete.provider === "anthropic" &&
+        complete.timedOut === false,
+      JSON.stringify(complete)
+    );
+
+    // Tool call is forced
+    const request = server.requests[server.requests.length - 1];
+    check(
+      "forces the evaluation tool",
+      request?.tool_choice?.type === "tool" && request.tool_choice.name === request.tools?.[0]?.name,
+      JSON.stringify(request?.tool_choice)
+    );
+
+    // Follow-up streams in before the final result
+    const followUp = "Roughly how many hours a week does \"faster\" save you?";
+    mock.handler = () => ({ isComplete: false, followUp, confidence: 35, extractedValue: null });
+    const partials: string[] = [];
+    const streamed = await evaluateAnswer(QUESTION, "It saves us a lot of time", {
+      onFollowUpText: (text) => partials.push(text),
+    });
+    check(
+      "streams the follow-up",
+      partials.length > 1 &&
+        partials.every((text, index) => index === 0 || text.startsWith(partials[index - 1])) &&
+        partials[partials.length - 1] === followUp &&
+        streamed?.followUp === followUp,
+      `${partials.length} partials, final ${JSON.stringify(streamed?.followUp)}`
+    );
+
+    // Campaign prefers Gemini - same result shape, follow-up still streams
+    const geminiPartials: string[] = [];
+    const gemini = await evaluateAnswer(QUESTION, "It saves us a lot of time", {
+      provider: "gemini",
+      onFollowUpText: (text) => geminiPartials.push(text),
+    });
+    check(
+      "evaluates with the campaign's provider",
+      gemini?.provider === "gemini" && gemini.followUp === followUp && geminiPartials.length > 1,
+      `${JSON.stringify(gemini)}, ${geminiPartials.length} partials`
+    );
+
+    // Claude is down - Gemini takes over
+    mock.handler = (_body, provider) =>
+      provider === "anthropic"
+        ? { status: 500 }
+        : { isComplete: true, followUp: null, confidence: 88, extractedValue: "3x" };
+    const failover = await evaluateAnswer(QUESTION, "We close deals 3x faster now");
+    check(
+      "fails over to the next provider",
+      failover?.provider === "gemini" && failover.extractedValue === "3x",
+      JSON.stringify(failover)
+    );
+
+    // Slow model - generic follow-up once the budget runs out
+    mock.handler = () => ({ isComplete: true, followUp: null, confidence: 90, extractedValue: "3x" });
+    mock.firstTokenDelayMs = 2000;
+    const startedAt = Date.now();
+    const timedOut = await evaluateAnswer(QUESTION, "It made everything faster", { latencyBudgetMs: 100 });
+    const elapsed = Date.now() - startedAt;
+    check(
+      "falls back to a generic follow-up over budget",
+      timedOut?.timedOut === true && timedOut.isComplete === false && Boolean(timedOut.followUp),
+      JSON.stringify(timedOut)
+    );
+    check("gives up at the budget", elapsed < 1000, `${elapsed}ms`);
+
+    // Non-English interviews don't get an English generic follow-up
+    const timedOutSpanish = await evaluateAnswer(QUESTION, "Todo fue más rápido", {
+      latencyBudgetMs: 100,
+      language: "es",
+    });
+    check(
+      "no generic follow-up outside English",
+      timedOutSpanish?.timedOut === true && timedOutSpanish.followUp === null,
+      JSON.stringify(timedOutSpanish)
+    );
+    mock.firstTokenDelayMs = 0;
+
+    // Output that doesn't match the schema, from every provider
+    mock.handler = () => ({ rawInput: JSON.stringify({ isComplete: "yes", confidence: 80 }) });
+    const malformed = await evaluateAnswer(QUESTION, "It was great overall");
+    check("rejects malformed output", malformed === null, JSON.stringify(malformed));
+
+    // Every provider down - the error is thrown for the caller to handle
+    mock.handler = () => ({ status: 500 });
+    let threw = false;
+    try {
+      await evaluateAnswer(QUESTION, "It was great overall");
+    } catch {
+      threw = true;
+    }
+    check("throws on API errors", threw, "no error thrown");
+  } finally {
+    console.warn = warn;
+    console.error = error;
+    await server.close();
+  }
+
+  console.log(`\n📊 ${failures.length === 0 ? "All scenarios pass" : `${failures.length} failed`}`);
+  if (failures.length > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ AI evaluator test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,102 @@
+/**
+ * Evaluation Regression Test
+ * Runs the labelled transcript corpus through the rules engine, prints precision/recall
+ * per rule ID and exits non-zero when anything is worse than the committed baseline
+ *
+ * Run with: npx tsx scripts/test-evaluation.ts [--verbose] [--pack <rule-pack.json>] [--update]
+ *   --verbose  print every case, not just failures
+ *   --pack     score a candidate rule pack (merged over the built-in rules like a campaign pack)
+ *   --update   write the current results as the new baseline
+ */
+
+import { readFileSync, writeFileSync } from "fs";
+import path from "path";
+
+const CORPUS_PATH = path.join(process.cwd(), "tests/evaluation/corpus.json");
+const BASELINE_PATH = path.join(process.cwd(), "tests/evaluation/baseline.json");
+
+function getFlagValue(flag: string): string | undefined {
+  const index = process.argv.indexOf(flag);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+async function main() {
+  const verbose = process.argv.includes("--verbose");
+  const update = process.argv.includes("--update");
+  const packPath = getFlagValue("--pack");
+
+  const {
+    compareToBaseline,
+    createBaseline,
+    formatMetricsTable,
+    runCorpus,
+    scoreResults,
+    validateCorpus,
+  } = await import("../lib/evaluation/regression");
+  const { DEFAULT_RULE_PACK, mergeRulePacks, validateRulePack } = await import("../lib/evaluation/rulePack");
+
+  const corpus = validateCorpus(JSON.parse(readFileSync(CORPUS_PATH, "utf8")));
+  const rulePack = packPath
+    ? mergeRulePacks(DEFAULT_RULE_PACK, validateRulePack(JSON.parse(readFileSync(packPath, "utf8"))))
+    : DEFAULT_RULE_PACK;
+
+  console.log("=".repeat(60));
+  console.log("🧪 EVALUATION REGRESSION TEST");
+  console.log("=".repeat(60));
+  console.log(`\n📚 ${corpus.cases.length} cases${packPath ? `, rule pack ${packPath}` : ""}\n`);
+
+  // The rules engine logs every decision - keep the report readable
+  const log = console.log;
+  const warn = console.warn;
+  console.log = () => {};
+  console.warn = () => {};
+  const results = runCorpus(corpus, rulePack);
+  console.log = log;
+  console.warn = warn;
+
+  for (const result of results) {
+    if (!result.passed) {
+      console.log(`❌ ${result.id} [${result.group}]: ${result.failures.join("; ")}`);
+    } else if (verbose) {
+      console.log(`✅ ${result.id} [${result.group}]: ${result.outcome}`);
+    }
+  }
+
+  const metrics = scoreResults(corpus, results);
+  console.log(`\n${formatMetricsTable(metrics)}\n`);
+
+  const passed = results.filter((result) => result.passed).length;
+  console.log(`📊 ${passed}/${results.length} cases pass\n`);
+
+  if (update) {
+    writeFileSync(BASELINE_PATH, `${JSON.stringify(createBaseline(metrics, results), null, 2)}\n`);
+    console.log(`💾 Baseline updated: ${path.relative(process.cwd(), BASELINE_PATH)}`);
+    return;
+  }
+
+  const baseline = JSON.parse(readFileSync(BASELINE_PATH, "utf8"));
+  const report = compareToBaseline(baseline, metrics, results);
+
+  for (const improvement of report.improvements) {
+    console.log(`📈 ${improvement}`);
+  }
+
+  if (report.regressions.length > 0) {
+    console.log("\n❌ REGRESSIONS AGAINST BASELINE:");
+    for (const regression of report.regressions) {
+      console.log(`   - ${regression}`);
+    }
+    process.exit(1);
+  }
+
+  if (report.improvements.length > 0) {
+    console.log("\n💡 Run with --update to lock in the improvements");
+  }
+
+  console.log("\n✅ No regressions against baseline");
+}
+
+main().catch((error) => {
+  console.error("❌ Evaluation test failed:", error);
+  process.exit(1);
+});
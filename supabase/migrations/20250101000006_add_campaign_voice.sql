@@ -0,0 +1,6 @@
+-- Add AI Producer voice to campaigns table
+-- Stores the ElevenLabs voice ID used to read questions and follow-ups aloud
+-- NULL falls back to the default voice (ELEVENLABS_VOICE_ID)
+
+ALTER TABLE campaigns
+ADD COLUMN IF NOT EXISTS voice_id TEXT;
@@ -0,0 +1,6 @@
+-- Add recording consent timestamp to sessions table
+-- Lets a respondent who reloads the page resume without re-accepting consent
+-- NULL means consent has not been given yet
+
+ALTER TABLE sessions
+ADD COLUMN IF NOT EXISTS consent_given_at TIMESTAMPTZ;
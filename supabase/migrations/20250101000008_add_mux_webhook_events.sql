@@ -0,0 +1,32 @@
+-- Mux Webhook Events
+-- Stores every verified Mux webhook so redelivered events are ignored
+-- Also links recordings to their Mux direct upload so upload events can find them
+
+-- ============================================
+-- MUX_WEBHOOK_EVENTS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS mux_webhook_events (
+  id TEXT PRIMARY KEY, -- Mux event ID (stable across redeliveries)
+  type TEXT NOT NULL,
+  object_id TEXT,
+  status TEXT DEFAULT 'processing' CHECK (status IN ('processing', 'processed', 'failed')),
+  payload JSONB NOT NULL,
+  error TEXT,
+  received_at TIMESTAMPTZ DEFAULT NOW(),
+  processed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_mux_webhook_events_object_id
+  ON mux_webhook_events(object_id);
+
+-- Only the service role (webhook handler) touches this table
+ALTER TABLE mux_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- RECORDINGS - MUX UPLOAD ID
+-- ============================================
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS mux_upload_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_recordings_mux_upload_id
+  ON recordings(mux_upload_id);
@@ -0,0 +1,76 @@
+-- Recording Job Pipeline
+-- Durable, retryable background jobs that move each recording through:
+--   uploaded → asset_ready → transcribed → evaluated → rendered → published
+-- Each job produces one stage; failures back off and eventually dead-letter
+
+-- ============================================
+-- RECORDINGS - CURRENT PIPELINE STAGE
+-- ============================================
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS pipeline_stage TEXT DEFAULT 'uploaded'
+  CHECK (pipeline_stage IN ('uploaded', 'asset_ready', 'transcribed', 'evaluated', 'rendered', 'published'));
+
+-- ============================================
+-- RECORDING_JOBS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS recording_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  recording_id UUID REFERENCES recordings(id) ON DELETE CASCADE,
+  stage TEXT NOT NULL CHECK (stage IN ('asset_ready', 'transcribed', 'evaluated', 'rendered', 'published')),
+  status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'dead')),
+  attempts INTEGER DEFAULT 0,
+  max_attempts INTEGER DEFAULT 5,
+  payload JSONB DEFAULT '{}'::jsonb,
+  last_error TEXT,
+  run_after TIMESTAMPTZ DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Worker lookups: due jobs first
+CREATE INDEX IF NOT EXISTS idx_recording_jobs_due
+  ON recording_jobs(status, run_after);
+
+CREATE INDEX IF NOT EXISTS idx_recording_jobs_recording_id
+  ON recording_jobs(recording_id);
+
+-- At most one active job per recording and stage
+CREATE UNIQUE INDEX IF NOT EXISTS idx_recording_jobs_active_stage
+  ON recording_jobs(recording_id, stage)
+  WHERE status IN ('pending', 'running');
+
+CREATE TRIGGER update_recording_jobs_updated_at BEFORE UPDATE ON recording_jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Only the service role (worker, webhooks, admin API) touches this table
+ALTER TABLE recording_jobs ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- CLAIM FUNCTION
+-- Atomically locks due jobs so concurrent workers never run the same job
+-- Jobs stuck in 'running' (worker died) become claimable again after 10 minutes
+-- ============================================
+CREATE OR REPLACE FUNCTION claim_recording_jobs(batch_size INTEGER, only_recording_id UUID DEFAULT NULL)
+RETURNS SETOF recording_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE recording_jobs
+  SET status = 'running',
+      locked_at = NOW(),
+      attempts = recording_jobs.attempts + 1
+  WHERE id IN (
+    SELECT id FROM recording_jobs
+    WHERE (
+        (status = 'pending' AND run_after <= NOW())
+        OR (status = 'running' AND locked_at < NOW() - INTERVAL '10 minutes')
+      )
+      AND (only_recording_id IS NULL OR recording_id = only_recording_id)
+    ORDER BY run_after
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
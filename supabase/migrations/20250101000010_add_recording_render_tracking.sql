@@ -0,0 +1,21 @@
+-- Track Shotstack Renders on Recordings
+-- Stores the post-production render and the final Mux asset it produced
+-- Updated by the Shotstack callback route and the job pipeline's published stage
+
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS shotstack_render_id TEXT,
+ADD COLUMN IF NOT EXISTS render_status TEXT
+  CHECK (render_status IN ('queued', 'fetching', 'rendering', 'saving', 'done', 'failed')),
+ADD COLUMN IF NOT EXISTS render_url TEXT,
+ADD COLUMN IF NOT EXISTS render_error TEXT,
+ADD COLUMN IF NOT EXISTS final_mux_asset_id TEXT,
+ADD COLUMN IF NOT EXISTS final_mux_playback_id TEXT,
+ADD COLUMN IF NOT EXISTS render_updated_at TIMESTAMPTZ;
+
+-- Callback and status lookups by render ID
+CREATE INDEX IF NOT EXISTS idx_recordings_shotstack_render_id
+  ON recordings(shotstack_render_id);
+
+-- Surface failed renders quickly
+CREATE INDEX IF NOT EXISTS idx_recordings_render_status
+  ON recordings(render_status);
@@ -0,0 +1,8 @@
+-- Add Soundbite Clip Points to Recordings
+-- The strongest 15-30 second span of each answer, picked from Deepgram word timings
+-- Used to trim short social cuts in Shotstack
+
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS soundbite_start_seconds DECIMAL(10, 2),
+ADD COLUMN IF NOT EXISTS soundbite_end_seconds DECIMAL(10, 2),
+ADD COLUMN IF NOT EXISTS soundbite_text TEXT;
@@ -0,0 +1,10 @@
+-- Add Framing Hints and Per-Format Renders to Recordings
+-- framing_x/framing_y: average face position while recording (0-1), captured by
+-- the browser's segmentation model and used to crop vertical and square renders
+-- format_renders: every render submitted for the recording, e.g.
+--   [{ "format": "9:16", "renderId": "..." }]
+
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS framing_x DECIMAL(4, 3) CHECK (framing_x BETWEEN 0 AND 1),
+ADD COLUMN IF NOT EXISTS framing_y DECIMAL(4, 3) CHECK (framing_y BETWEEN 0 AND 1),
+ADD COLUMN IF NOT EXISTS format_renders JSONB NOT NULL DEFAULT '[]'::jsonb;
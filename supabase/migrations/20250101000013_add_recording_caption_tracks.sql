@@ -0,0 +1,7 @@
+-- Track Mux Subtitle Tracks on Recordings
+-- The generated VTT is attached to the Mux asset as a subtitles text track
+-- and replaced whenever the transcript changes
+
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS mux_text_track_id TEXT,
+ADD COLUMN IF NOT EXISTS captions_language TEXT;
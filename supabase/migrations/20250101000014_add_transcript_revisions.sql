@@ -0,0 +1,31 @@
+-- Transcript Revisions
+-- Reviewers correct misheard words; each save is a new version with the full
+-- corrected Deepgram result (timestamps kept), so any version can be restored.
+-- Version 0 is the original Deepgram transcript, stored on the first edit.
+
+-- ============================================
+-- RECORDINGS - CURRENT TRANSCRIPT VERSION
+-- ============================================
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS transcript_version INTEGER NOT NULL DEFAULT 0;
+
+-- ============================================
+-- TRANSCRIPT_REVISIONS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS transcript_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  recording_id UUID NOT NULL REFERENCES recordings(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  corrections JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ index, text }] applied to the previous version
+  transcription TEXT,
+  transcription_data JSONB NOT NULL,
+  edited_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (recording_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcript_revisions_recording_id
+  ON transcript_revisions(recording_id);
+
+-- Only the service role (transcript API) touches this table
+ALTER TABLE transcript_revisions ENABLE ROW LEVEL SECURITY;
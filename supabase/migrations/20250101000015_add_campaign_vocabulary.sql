@@ -0,0 +1,6 @@
+-- Add custom vocabulary to campaigns table
+-- Product, feature and competitor names for this campaign's company
+-- Boosted in Deepgram transcription and counted as specific feature mentions by the rules engine
+
+ALTER TABLE campaigns
+ADD COLUMN IF NOT EXISTS vocabulary TEXT[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,34 @@
+-- Multilingual Interviews
+-- Campaigns pick the interview language ('auto' detects it from the respondent's
+-- browser and Deepgram), plus extra languages to translate captions into.
+-- Translated caption cues keep the original timings and are stored per recording.
+
+-- ============================================
+-- CAMPAIGNS - LANGUAGE SETTINGS
+-- ============================================
+ALTER TABLE campaigns
+ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'en';
+
+ALTER TABLE campaigns
+ADD COLUMN IF NOT EXISTS caption_languages TEXT[] NOT NULL DEFAULT '{}';
+
+-- ============================================
+-- CAPTION_TRANSLATIONS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS caption_translations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  recording_id UUID NOT NULL REFERENCES recordings(id) ON DELETE CASCADE,
+  language TEXT NOT NULL,
+  transcript_version INTEGER NOT NULL DEFAULT 0, -- recordings.transcript_version it was translated from
+  cues JSONB NOT NULL, -- [{ start, end, text }] in the target language
+  mux_text_track_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (recording_id, language)
+);
+
+CREATE INDEX IF NOT EXISTS idx_caption_translations_recording_id
+  ON caption_translations(recording_id);
+
+-- Only the service role (captions service and route) touches this table
+ALTER TABLE caption_translations ENABLE ROW LEVEL SECURITY;
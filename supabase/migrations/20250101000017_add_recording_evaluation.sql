@@ -0,0 +1,14 @@
+-- Store the Server-Side Answer Evaluation on Recordings
+-- Runs in the evaluated pipeline stage against the final transcript,
+-- replacing the browser's live Web Speech estimate as the reviewer-facing assessment
+
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS evaluation_score INTEGER CHECK (evaluation_score BETWEEN 0 AND 100),
+ADD COLUMN IF NOT EXISTS evaluation_is_complete BOOLEAN,
+ADD COLUMN IF NOT EXISTS evaluation_follow_up TEXT,
+ADD COLUMN IF NOT EXISTS evaluation_extracted_value TEXT,
+-- Testimonial values found in the transcript: [{kind, text}]
+ADD COLUMN IF NOT EXISTS evaluation_values JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS evaluation_rule_id TEXT,
+ADD COLUMN IF NOT EXISTS evaluated_by TEXT CHECK (evaluated_by IN ('rules', 'ai', 'error')),
+ADD COLUMN IF NOT EXISTS evaluated_at TIMESTAMPTZ;
@@ -0,0 +1,36 @@
+-- Testimonial Insights
+-- Typed values extracted from each answer's transcript (metrics, pain points,
+-- features, competitors, NPS scores, titles, industries) with their timestamp span.
+-- Denormalized campaign/session IDs so marketing can query across campaigns, e.g.
+--   SELECT * FROM testimonial_insights WHERE kind = 'metric' AND unit = 'multiplier' AND value > 5;
+
+-- ============================================
+-- TESTIMONIAL_INSIGHTS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS testimonial_insights (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  recording_id UUID NOT NULL REFERENCES recordings(id) ON DELETE CASCADE,
+  session_id UUID REFERENCES sessions(id) ON DELETE CASCADE,
+  campaign_id UUID REFERENCES campaigns(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('metric', 'pain', 'feature', 'competitor', 'nps', 'title', 'industry')),
+  text TEXT NOT NULL, -- Matched text as spoken
+  value NUMERIC, -- Metric amount or NPS score
+  unit TEXT, -- Metric unit: percent, multiplier, minutes, hours, days, weeks, months, years, usd, count, people
+  context TEXT, -- Sentence the value was mentioned in
+  start_seconds NUMERIC, -- Timestamp span in the recording (null without word timings)
+  end_seconds NUMERIC,
+  transcript_version INTEGER NOT NULL DEFAULT 0, -- recordings.transcript_version it was extracted from
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_testimonial_insights_recording_id
+  ON testimonial_insights(recording_id);
+
+CREATE INDEX IF NOT EXISTS idx_testimonial_insights_campaign_id
+  ON testimonial_insights(campaign_id);
+
+CREATE INDEX IF NOT EXISTS idx_testimonial_insights_kind_unit_value
+  ON testimonial_insights(kind, unit, value);
+
+-- Only the service role (insights service and admin API) touches this table
+ALTER TABLE testimonial_insights ENABLE ROW LEVEL SECURITY;
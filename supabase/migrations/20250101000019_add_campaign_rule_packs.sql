@@ -0,0 +1,33 @@
+-- Add per-campaign evaluation rule packs
+-- { version: 1, rules: [...] } - rules override the built-in pack by ID, new IDs are added
+-- Questions reference rules by ruleId; NULL means the campaign uses the built-in pack as-is
+
+ALTER TABLE campaigns
+ADD COLUMN IF NOT EXISTS rule_pack JSONB;
+
+-- Point the standard questions at their built-in rules (questions already tagged keep theirs)
+UPDATE campaigns
+SET questions = (
+  SELECT jsonb_agg(
+    CASE
+      WHEN question ? 'ruleId' OR rules.rule_id IS NULL THEN question
+      ELSE question || jsonb_build_object('ruleId', rules.rule_id)
+    END
+    ORDER BY position
+  )
+  FROM jsonb_array_elements(campaigns.questions) WITH ORDINALITY AS items(question, position)
+  LEFT JOIN (VALUES
+    ('q_role_001', 'q1_role_team_industry'),
+    ('q_problem_001', 'q2_problem_before'),
+    ('q_alternatives_001', 'q3_alternatives'),
+    ('q_onboarding_001', 'q4_onboarding'),
+    ('q_results_001', 'q6_results_qualitative'),
+    ('q_metrics_001', 'q7_metrics_roi'),
+    ('q_feature_001', 'q8_killer_feature'),
+    ('q_challenges_001', 'q9_limitations'),
+    ('q_support_001', 'q10_support'),
+    ('q_surprise_001', 'q11_surprise'),
+    ('q_recommendation_001', 'q12_recommendation')
+  ) AS rules(question_id, rule_id) ON rules.question_id = question->>'id'
+)
+WHERE jsonb_typeof(questions) = 'array' AND jsonb_array_length(questions) > 0;
@@ -0,0 +1,10 @@
+-- Pluggable AI Answer Evaluators
+-- Campaigns can prefer a provider for answers the rules engine can't settle
+-- (NULL uses EVALUATOR_PROVIDER, then Claude); other configured providers are failover.
+-- Recordings keep which provider made the final decision, next to evaluation_rule_id
+
+ALTER TABLE campaigns
+ADD COLUMN IF NOT EXISTS evaluator_provider TEXT CHECK (evaluator_provider IN ('anthropic', 'gemini'));
+
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS evaluation_provider TEXT CHECK (evaluation_provider IN ('anthropic', 'gemini'));
@@ -0,0 +1,25 @@
+-- Track Every Format's Render
+-- format_renders entries now carry their own status, output and Mux asset:
+--   [{ "format": "9:16", "renderId": "...", "status": "rendering", "url": null, "error": null }]
+-- renderId is null when the submission itself failed. render_status sums up every
+-- format (failed if any failed), so callbacks, status and retry cover them all
+
+-- Existing entries: the primary render has a known status, the others are re-synced
+UPDATE recordings
+SET format_renders = (
+  SELECT jsonb_agg(
+    CASE
+      WHEN render ? 'status' THEN render
+      WHEN render->>'renderId' = recordings.shotstack_render_id
+        THEN render || jsonb_build_object('status', COALESCE(recordings.render_status, 'queued'))
+      ELSE render || jsonb_build_object('status', 'queued')
+    END
+    ORDER BY position
+  )
+  FROM jsonb_array_elements(recordings.format_renders) WITH ORDINALITY AS items(render, position)
+)
+WHERE jsonb_array_length(format_renders) > 0;
+
+-- Callback and status lookups by any format's render ID
+CREATE INDEX IF NOT EXISTS idx_recordings_format_renders
+  ON recordings USING GIN (format_renders jsonb_path_ops);
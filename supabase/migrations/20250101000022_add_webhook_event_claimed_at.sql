@@ -0,0 +1,15 @@
+-- Webhook Event Claims
+-- claimed_at records when a delivery started processing an event, so a claim left in
+-- 'processing' by a crashed or timed-out function can be taken over by a redelivery
+
+ALTER TABLE mux_webhook_events
+ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ DEFAULT NOW();
+
+-- Existing events were claimed when they arrived
+UPDATE mux_webhook_events
+SET claimed_at = received_at
+WHERE claimed_at IS NULL OR claimed_at > received_at;
+
+-- Stale claim lookups on redelivery
+CREATE INDEX IF NOT EXISTS idx_mux_webhook_events_status_claimed_at
+  ON mux_webhook_events(status, claimed_at);
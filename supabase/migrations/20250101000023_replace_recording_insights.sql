@@ -0,0 +1,54 @@
+-- Atomic Insight Replace
+-- Swaps a recording's insights for a fresh extraction in one transaction, so readers never
+-- see a recording with its insights deleted but not yet re-inserted. Keyed on the transcript
+-- version the extraction read: if the transcript was edited since, nothing is written (the
+-- edit queues its own extraction) and NULL is returned
+
+CREATE OR REPLACE FUNCTION replace_recording_insights(
+  target_recording_id UUID,
+  extracted_transcript_version INTEGER,
+  new_insights JSONB
+)
+RETURNS INTEGER AS $$
+DECLARE
+  current_version INTEGER;
+  recording_session_id UUID;
+  recording_campaign_id UUID;
+  inserted_count INTEGER;
+BEGIN
+  -- Lock the recording so concurrent extractions replace one after the other
+  SELECT COALESCE(r.transcript_version, 0), r.session_id, s.campaign_id
+  INTO current_version, recording_session_id, recording_campaign_id
+  FROM recordings r
+  LEFT JOIN sessions s ON s.id = r.session_id
+  WHERE r.id = target_recording_id
+  FOR UPDATE OF r;
+
+  IF NOT FOUND OR current_version <> extracted_transcript_version THEN
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM testimonial_insights WHERE recording_id = target_recording_id;
+
+  INSERT INTO testimonial_insights (
+    recording_id, session_id, campaign_id, kind, text, value, unit, context,
+    start_seconds, end_seconds, transcript_version
+  )
+  SELECT
+    target_recording_id, recording_session_id, recording_campaign_id, insight.kind, insight.text,
+    insight.value, insight.unit, insight.context, insight.start_seconds, insight.end_seconds,
+    extracted_transcript_version
+  FROM jsonb_to_recordset(COALESCE(new_insights, '[]'::jsonb)) AS insight(
+    kind TEXT,
+    text TEXT,
+    value NUMERIC,
+    unit TEXT,
+    context TEXT,
+    start_seconds NUMERIC,
+    end_seconds NUMERIC
+  );
+
+  GET DIAGNOSTICS inserted_count = ROW_COUNT;
+  RETURN inserted_count;
+END;
+$$ LANGUAGE plpgsql;
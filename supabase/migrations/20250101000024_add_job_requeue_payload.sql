@@ -0,0 +1,7 @@
+-- Job Re-queue Requests
+-- A stage can be asked to run again while its job is running (e.g. a transcript edit saved
+-- mid-refresh). Only one job per stage can be active, so the request is parked on the
+-- running job and enqueued by the worker once that job finishes
+
+ALTER TABLE recording_jobs
+ADD COLUMN IF NOT EXISTS requeue_payload JSONB;
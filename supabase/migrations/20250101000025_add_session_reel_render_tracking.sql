@@ -0,0 +1,18 @@
+-- Track Session Reel Renders
+-- A session's highlight reel is one Shotstack render that belongs to the session, not
+-- to any recording - stored here so callbacks and status checks can resolve it
+-- Updated by the Shotstack callback route
+
+ALTER TABLE sessions
+ADD COLUMN IF NOT EXISTS reel_render_id TEXT,
+ADD COLUMN IF NOT EXISTS reel_render_status TEXT
+  CHECK (reel_render_status IN ('queued', 'fetching', 'rendering', 'saving', 'done', 'failed')),
+ADD COLUMN IF NOT EXISTS reel_render_url TEXT,
+ADD COLUMN IF NOT EXISTS reel_render_error TEXT,
+ADD COLUMN IF NOT EXISTS reel_mux_asset_id TEXT,
+ADD COLUMN IF NOT EXISTS reel_mux_playback_id TEXT,
+ADD COLUMN IF NOT EXISTS reel_render_updated_at TIMESTAMPTZ;
+
+-- Callback and status lookups by render ID
+CREATE INDEX IF NOT EXISTS idx_sessions_reel_render_id
+  ON sessions(reel_render_id);